@@ -14,6 +14,12 @@ import Home from "@/pages/home";
 import Dashboard from "@/pages/dashboard";
 import Logs from "@/pages/logs";
 import Analytics from "@/pages/analytics";
+import Alerts from "@/pages/alerts";
+import EndUserDetail from "@/pages/end-user-detail";
+import Traces from "@/pages/traces";
+import TraceDetail from "@/pages/trace-detail";
+import Sessions from "@/pages/sessions";
+import SessionDetail from "@/pages/session-detail";
 import Projects from "@/pages/projects";
 import ApiKeys from "@/pages/api-keys";
 import Settings from "@/pages/settings";
@@ -82,11 +88,47 @@ function Router() {
           <Logs />
         </DashboardLayout>
       </Route>
+      <Route path="/dashboard/traces">
+        <DashboardLayout>
+          <Traces />
+        </DashboardLayout>
+      </Route>
+      <Route path="/dashboard/traces/:traceId">
+        {(params) => (
+          <DashboardLayout>
+            <TraceDetail traceId={decodeURIComponent(params.traceId)} />
+          </DashboardLayout>
+        )}
+      </Route>
+      <Route path="/dashboard/sessions">
+        <DashboardLayout>
+          <Sessions />
+        </DashboardLayout>
+      </Route>
+      <Route path="/dashboard/sessions/:sessionId">
+        {(params) => (
+          <DashboardLayout>
+            <SessionDetail sessionId={decodeURIComponent(params.sessionId)} />
+          </DashboardLayout>
+        )}
+      </Route>
       <Route path="/dashboard/analytics">
         <DashboardLayout>
           <Analytics />
         </DashboardLayout>
       </Route>
+      <Route path="/dashboard/alerts">
+        <DashboardLayout>
+          <Alerts />
+        </DashboardLayout>
+      </Route>
+      <Route path="/dashboard/users/:endUserId">
+        {(params) => (
+          <DashboardLayout>
+            <EndUserDetail endUserId={decodeURIComponent(params.endUserId)} />
+          </DashboardLayout>
+        )}
+      </Route>
       <Route path="/dashboard/projects">
         <DashboardLayout>
           <Projects />
@@ -0,0 +1,306 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Plus, Trash2, Send, Radio } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { alertChannelTypes, type AlertChannelSummary } from "@shared/schema";
+
+export const CHANNEL_TYPE_LABELS: Record<typeof alertChannelTypes[number], string> = {
+  webhooks: "Workspace webhooks",
+  slack: "Slack",
+};
+
+const formSchema = z
+  .object({
+    name: z.string().min(1, "Channel name is required").max(100),
+    type: z.enum(alertChannelTypes),
+    url: z.string().optional(),
+  })
+  .refine((data) => data.type !== "slack" || /^https:\/\/hooks\.slack\.com\//.test(data.url || ""), {
+    message: "Enter a Slack incoming webhook URL",
+    path: ["url"],
+  });
+
+export function AlertChannelsCard({ workspaceId }: { workspaceId: string }) {
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const { toast } = useToast();
+
+  const { data: channels, isLoading } = useQuery<AlertChannelSummary[]>({
+    queryKey: ["/api/alerts/channels", { workspaceId }],
+  });
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: "",
+      type: "slack",
+      url: "",
+    },
+  });
+  const type = form.watch("type");
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createChannel = useMutation({
+    mutationFn: async (values: z.infer<typeof formSchema>) => {
+      const res = await apiRequest("POST", "/api/alerts/channels", {
+        workspaceId,
+        name: values.name,
+        type: values.type,
+        config: values.type === "slack" ? { url: values.url } : {},
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts/channels"] });
+      toast({
+        title: "Channel created",
+        description: "Select it on an alert rule to start receiving notifications.",
+      });
+      setIsCreateDialogOpen(false);
+      form.reset();
+    },
+    onError,
+  });
+
+  const toggleChannel = useMutation({
+    mutationFn: async ({ id, enabled }: { id: string; enabled: boolean }) => {
+      return await apiRequest("PATCH", `/api/alerts/channels/${id}`, { enabled });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts/channels"] });
+    },
+    onError,
+  });
+
+  const deleteChannel = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/alerts/channels/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts/channels"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts/rules"] });
+      toast({
+        title: "Channel deleted",
+        description: "Rules that used it will no longer notify it.",
+      });
+    },
+    onError,
+  });
+
+  const sendTest = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/alerts/channels/${id}/test`);
+      return (await res.json()) as { success: boolean; error: string | null };
+    },
+    onSuccess: (result) => {
+      if (result.success) {
+        toast({
+          title: "Test notification sent",
+          description: "Check the channel for the test message.",
+        });
+      } else {
+        toast({
+          title: "Test notification failed",
+          description: result.error || "The channel did not accept the notification.",
+          variant: "destructive",
+        });
+      }
+    },
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Radio className="h-5 w-5" />
+            Notification Channels
+          </CardTitle>
+          <CardDescription>
+            Where alert rules send firing and resolved notifications.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setIsCreateDialogOpen(true)} data-testid="button-create-alert-channel">
+          <Plus className="mr-2 h-4 w-4" />
+          Add Channel
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading channels...</div>
+        ) : channels && channels.length > 0 ? (
+          <div className="space-y-4">
+            {channels.map((channel) => (
+              <div key={channel.id} className="flex items-center justify-between gap-2" data-testid={`alert-channel-${channel.id}`}>
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{channel.name}</span>
+                    <Badge variant="secondary" className="text-xs">
+                      {CHANNEL_TYPE_LABELS[channel.type as keyof typeof CHANNEL_TYPE_LABELS] || channel.type}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground font-mono truncate">{channel.target}</p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Switch
+                    checked={channel.enabled}
+                    onCheckedChange={(enabled) => toggleChannel.mutate({ id: channel.id, enabled })}
+                    data-testid={`switch-alert-channel-enabled-${channel.id}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => sendTest.mutate(channel.id)}
+                    disabled={sendTest.isPending}
+                    title="Send test notification"
+                    data-testid={`button-test-alert-channel-${channel.id}`}
+                  >
+                    <Send className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                    onClick={() => deleteChannel.mutate(channel.id)}
+                    data-testid={`button-delete-alert-channel-${channel.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No channels yet. Add one so alert rules can notify your team.
+          </p>
+        )}
+      </CardContent>
+
+      <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add channel</DialogTitle>
+            <DialogDescription>
+              Notifications are sent when a rule starts firing and when it resolves.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((values) => createChannel.mutate(values))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="#oncall-llm" data-testid="input-alert-channel-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-alert-channel-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {alertChannelTypes.map((value) => (
+                          <SelectItem key={value} value={value}>
+                            {CHANNEL_TYPE_LABELS[value]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {type === "webhooks" && (
+                      <FormDescription>
+                        Delivers alert.firing and alert.resolved events to the webhooks in Settings that subscribe to them.
+                      </FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {type === "slack" && (
+                <FormField
+                  control={form.control}
+                  name="url"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Incoming webhook URL</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="https://hooks.slack.com/services/..." data-testid="input-alert-channel-url" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <div className="flex justify-end gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsCreateDialogOpen(false)}
+                  data-testid="button-cancel-alert-channel"
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={createChannel.isPending} data-testid="button-submit-alert-channel">
+                  {createChannel.isPending ? "Creating..." : "Add channel"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
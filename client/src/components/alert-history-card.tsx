@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, formatDistanceStrict } from "date-fns";
+import { History, BellOff } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { describeAlertCondition, formatAlertValue } from "@/components/alert-rules-card";
+import type { AlertIncident } from "@shared/schema";
+
+type IncidentStatus = "all" | "open" | "resolved";
+
+export function AlertHistoryCard({ workspaceId }: { workspaceId: string }) {
+  const [status, setStatus] = useState<IncidentStatus>("all");
+
+  const { data: incidents, isLoading } = useQuery<AlertIncident[]>({
+    queryKey: ["/api/alerts/incidents", { workspaceId, status }],
+    refetchInterval: 60 * 1000,
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Alert History
+          </CardTitle>
+          <CardDescription>
+            Every time a rule fired, with the value that triggered it and when it resolved.
+          </CardDescription>
+        </div>
+        <Select value={status} onValueChange={(value) => setStatus(value as IncidentStatus)}>
+          <SelectTrigger className="w-36" data-testid="select-alert-history-status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All</SelectItem>
+            <SelectItem value="open">Firing</SelectItem>
+            <SelectItem value="resolved">Resolved</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading alert history...</div>
+        ) : incidents && incidents.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rule</TableHead>
+                <TableHead>Condition</TableHead>
+                <TableHead className="text-right">Value</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Fired</TableHead>
+                <TableHead className="text-right">Duration</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {incidents.map((incident) => {
+                const firedAt = new Date(incident.firedAt);
+                return (
+                  <TableRow key={incident.id} data-testid={`row-alert-incident-${incident.id}`}>
+                    <TableCell className="font-medium">
+                      <div className="flex items-center gap-2">
+                        {incident.ruleName}
+                        {incident.silenced && (
+                          <span title="Silenced: no notifications were sent">
+                            <BellOff className="h-3.5 w-3.5 text-muted-foreground" />
+                          </span>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">{describeAlertCondition(incident)}</TableCell>
+                    <TableCell className="text-right text-sm">
+                      {formatAlertValue(incident.metric, incident.value)}
+                      {incident.resolvedAt && incident.resolvedValue !== null && (
+                        <span className="text-muted-foreground">
+                          {" "}→ {formatAlertValue(incident.metric, incident.resolvedValue)}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {incident.resolvedAt ? (
+                        <Badge variant="secondary" className="text-xs">Resolved</Badge>
+                      ) : (
+                        <Badge className="text-xs bg-red-500/10 text-red-500 border-red-500/20">Firing</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{format(firedAt, "MMM d, h:mm a")}</TableCell>
+                    <TableCell className="text-right text-sm text-muted-foreground">
+                      {formatDistanceStrict(incident.resolvedAt ? new Date(incident.resolvedAt) : new Date(), firedAt)}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {status === "open" ? "Nothing is firing right now." : "No alerts have fired yet."}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
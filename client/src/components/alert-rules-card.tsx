@@ -0,0 +1,492 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { formatDistanceToNow } from "date-fns";
+import { Plus, Trash2, Siren } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { alertMetrics, type AlertChannelSummary, type AlertRule, type Project } from "@shared/schema";
+
+export const METRIC_LABELS: Record<typeof alertMetrics[number], string> = {
+  p95_latency: "p95 latency",
+  error_rate: "Error rate",
+  cost: "Cost",
+};
+
+const THRESHOLD_UNITS: Record<typeof alertMetrics[number], string> = {
+  p95_latency: "ms",
+  error_rate: "%",
+  cost: "USD",
+};
+
+export function formatAlertValue(metric: string, value: string | number | null): string {
+  if (value === null) return "no data";
+  const number = typeof value === "string" ? parseFloat(value) : value;
+  if (metric === "p95_latency") return `${Math.round(number).toLocaleString()} ms`;
+  if (metric === "error_rate") return `${number.toFixed(2)}%`;
+  return `$${number.toFixed(2)}`;
+}
+
+// e.g. "p95 latency > 3,000 ms"
+export function describeAlertCondition(rule: { metric: string; operator: string; threshold: string }): string {
+  const label = METRIC_LABELS[rule.metric as keyof typeof METRIC_LABELS] || rule.metric;
+  return `${label} ${rule.operator === "lt" ? "<" : ">"} ${formatAlertValue(rule.metric, rule.threshold)}`;
+}
+
+const STATE_BADGES: Record<string, string> = {
+  ok: "bg-green-500/10 text-green-500 border-green-500/20",
+  pending: "bg-orange-500/10 text-orange-500 border-orange-500/20",
+  firing: "bg-red-500/10 text-red-500 border-red-500/20",
+};
+
+const ANY = "any";
+
+const formSchema = z.object({
+  name: z.string().min(1, "Rule name is required").max(100),
+  metric: z.enum(alertMetrics),
+  operator: z.enum(["gt", "lt"]),
+  threshold: z.coerce.number().nonnegative("Threshold cannot be negative"),
+  windowMinutes: z.coerce.number().int().min(1, "At least 1 minute").max(1440, "At most 24 hours"),
+  forMinutes: z.coerce.number().int().min(0).max(1440, "At most 24 hours"),
+  projectId: z.string(),
+  environment: z.string(),
+  model: z.string().max(200),
+  channelIds: z.array(z.string()),
+});
+
+export function AlertRulesCard({ workspaceId }: { workspaceId: string }) {
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const { toast } = useToast();
+
+  // Refreshed on the evaluator's cadence so state changes show up without a reload
+  const { data: rules, isLoading } = useQuery<AlertRule[]>({
+    queryKey: ["/api/alerts/rules", { workspaceId }],
+    refetchInterval: 60 * 1000,
+  });
+
+  const { data: channels } = useQuery<AlertChannelSummary[]>({
+    queryKey: ["/api/alerts/channels", { workspaceId }],
+  });
+
+  const { data: projects } = useQuery<Project[]>({
+    queryKey: ["/api/projects", { workspaceId }],
+  });
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: "",
+      metric: "p95_latency",
+      operator: "gt",
+      threshold: 3000,
+      windowMinutes: 10,
+      forMinutes: 10,
+      projectId: ANY,
+      environment: ANY,
+      model: "",
+      channelIds: [],
+    },
+  });
+  const metric = form.watch("metric");
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createRule = useMutation({
+    mutationFn: async (values: z.infer<typeof formSchema>) => {
+      const res = await apiRequest("POST", "/api/alerts/rules", {
+        ...values,
+        workspaceId,
+        projectId: values.projectId === ANY ? null : values.projectId,
+        environment: values.environment === ANY ? null : values.environment,
+        model: values.model.trim() || null,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts/rules"] });
+      toast({
+        title: "Alert rule created",
+        description: "It will be evaluated every minute.",
+      });
+      setIsCreateDialogOpen(false);
+      form.reset();
+    },
+    onError,
+  });
+
+  const toggleRule = useMutation({
+    mutationFn: async ({ id, enabled }: { id: string; enabled: boolean }) => {
+      return await apiRequest("PATCH", `/api/alerts/rules/${id}`, { enabled });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts/rules"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts/incidents"] });
+    },
+    onError,
+  });
+
+  const deleteRule = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/alerts/rules/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts/rules"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts/incidents"] });
+      toast({
+        title: "Alert rule deleted",
+        description: "Its history is kept.",
+      });
+    },
+    onError,
+  });
+
+  const describeScope = (rule: AlertRule) => {
+    const parts: string[] = [];
+    if (rule.projectId) {
+      parts.push(`Project: ${projects?.find((p) => p.id === rule.projectId)?.name || "Unknown"}`);
+    }
+    if (rule.environment) parts.push(`Environment: ${rule.environment}`);
+    if (rule.model) parts.push(`Model: ${rule.model}`);
+    return parts.length > 0 ? parts.join(" • ") : "All telemetry";
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Siren className="h-5 w-5" />
+            Alert Rules
+          </CardTitle>
+          <CardDescription>
+            Conditions on latency, error rate and cost, checked every minute.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setIsCreateDialogOpen(true)} data-testid="button-create-alert-rule">
+          <Plus className="mr-2 h-4 w-4" />
+          Add Rule
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading alert rules...</div>
+        ) : rules && rules.length > 0 ? (
+          <div className="space-y-4">
+            {rules.map((rule) => (
+              <div key={rule.id} className="flex items-center justify-between gap-2" data-testid={`alert-rule-${rule.id}`}>
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{rule.name}</span>
+                    {rule.enabled ? (
+                      <Badge className={`text-xs capitalize ${STATE_BADGES[rule.state] || ""}`} data-testid={`badge-alert-rule-state-${rule.id}`}>
+                        {rule.state}
+                      </Badge>
+                    ) : (
+                      <Badge variant="secondary" className="text-xs">Disabled</Badge>
+                    )}
+                  </div>
+                  <p className="text-sm">
+                    {describeAlertCondition(rule)} over {rule.windowMinutes} min
+                    {rule.forMinutes > 0 && ` for ${rule.forMinutes} min`}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {describeScope(rule)}
+                    {rule.lastEvaluatedAt && (
+                      <>
+                        {" "}• Now {formatAlertValue(rule.metric, rule.lastValue)}, checked{" "}
+                        {formatDistanceToNow(new Date(rule.lastEvaluatedAt), { addSuffix: true })}
+                      </>
+                    )}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Switch
+                    checked={rule.enabled}
+                    onCheckedChange={(enabled) => toggleRule.mutate({ id: rule.id, enabled })}
+                    data-testid={`switch-alert-rule-enabled-${rule.id}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                    onClick={() => deleteRule.mutate(rule.id)}
+                    data-testid={`button-delete-alert-rule-${rule.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No alert rules yet. Add one to be notified when latency, errors or cost go out of bounds.
+          </p>
+        )}
+      </CardContent>
+
+      <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Add alert rule</DialogTitle>
+            <DialogDescription>
+              The metric is computed over a trailing window of telemetry every minute.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((values) => createRule.mutate(values))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="Slow GPT-4o responses" data-testid="input-alert-rule-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="metric"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Metric</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-alert-rule-metric">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {alertMetrics.map((value) => (
+                            <SelectItem key={value} value={value}>
+                              {METRIC_LABELS[value]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="operator"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Condition</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-alert-rule-operator">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="gt">Above</SelectItem>
+                          <SelectItem value="lt">Below</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="threshold"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Threshold ({THRESHOLD_UNITS[metric]})</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="number" min="0" step="any" data-testid="input-alert-rule-threshold" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="windowMinutes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Window (minutes)</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="number" min="1" data-testid="input-alert-rule-window" />
+                      </FormControl>
+                      <FormDescription>Telemetry the metric is computed over.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="forMinutes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>For (minutes)</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="number" min="0" data-testid="input-alert-rule-for" />
+                      </FormControl>
+                      <FormDescription>How long it must hold before firing.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="projectId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Project</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-alert-rule-project">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={ANY}>All projects</SelectItem>
+                          {projects?.map((project) => (
+                            <SelectItem key={project.id} value={project.id}>
+                              {project.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="environment"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Environment</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-alert-rule-environment">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={ANY}>All environments</SelectItem>
+                          <SelectItem value="development">Development</SelectItem>
+                          <SelectItem value="staging">Staging</SelectItem>
+                          <SelectItem value="production">Production</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="model"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Model</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="All models" data-testid="input-alert-rule-model" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="channelIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notify</FormLabel>
+                    {channels && channels.length > 0 ? (
+                      <div className="space-y-2">
+                        {channels.map((channel) => (
+                          <label key={channel.id} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={field.value.includes(channel.id)}
+                              onCheckedChange={(checked) =>
+                                field.onChange(
+                                  checked ? [...field.value, channel.id] : field.value.filter((value) => value !== channel.id)
+                                )
+                              }
+                              data-testid={`checkbox-alert-rule-channel-${channel.id}`}
+                            />
+                            {channel.name}
+                          </label>
+                        ))}
+                      </div>
+                    ) : (
+                      <FormDescription>
+                        No channels yet. Firings are still recorded in the alert history.
+                      </FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsCreateDialogOpen(false)}
+                  data-testid="button-cancel-alert-rule"
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={createRule.isPending} data-testid="button-submit-alert-rule">
+                  {createRule.isPending ? "Creating..." : "Add rule"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
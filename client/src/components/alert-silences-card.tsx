@@ -0,0 +1,278 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { Plus, Trash2, BellOff } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { AlertRule, AlertSilence } from "@shared/schema";
+
+const ALL_RULES = "all";
+
+const DURATIONS = [
+  { value: "1", label: "1 hour" },
+  { value: "4", label: "4 hours" },
+  { value: "24", label: "1 day" },
+  { value: "168", label: "1 week" },
+];
+
+const formSchema = z.object({
+  ruleId: z.string(),
+  hours: z.string(),
+  reason: z.string().max(500),
+});
+
+export function AlertSilencesCard({ workspaceId }: { workspaceId: string }) {
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const { toast } = useToast();
+
+  const { data: silences, isLoading } = useQuery<AlertSilence[]>({
+    queryKey: ["/api/alerts/silences", { workspaceId }],
+  });
+
+  const { data: rules } = useQuery<AlertRule[]>({
+    queryKey: ["/api/alerts/rules", { workspaceId }],
+  });
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      ruleId: ALL_RULES,
+      hours: "1",
+      reason: "",
+    },
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createSilence = useMutation({
+    mutationFn: async (values: z.infer<typeof formSchema>) => {
+      const startsAt = new Date();
+      const res = await apiRequest("POST", "/api/alerts/silences", {
+        workspaceId,
+        ruleId: values.ruleId === ALL_RULES ? null : values.ruleId,
+        reason: values.reason.trim() || null,
+        startsAt: startsAt.toISOString(),
+        endsAt: new Date(startsAt.getTime() + parseInt(values.hours, 10) * 60 * 60 * 1000).toISOString(),
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts/silences"] });
+      toast({
+        title: "Silence created",
+        description: "Matching alerts are still recorded but no one is notified.",
+      });
+      setIsCreateDialogOpen(false);
+      form.reset();
+    },
+    onError,
+  });
+
+  const deleteSilence = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/alerts/silences/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts/silences"] });
+      toast({
+        title: "Silence removed",
+        description: "Notifications will be sent again.",
+      });
+    },
+    onError,
+  });
+
+  const ruleNames = new Map(rules?.map((rule) => [rule.id, rule.name]));
+  const now = Date.now();
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <BellOff className="h-5 w-5" />
+            Silences
+          </CardTitle>
+          <CardDescription>
+            Mute notifications during maintenance or while an incident is being handled.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setIsCreateDialogOpen(true)} data-testid="button-create-alert-silence">
+          <Plus className="mr-2 h-4 w-4" />
+          Add Silence
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading silences...</div>
+        ) : silences && silences.length > 0 ? (
+          <div className="space-y-4">
+            {silences.map((silence) => {
+              const startsAt = new Date(silence.startsAt);
+              const endsAt = new Date(silence.endsAt);
+              const status = endsAt.getTime() <= now ? "Expired" : startsAt.getTime() > now ? "Scheduled" : "Active";
+              return (
+                <div key={silence.id} className="flex items-center justify-between gap-2" data-testid={`alert-silence-${silence.id}`}>
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">
+                        {silence.ruleId ? ruleNames.get(silence.ruleId) || "Alert rule" : "All rules"}
+                      </span>
+                      <Badge variant={status === "Active" ? "default" : "secondary"} className="text-xs">
+                        {status}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {format(startsAt, "MMM d, h:mm a")} – {format(endsAt, "MMM d, h:mm a")}
+                      {silence.reason && ` • ${silence.reason}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                    onClick={() => deleteSilence.mutate(silence.id)}
+                    data-testid={`button-delete-alert-silence-${silence.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No silences. Alerts notify their channels as soon as they fire.
+          </p>
+        )}
+      </CardContent>
+
+      <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add silence</DialogTitle>
+            <DialogDescription>
+              Starting now, firing and resolved notifications are suppressed for the chosen rules.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((values) => createSilence.mutate(values))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="ruleId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Rule</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-alert-silence-rule">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={ALL_RULES}>All rules</SelectItem>
+                        {rules?.map((rule) => (
+                          <SelectItem key={rule.id} value={rule.id}>
+                            {rule.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="hours"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Duration</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-alert-silence-duration">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {DURATIONS.map((duration) => (
+                          <SelectItem key={duration.value} value={duration.value}>
+                            {duration.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reason</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="Provider maintenance window" data-testid="input-alert-silence-reason" />
+                    </FormControl>
+                    <FormDescription>Optional, shown to the rest of the team.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsCreateDialogOpen(false)}
+                  data-testid="button-cancel-alert-silence"
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={createSilence.isPending} data-testid="button-submit-alert-silence">
+                  {createSilence.isPending ? "Creating..." : "Add silence"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,4 +1,4 @@
-import { Home, FileText, BarChart3, FolderOpen, Settings, Key, LogOut } from "lucide-react";
+import { Home, FileText, GitBranch, MessagesSquare, BarChart3, Siren, FolderOpen, Settings, Key, LogOut } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import {
   Sidebar,
@@ -28,11 +28,26 @@ const menuItems = [
     url: "/dashboard/logs",
     icon: FileText,
   },
+  {
+    title: "Traces",
+    url: "/dashboard/traces",
+    icon: GitBranch,
+  },
+  {
+    title: "Sessions",
+    url: "/dashboard/sessions",
+    icon: MessagesSquare,
+  },
   {
     title: "Analytics",
     url: "/dashboard/analytics",
     icon: BarChart3,
   },
+  {
+    title: "Alerts",
+    url: "/dashboard/alerts",
+    icon: Siren,
+  },
   {
     title: "Projects",
     url: "/dashboard/projects",
@@ -0,0 +1,408 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { Plus, Trash2, Wallet, Bell } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { BudgetAlert, BudgetStatus, Project } from "@shared/schema";
+
+const formSchema = z
+  .object({
+    name: z.string().min(1, "Budget name is required").max(100),
+    scope: z.enum(["workspace", "project", "environment"]),
+    projectId: z.string().optional(),
+    environment: z.string().optional(),
+    period: z.enum(["daily", "weekly", "monthly"]),
+    amount: z.coerce.number().positive("Amount must be greater than zero"),
+    thresholds: z
+      .string()
+      .regex(/^\s*\d+(\s*,\s*\d+)*\s*$/, "Enter comma-separated percentages, e.g. 50, 80, 100"),
+  })
+  .refine((data) => data.scope !== "project" || !!data.projectId, {
+    message: "Select a project",
+    path: ["projectId"],
+  })
+  .refine((data) => data.scope !== "environment" || !!data.environment, {
+    message: "Select an environment",
+    path: ["environment"],
+  });
+
+const formatCurrency = (value: number) => `$${value.toFixed(2)}`;
+
+export function BudgetsCard({ workspaceId }: { workspaceId: string }) {
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const { toast } = useToast();
+
+  const { data: budgets, isLoading } = useQuery<BudgetStatus[]>({
+    queryKey: ["/api/budgets", { workspaceId }],
+  });
+
+  const { data: alerts } = useQuery<BudgetAlert[]>({
+    queryKey: ["/api/budgets/alerts", { workspaceId }],
+  });
+
+  const { data: projects } = useQuery<Project[]>({
+    queryKey: ["/api/projects", { workspaceId }],
+  });
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: "",
+      scope: "workspace",
+      period: "monthly",
+      amount: 100,
+      thresholds: "50, 80, 100",
+    },
+  });
+  const scope = form.watch("scope");
+
+  const createBudget = useMutation({
+    mutationFn: async (values: z.infer<typeof formSchema>) => {
+      const res = await apiRequest("POST", "/api/budgets", {
+        workspaceId,
+        name: values.name,
+        scope: values.scope,
+        projectId: values.scope === "project" ? values.projectId : null,
+        environment: values.scope === "environment" ? values.environment : null,
+        period: values.period,
+        amount: values.amount,
+        thresholds: values.thresholds.split(",").map((value) => parseInt(value.trim(), 10)),
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/budgets"] });
+      toast({
+        title: "Budget created",
+        description: "You will be alerted as spend crosses its thresholds.",
+      });
+      setIsCreateDialogOpen(false);
+      form.reset();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteBudget = useMutation({
+    mutationFn: async (budgetId: string) => {
+      return await apiRequest("DELETE", `/api/budgets/${budgetId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/budgets"] });
+      toast({
+        title: "Budget deleted",
+        description: "The budget has been deleted successfully.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const budgetNames = new Map(budgets?.map((budget) => [budget.id, budget.name]));
+
+  const describeScope = (budget: BudgetStatus) => {
+    if (budget.scope === "project") {
+      const project = projects?.find((p) => p.id === budget.projectId);
+      return `Project: ${project?.name || "Unknown"}`;
+    }
+    if (budget.scope === "environment") {
+      return `Environment: ${budget.environment}`;
+    }
+    return "Entire workspace";
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5" />
+            Budgets
+          </CardTitle>
+          <CardDescription>
+            Set spend limits and get alerted as they are reached.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setIsCreateDialogOpen(true)} data-testid="button-create-budget">
+          <Plus className="mr-2 h-4 w-4" />
+          Add Budget
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading budgets...</div>
+        ) : budgets && budgets.length > 0 ? (
+          <div className="space-y-4">
+            {budgets.map((budget) => (
+              <div key={budget.id} className="space-y-2" data-testid={`budget-${budget.id}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{budget.name}</span>
+                      <Badge variant="secondary" className="text-xs capitalize">{budget.period}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">{describeScope(budget)}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">
+                      {formatCurrency(budget.spend)} / {formatCurrency(parseFloat(budget.amount))}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      onClick={() => deleteBudget.mutate(budget.id)}
+                      data-testid={`button-delete-budget-${budget.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <Progress
+                  value={Math.min(budget.percentUsed, 100)}
+                  className={budget.percentUsed >= 100 ? "h-2 [&>div]:bg-destructive" : "h-2"}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {budget.percentUsed.toFixed(1)}% used since {format(new Date(budget.periodStart), "MMM d")} •
+                  Alerts at {budget.thresholds.join("%, ")}%
+                </p>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No budgets yet. Add one to track spend against a limit.
+          </p>
+        )}
+
+        {alerts && alerts.length > 0 && (
+          <div className="pt-4 border-t space-y-2">
+            <h4 className="text-sm font-semibold flex items-center gap-2">
+              <Bell className="h-4 w-4" />
+              Recent Alerts
+            </h4>
+            {alerts.slice(0, 10).map((alert) => (
+              <div key={alert.id} className="flex items-center justify-between text-sm" data-testid={`budget-alert-${alert.id}`}>
+                <span>
+                  <strong>{budgetNames.get(alert.budgetId) || "Budget"}</strong> reached {alert.threshold}%
+                  ({formatCurrency(parseFloat(alert.spend))} of {formatCurrency(parseFloat(alert.amount))})
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {format(new Date(alert.createdAt), "MMM d, h:mm a")}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add budget</DialogTitle>
+            <DialogDescription>
+              Define a spend limit for a period and the thresholds that trigger alerts.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((values) => createBudget.mutate(values))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="Monthly production spend" data-testid="input-budget-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="scope"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Scope</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-budget-scope">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="workspace">Entire workspace</SelectItem>
+                        <SelectItem value="project">Project</SelectItem>
+                        <SelectItem value="environment">Environment</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {scope === "project" && (
+                <FormField
+                  control={form.control}
+                  name="projectId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Project</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-budget-project">
+                            <SelectValue placeholder="Select a project" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {projects?.map((project) => (
+                            <SelectItem key={project.id} value={project.id}>
+                              {project.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              {scope === "environment" && (
+                <FormField
+                  control={form.control}
+                  name="environment"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Environment</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-budget-environment">
+                            <SelectValue placeholder="Select an environment" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="development">Development</SelectItem>
+                          <SelectItem value="staging">Staging</SelectItem>
+                          <SelectItem value="production">Production</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="period"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Period</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-budget-period">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="daily">Daily</SelectItem>
+                          <SelectItem value="weekly">Weekly</SelectItem>
+                          <SelectItem value="monthly">Monthly</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="amount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Amount (USD)</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="number" min="0" step="0.01" data-testid="input-budget-amount" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="thresholds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Alert thresholds (%)</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="50, 80, 100" data-testid="input-budget-thresholds" />
+                    </FormControl>
+                    <FormDescription>
+                      An alert is recorded once per period as spend crosses each percentage.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsCreateDialogOpen(false)}
+                  data-testid="button-cancel-budget"
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={createBudget.isPending} data-testid="button-submit-budget">
+                  {createBudget.isPending ? "Creating..." : "Add budget"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
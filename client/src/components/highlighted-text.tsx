@@ -0,0 +1,67 @@
+import { Fragment } from "react";
+
+const SNIPPET_CONTEXT_CHARS = 60;
+
+// Case-insensitive pattern for the search terms; words in a phrase may be separated by any whitespace
+function termsPattern(terms: string[]): RegExp | null {
+  const parts = terms
+    .map((term) => term.trim())
+    .filter(Boolean)
+    .map((term) => term.split(/\s+/).map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("\\s+"));
+  return parts.length > 0 ? new RegExp(`(${parts.join("|")})`, "gi") : null;
+}
+
+interface HighlightedTextProps {
+  text: string;
+  terms?: string[];
+}
+
+export function HighlightedText({ text, terms = [] }: HighlightedTextProps) {
+  const pattern = termsPattern(terms);
+  if (!pattern) return <>{text}</>;
+
+  // split() with a capturing group puts the matches at odd indexes
+  return (
+    <>
+      {text.split(pattern).map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-200 dark:bg-yellow-800 text-foreground rounded-sm px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+// Short excerpt around the first match, or null when no term appears in the text
+function matchSnippet(text: string, terms: string[]): string | null {
+  const pattern = termsPattern(terms);
+  const match = pattern ? pattern.exec(text) : null;
+  if (!match) return null;
+
+  const start = Math.max(match.index - SNIPPET_CONTEXT_CHARS, 0);
+  const end = Math.min(match.index + match[0].length + SNIPPET_CONTEXT_CHARS, text.length);
+  const excerpt = text.slice(start, end).replace(/\s+/g, " ");
+  return `${start > 0 ? "…" : ""}${excerpt}${end < text.length ? "…" : ""}`;
+}
+
+interface MatchSnippetProps {
+  texts: string[];
+  terms: string[];
+  className?: string;
+}
+
+// Excerpt from the first text containing a search term, with the terms highlighted
+export function MatchSnippet({ texts, terms, className }: MatchSnippetProps) {
+  const snippet = texts.map((text) => matchSnippet(text, terms)).find(Boolean);
+  if (!snippet) return null;
+
+  return (
+    <div className={className}>
+      <HighlightedText text={snippet} terms={terms} />
+    </div>
+  );
+}
@@ -0,0 +1,375 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { Archive, History, Pencil, Play, Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { MAX_RETENTION_DAYS, type Project, type RetentionPolicy, type RetentionRun } from "@shared/schema";
+
+const WORKSPACE_SCOPE = "workspace";
+
+// Blank inputs mean "keep forever" (or inherit, for project policies)
+const daysField = z
+  .string()
+  .regex(/^\d*$/, "Enter a whole number of days")
+  .refine((value) => value === "" || (parseInt(value, 10) >= 1 && parseInt(value, 10) <= MAX_RETENTION_DAYS), {
+    message: `Enter between 1 and ${MAX_RETENTION_DAYS} days`,
+  });
+
+const formSchema = z.object({
+  scope: z.string().min(1, "Select a project"),
+  contentRetentionDays: daysField,
+  logRetentionDays: daysField,
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+const toDays = (value: string) => (value === "" ? null : parseInt(value, 10));
+
+export function RetentionCard({ workspaceId }: { workspaceId: string }) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<RetentionPolicy | null>(null);
+  const { toast } = useToast();
+
+  const { data: policies, isLoading } = useQuery<RetentionPolicy[]>({
+    queryKey: ["/api/retention/policies", { workspaceId }],
+  });
+
+  const { data: runs } = useQuery<RetentionRun[]>({
+    queryKey: ["/api/retention/runs", { workspaceId }],
+  });
+
+  const { data: projects } = useQuery<Project[]>({
+    queryKey: ["/api/projects", { workspaceId }],
+  });
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { scope: WORKSPACE_SCOPE, contentRetentionDays: "", logRetentionDays: "" },
+  });
+  const scope = form.watch("scope");
+
+  const workspacePolicy = policies?.find((policy) => !policy.projectId);
+  const projectName = (projectId: string | null) =>
+    projects?.find((project) => project.id === projectId)?.name || "Unknown project";
+
+  const openDialog = (policy: RetentionPolicy | null) => {
+    setEditingPolicy(policy);
+    form.reset({
+      scope: policy?.projectId || (policy || !workspacePolicy ? WORKSPACE_SCOPE : ""),
+      contentRetentionDays: policy?.contentRetentionDays?.toString() ?? "",
+      logRetentionDays: policy?.logRetentionDays?.toString() ?? "",
+    });
+    setIsDialogOpen(true);
+  };
+
+  const savePolicy = useMutation({
+    mutationFn: async (values: FormValues) => {
+      const res = await apiRequest("PUT", "/api/retention/policies", {
+        workspaceId,
+        projectId: values.scope === WORKSPACE_SCOPE ? null : values.scope,
+        contentRetentionDays: toDays(values.contentRetentionDays),
+        logRetentionDays: toDays(values.logRetentionDays),
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/retention/policies"] });
+      toast({
+        title: "Retention policy saved",
+        description: "Older data will be purged on the next hourly run.",
+      });
+      setIsDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deletePolicy = useMutation({
+    mutationFn: async (policyId: string) => {
+      return await apiRequest("DELETE", `/api/retention/policies/${policyId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/retention/policies"] });
+      toast({
+        title: "Retention policy deleted",
+        description: "The policy has been deleted successfully.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const runNow = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/retention/run", { workspaceId });
+      return (await res.json()) as RetentionRun[];
+    },
+    onSuccess: (newRuns) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/retention/runs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/telemetry"] });
+      const deleted = newRuns.reduce((sum, run) => sum + run.logsDeleted, 0);
+      const purged = newRuns.reduce((sum, run) => sum + run.contentsPurged, 0);
+      toast({
+        title: "Retention applied",
+        description: `Deleted ${deleted.toLocaleString()} logs and cleared text from ${purged.toLocaleString()}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const describeDays = (days: number | null, inherited: number | null | undefined, isProject: boolean) => {
+    if (days !== null) return `${days} days`;
+    if (isProject && inherited != null) return `${inherited} days (workspace)`;
+    return "Forever";
+  };
+
+  const projectsWithoutPolicy = projects?.filter(
+    (project) => !policies?.some((policy) => policy.projectId === project.id)
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Archive className="h-5 w-5" />
+            Data Retention
+          </CardTitle>
+          <CardDescription>
+            Clear prompt and response text or delete whole logs once they reach a given age.
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => runNow.mutate()}
+            disabled={runNow.isPending || !policies?.length}
+            data-testid="button-run-retention"
+          >
+            <Play className="mr-2 h-4 w-4" />
+            {runNow.isPending ? "Running..." : "Run now"}
+          </Button>
+          <Button size="sm" onClick={() => openDialog(null)} data-testid="button-add-retention-policy">
+            <Plus className="mr-2 h-4 w-4" />
+            Add Policy
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading retention policies...</div>
+        ) : policies && policies.length > 0 ? (
+          <div className="space-y-3">
+            {policies.map((policy) => (
+              <div
+                key={policy.id}
+                className="flex items-center justify-between gap-2"
+                data-testid={`retention-policy-${policy.id}`}
+              >
+                <div className="min-w-0">
+                  <div className="font-medium truncate">
+                    {policy.projectId ? projectName(policy.projectId) : "Workspace default"}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Text kept {describeDays(policy.contentRetentionDays, workspacePolicy?.contentRetentionDays, !!policy.projectId)} •
+                    Logs kept {describeDays(policy.logRetentionDays, workspacePolicy?.logRetentionDays, !!policy.projectId)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => openDialog(policy)}
+                    data-testid={`button-edit-retention-${policy.id}`}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                    onClick={() => deletePolicy.mutate(policy.id)}
+                    data-testid={`button-delete-retention-${policy.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No retention policy. Telemetry is kept forever.
+          </p>
+        )}
+
+        {runs && runs.length > 0 && (
+          <div className="pt-4 border-t space-y-2">
+            <h4 className="text-sm font-semibold flex items-center gap-2">
+              <History className="h-4 w-4" />
+              Recent Purges
+            </h4>
+            {runs.slice(0, 10).map((run) => (
+              <div key={run.id} className="flex items-center justify-between gap-2 text-sm" data-testid={`retention-run-${run.id}`}>
+                <span className="min-w-0">
+                  <strong>{run.projectId ? projectName(run.projectId) : "Workspace"}</strong>:{" "}
+                  {run.logsDeleted.toLocaleString()} logs deleted, {run.contentsPurged.toLocaleString()} cleared
+                  {!run.complete && !run.error && (
+                    <Badge variant="secondary" className="ml-2 text-xs">More pending</Badge>
+                  )}
+                  {run.error && (
+                    <Badge variant="destructive" className="ml-2 text-xs" title={run.error}>Failed</Badge>
+                  )}
+                </span>
+                <span className="text-xs text-muted-foreground shrink-0">
+                  {format(new Date(run.finishedAt), "MMM d, h:mm a")}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingPolicy ? "Edit retention policy" : "Add retention policy"}</DialogTitle>
+            <DialogDescription>
+              Purges run hourly in bounded batches. Leave a field blank to keep that data forever.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((values) => savePolicy.mutate(values))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="scope"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Applies to</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange} disabled={!!editingPolicy}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-retention-scope">
+                          <SelectValue placeholder="Select a project" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(editingPolicy ? !editingPolicy.projectId : !workspacePolicy) && (
+                          <SelectItem value={WORKSPACE_SCOPE}>Workspace default</SelectItem>
+                        )}
+                        {editingPolicy?.projectId && (
+                          <SelectItem value={editingPolicy.projectId}>{projectName(editingPolicy.projectId)}</SelectItem>
+                        )}
+                        {!editingPolicy && projectsWithoutPolicy?.map((project) => (
+                          <SelectItem key={project.id} value={project.id}>
+                            {project.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="contentRetentionDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Keep prompt and response text for (days)</FormLabel>
+                    <FormControl>
+                      <Input {...field} inputMode="numeric" placeholder="e.g. 30" data-testid="input-retention-content-days" />
+                    </FormControl>
+                    <FormDescription>
+                      Older logs keep their metrics but lose their text.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="logRetentionDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Keep logs for (days)</FormLabel>
+                    <FormControl>
+                      <Input {...field} inputMode="numeric" placeholder="e.g. 395" data-testid="input-retention-log-days" />
+                    </FormControl>
+                    <FormDescription>
+                      {scope === WORKSPACE_SCOPE
+                        ? "Older logs are deleted, including their metrics."
+                        : "Blank fields inherit the workspace default."}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsDialogOpen(false)}
+                  data-testid="button-cancel-retention"
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={savePolicy.isPending} data-testid="button-submit-retention">
+                  {savePolicy.isPending ? "Saving..." : "Save policy"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
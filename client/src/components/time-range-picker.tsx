@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { CalendarIcon } from "lucide-react";
+import type { DateRange } from "react-day-picker";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { TIME_RANGE_PRESETS, type useTimeRange } from "@/hooks/use-time-range";
+
+interface TimeRangePickerProps {
+  timeRange: ReturnType<typeof useTimeRange>;
+}
+
+export function TimeRangePicker({ timeRange }: TimeRangePickerProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<DateRange | undefined>(
+    timeRange.range === "custom" ? { from: timeRange.from, to: timeRange.to } : undefined
+  );
+
+  const applyCustomRange = () => {
+    if (draft?.from) {
+      timeRange.setCustomRange(draft.from, draft.to || draft.from);
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1" data-testid="time-range-picker">
+      {TIME_RANGE_PRESETS.map((preset) => (
+        <Button
+          key={preset}
+          variant={timeRange.range === preset ? "default" : "outline"}
+          size="sm"
+          onClick={() => timeRange.setPreset(preset)}
+          data-testid={`button-range-${preset}`}
+        >
+          {preset}
+        </Button>
+      ))}
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant={timeRange.range === "custom" ? "default" : "outline"}
+            size="sm"
+            data-testid="button-range-custom"
+          >
+            <CalendarIcon className="h-4 w-4" />
+            {timeRange.range === "custom" ? timeRange.label : "Custom"}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="end">
+          <Calendar
+            mode="range"
+            numberOfMonths={2}
+            selected={draft}
+            onSelect={setDraft}
+            disabled={{ after: new Date() }}
+            initialFocus
+          />
+          <div className="flex justify-end gap-2 border-t p-3">
+            <Button variant="outline" size="sm" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={applyCustomRange}
+              disabled={!draft?.from}
+              data-testid="button-apply-custom-range"
+            >
+              Apply
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
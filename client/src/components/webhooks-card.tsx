@@ -0,0 +1,398 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { Plus, Trash2, Webhook as WebhookIcon, Send, Copy, History } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { webhookEvents, type Webhook, type WebhookDelivery, type WebhookSummary } from "@shared/schema";
+
+const EVENT_LABELS: Record<typeof webhookEvents[number], string> = {
+  "budget.threshold_crossed": "Budget threshold crossed",
+  "telemetry.error_rate_spike": "Error-rate spike",
+  "api_key.created": "API key created",
+  "member.added": "Member added",
+  "alert.firing": "Alert firing",
+  "alert.resolved": "Alert resolved",
+};
+
+const formSchema = z.object({
+  url: z.string().url("Enter a valid URL"),
+  description: z.string().max(200).optional(),
+  events: z.array(z.enum(webhookEvents)).min(1, "Select at least one event"),
+});
+
+const deliveryStatusVariant = (status: string) =>
+  status === "success" ? "secondary" : status === "failed" ? "destructive" : "outline";
+
+export function WebhooksCard({ workspaceId }: { workspaceId: string }) {
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+  const [deliveriesFor, setDeliveriesFor] = useState<WebhookSummary | null>(null);
+  const { toast } = useToast();
+
+  const { data: webhooks, isLoading } = useQuery<WebhookSummary[]>({
+    queryKey: ["/api/webhooks", { workspaceId }],
+  });
+
+  const { data: deliveries, isLoading: deliveriesLoading } = useQuery<WebhookDelivery[]>({
+    queryKey: [`/api/webhooks/${deliveriesFor?.id}/deliveries`],
+    enabled: !!deliveriesFor,
+  });
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      url: "",
+      description: "",
+      events: [...webhookEvents],
+    },
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createWebhook = useMutation({
+    mutationFn: async (values: z.infer<typeof formSchema>) => {
+      const res = await apiRequest("POST", "/api/webhooks", { ...values, workspaceId });
+      return (await res.json()) as Webhook;
+    },
+    onSuccess: (webhook) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+      setIsCreateDialogOpen(false);
+      setCreatedSecret(webhook.secret);
+      form.reset();
+    },
+    onError,
+  });
+
+  const toggleWebhook = useMutation({
+    mutationFn: async ({ id, enabled }: { id: string; enabled: boolean }) => {
+      return await apiRequest("PATCH", `/api/webhooks/${id}`, { enabled });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+    },
+    onError,
+  });
+
+  const deleteWebhook = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/webhooks/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+      toast({
+        title: "Webhook deleted",
+        description: "The endpoint will no longer receive events.",
+      });
+    },
+    onError,
+  });
+
+  const sendTest = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/webhooks/${id}/test`);
+      return (await res.json()) as WebhookDelivery;
+    },
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/webhooks/${delivery.webhookId}/deliveries`] });
+      if (delivery.status === "success") {
+        toast({
+          title: "Test event delivered",
+          description: `The endpoint responded with HTTP ${delivery.responseStatus}.`,
+        });
+      } else {
+        toast({
+          title: "Test event failed",
+          description: delivery.error || "The endpoint did not accept the event.",
+          variant: "destructive",
+        });
+      }
+    },
+    onError,
+  });
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast({
+      title: "Copied to clipboard",
+      description: "Signing secret has been copied to your clipboard.",
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <WebhookIcon className="h-5 w-5" />
+            Webhooks
+          </CardTitle>
+          <CardDescription>
+            Send signed event notifications to your own endpoints.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setIsCreateDialogOpen(true)} data-testid="button-create-webhook">
+          <Plus className="mr-2 h-4 w-4" />
+          Add Webhook
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading webhooks...</div>
+        ) : webhooks && webhooks.length > 0 ? (
+          <div className="space-y-4">
+            {webhooks.map((webhook) => (
+              <div key={webhook.id} className="space-y-2" data-testid={`webhook-${webhook.id}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-mono text-sm truncate">{webhook.url}</p>
+                    {webhook.description && (
+                      <p className="text-xs text-muted-foreground">{webhook.description}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Switch
+                      checked={webhook.enabled}
+                      onCheckedChange={(enabled) => toggleWebhook.mutate({ id: webhook.id, enabled })}
+                      data-testid={`switch-webhook-enabled-${webhook.id}`}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => sendTest.mutate(webhook.id)}
+                      disabled={sendTest.isPending}
+                      title="Send test event"
+                      data-testid={`button-test-webhook-${webhook.id}`}
+                    >
+                      <Send className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setDeliveriesFor(webhook)}
+                      title="Delivery log"
+                      data-testid={`button-webhook-deliveries-${webhook.id}`}
+                    >
+                      <History className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      onClick={() => deleteWebhook.mutate(webhook.id)}
+                      data-testid={`button-delete-webhook-${webhook.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {webhook.events.map((event) => (
+                    <Badge key={event} variant="outline" className="text-xs">
+                      {EVENT_LABELS[event as keyof typeof EVENT_LABELS] || event}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No webhooks yet. Add an endpoint to receive alerts and workspace events.
+          </p>
+        )}
+      </CardContent>
+
+      <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add webhook</DialogTitle>
+            <DialogDescription>
+              Events are sent as JSON POST requests signed with a per-endpoint secret.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((values) => createWebhook.mutate(values))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="url"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Endpoint URL</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="https://example.com/hooks/observability" data-testid="input-webhook-url" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description (optional)</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="On-call Slack relay" data-testid="input-webhook-description" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="events"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Events</FormLabel>
+                    <div className="space-y-2">
+                      {webhookEvents.map((event) => (
+                        <label key={event} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={field.value.includes(event)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked ? [...field.value, event] : field.value.filter((value) => value !== event)
+                              )
+                            }
+                            data-testid={`checkbox-webhook-event-${event}`}
+                          />
+                          {EVENT_LABELS[event]}
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsCreateDialogOpen(false)}
+                  data-testid="button-cancel-webhook"
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={createWebhook.isPending} data-testid="button-submit-webhook">
+                  {createWebhook.isPending ? "Creating..." : "Add webhook"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!createdSecret} onOpenChange={(open) => !open && setCreatedSecret(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Webhook signing secret</DialogTitle>
+            <DialogDescription>
+              Copy this secret now, it will not be shown again. Verify each request by computing
+              HMAC-SHA256 of <code>{"{X-Webhook-Timestamp}.{body}"}</code> and comparing it with
+              the <code>X-Webhook-Signature</code> header.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 rounded bg-muted px-3 py-2 font-mono text-sm break-all" data-testid="text-webhook-secret">
+              {createdSecret}
+            </code>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => createdSecret && copyToClipboard(createdSecret)}
+              data-testid="button-copy-webhook-secret"
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!deliveriesFor} onOpenChange={(open) => !open && setDeliveriesFor(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Delivery log</DialogTitle>
+            <DialogDescription className="font-mono truncate">{deliveriesFor?.url}</DialogDescription>
+          </DialogHeader>
+          {deliveriesLoading ? (
+            <div className="text-sm text-muted-foreground">Loading deliveries...</div>
+          ) : deliveries && deliveries.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Attempts</TableHead>
+                  <TableHead>Response</TableHead>
+                  <TableHead>Created</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.map((delivery) => (
+                  <TableRow key={delivery.id} data-testid={`webhook-delivery-${delivery.id}`}>
+                    <TableCell className="font-mono text-xs">{delivery.event}</TableCell>
+                    <TableCell>
+                      <Badge variant={deliveryStatusVariant(delivery.status)} className="capitalize">
+                        {delivery.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{delivery.attempts}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground max-w-[200px] truncate" title={delivery.error || undefined}>
+                      {delivery.error || (delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : "—")}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {format(new Date(delivery.createdAt), "MMM d, h:mm:ss a")}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground">No deliveries yet. Send a test event to try it out.</p>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
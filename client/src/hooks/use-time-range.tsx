@@ -0,0 +1,132 @@
+import { useLocation, useSearch } from "wouter";
+import { format, parseISO } from "date-fns";
+import type { TelemetryTimeBucket } from "@shared/schema";
+
+export const TIME_RANGE_PRESETS = ["24h", "7d", "30d", "90d"] as const;
+export type TimeRangePreset = typeof TIME_RANGE_PRESETS[number];
+export type TimeRange = TimeRangePreset | "custom";
+
+const PRESET_CONFIG: Record<TimeRangePreset, { label: string; hours: number; bucket: TelemetryTimeBucket }> = {
+  "24h": { label: "Last 24 hours", hours: 24, bucket: "hour" },
+  "7d": { label: "Last 7 days", hours: 7 * 24, bucket: "day" },
+  "30d": { label: "Last 30 days", hours: 30 * 24, bucket: "day" },
+  "90d": { label: "Last 90 days", hours: 90 * 24, bucket: "week" },
+};
+
+const DEFAULT_RANGE: TimeRangePreset = "7d";
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Truncate to the start of a UTC bucket, matching Postgres date_trunc on UTC timestamps
+function truncateToBucket(date: Date, bucket: TelemetryTimeBucket): Date {
+  const truncated = new Date(date);
+  truncated.setUTCMinutes(0, 0, 0);
+  if (bucket === "hour") return truncated;
+
+  truncated.setUTCHours(0);
+  if (bucket === "day") return truncated;
+
+  // ISO weeks start on Monday
+  const daysSinceMonday = (truncated.getUTCDay() + 6) % 7;
+  truncated.setUTCDate(truncated.getUTCDate() - daysSinceMonday);
+  return truncated;
+}
+
+function parseDateParam(value: string | null): Date | undefined {
+  if (!value) return undefined;
+  // Date-only values (yyyy-MM-dd) are parsed as local midnight
+  const date = parseISO(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+// Bucket keys formatted like the stats API (YYYY-MM-DDTHH:MM:SS), used to zero-fill charts
+export function getBucketKeys(start: Date, end: Date, bucket: TelemetryTimeBucket): string[] {
+  const step = bucket === "hour" ? HOUR_MS : bucket === "day" ? DAY_MS : 7 * DAY_MS;
+  const keys: string[] = [];
+  for (let time = truncateToBucket(start, bucket).getTime(); time <= end.getTime(); time += step) {
+    keys.push(new Date(time).toISOString().slice(0, 19));
+  }
+  return keys;
+}
+
+// Time range selection persisted in the URL (?range=7d or ?range=custom&from=...&to=...)
+export function useTimeRange() {
+  const [location, navigate] = useLocation();
+  const search = useSearch();
+  const params = new URLSearchParams(search);
+
+  const rangeParam = params.get("range");
+  const from = parseDateParam(params.get("from"));
+  const to = parseDateParam(params.get("to"));
+
+  const range: TimeRange =
+    rangeParam === "custom" && from && to
+      ? "custom"
+      : TIME_RANGE_PRESETS.includes(rangeParam as TimeRangePreset)
+        ? (rangeParam as TimeRangePreset)
+        : DEFAULT_RANGE;
+
+  let startDate: Date;
+  let endDate: Date | undefined;
+  let bucket: TelemetryTimeBucket;
+  let label: string;
+
+  if (range === "custom") {
+    startDate = new Date(from!);
+    startDate.setHours(0, 0, 0, 0);
+    endDate = new Date(to!);
+    endDate.setHours(23, 59, 59, 999);
+
+    const spanDays = (endDate.getTime() - startDate.getTime()) / DAY_MS;
+    bucket = spanDays <= 2 ? "hour" : spanDays <= 60 ? "day" : "week";
+    label = `${format(startDate, "MMM d, yyyy")} – ${format(endDate, "MMM d, yyyy")}`;
+  } else {
+    // Relative ranges stay open-ended and snap to a bucket boundary so query keys are stable
+    const preset = PRESET_CONFIG[range];
+    bucket = preset.bucket;
+    startDate = truncateToBucket(new Date(Date.now() - preset.hours * HOUR_MS), preset.bucket === "hour" ? "hour" : "day");
+    label = preset.label;
+  }
+
+  const updateSearch = (next: Record<string, string | undefined>) => {
+    const nextParams = new URLSearchParams(search);
+    Object.entries(next).forEach(([key, value]) => {
+      if (value === undefined) {
+        nextParams.delete(key);
+      } else {
+        nextParams.set(key, value);
+      }
+    });
+    const query = nextParams.toString();
+    navigate(query ? `${location}?${query}` : location, { replace: true });
+  };
+
+  const setPreset = (preset: TimeRangePreset) => {
+    updateSearch({ range: preset, from: undefined, to: undefined });
+  };
+
+  const setCustomRange = (customFrom: Date, customTo: Date) => {
+    updateSearch({
+      range: "custom",
+      from: format(customFrom, "yyyy-MM-dd"),
+      to: format(customTo, "yyyy-MM-dd"),
+    });
+  };
+
+  return {
+    range,
+    label,
+    bucket,
+    startDate,
+    endDate,
+    from,
+    to,
+    // Query params for the telemetry APIs
+    queryParams: {
+      startDate: startDate.toISOString(),
+      ...(endDate && { endDate: endDate.toISOString() }),
+    },
+    setPreset,
+    setCustomRange,
+  };
+}
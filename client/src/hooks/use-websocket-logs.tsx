@@ -1,6 +1,43 @@
 import { useEffect, useRef, useState } from "react";
+import type { InfiniteData } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
-import type { TelemetryLog } from "@shared/schema";
+import type { TelemetryLog, TelemetryLogsResponse } from "@shared/schema";
+
+type CachedTelemetry = TelemetryLogsResponse | InfiniteData<TelemetryLogsResponse, string | null>;
+
+// Only show live logs in queries whose server-side filters they satisfy
+function matchesQueryFilters(log: TelemetryLog, params: unknown): boolean {
+  if (!params || typeof params !== "object") return true;
+  const { projectId, environment, sessionId, endUserId, customerId, startDate, endDate, q } = params as Record<string, unknown>;
+  if (projectId && projectId !== log.projectId) return false;
+  if (environment && environment !== log.environment) return false;
+  if (sessionId && sessionId !== log.sessionId) return false;
+  if (endUserId && endUserId !== log.endUserId) return false;
+  if (customerId && customerId !== log.customerId) return false;
+  // Lists of a past (or future) time range must not pick up logs outside it
+  const timestamp = new Date(log.timestamp).getTime();
+  if (startDate && new Date(String(startDate)).getTime() > timestamp) return false;
+  if (endDate && new Date(String(endDate)).getTime() < timestamp) return false;
+  // Search queries are evaluated in SQL, so those lists pick up new logs on refetch instead
+  if (q) return false;
+  return true;
+}
+
+// Prepend a new log to either a single page or the first page of an infinite query
+function prependLog(cached: CachedTelemetry | undefined, log: TelemetryLog): CachedTelemetry | undefined {
+  if (!cached) return cached;
+
+  if ("pages" in cached) {
+    const [firstPage, ...rest] = cached.pages;
+    if (!firstPage) return cached;
+    return {
+      ...cached,
+      pages: [{ ...firstPage, logs: [log, ...firstPage.logs] }, ...rest],
+    };
+  }
+
+  return { ...cached, logs: [log, ...cached.logs] };
+}
 
 async function fetchSocketToken(workspaceId: string): Promise<string> {
   // Get API key from localStorage for authentication
@@ -25,9 +62,13 @@ async function fetchSocketToken(workspaceId: string): Promise<string> {
   return data.token;
 }
 
+// Aggregated stats are refetched at most this often while logs stream in
+const STATS_REFRESH_INTERVAL = 5000;
+
 export function useWebSocketLogs(workspaceId: string | null, enabled: boolean = true) {
   const wsRef = useRef<WebSocket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
+  const statsRefreshRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   useEffect(() => {
     if (!enabled || !workspaceId) {
@@ -73,15 +114,27 @@ export function useWebSocketLogs(workspaceId: string | null, enabled: boolean =
             } else if (message.type === "new_log" && message.data) {
               const newLog: TelemetryLog = message.data;
 
-              // Update all telemetry queries in cache
-              queryClient.setQueryData<TelemetryLog[]>(
-                ["/api/telemetry", { workspaceId }],
-                (oldLogs) => {
-                  if (!oldLogs) return [newLog];
-                  // Prepend new log to the beginning (most recent first)
-                  return [newLog, ...oldLogs];
-                }
-              );
+              // Update all telemetry queries in cache (most recent first)
+              queryClient
+                .getQueryCache()
+                .findAll({ queryKey: ["/api/telemetry"] })
+                .forEach((query) => {
+                  if (!matchesQueryFilters(newLog, query.queryKey[1])) return;
+                  queryClient.setQueryData<CachedTelemetry>(
+                    query.queryKey,
+                    (cached) => prependLog(cached, newLog)
+                  );
+                });
+
+              // Schedule a throttled refresh of server-side aggregations
+              if (!statsRefreshRef.current) {
+                statsRefreshRef.current = setTimeout(() => {
+                  statsRefreshRef.current = null;
+                  queryClient.invalidateQueries({
+                    predicate: (query) => String(query.queryKey[0]).startsWith("/api/telemetry/stats"),
+                  });
+                }, STATS_REFRESH_INTERVAL);
+              }
             }
           } catch (error) {
             console.error("Error parsing WebSocket message:", error);
@@ -107,6 +160,10 @@ export function useWebSocketLogs(workspaceId: string | null, enabled: boolean =
 
     return () => {
       mounted = false;
+      if (statsRefreshRef.current) {
+        clearTimeout(statsRefreshRef.current);
+        statsRefreshRef.current = null;
+      }
       if (wsRef.current) {
         wsRef.current.close();
         wsRef.current = null;
@@ -0,0 +1,55 @@
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AlertRulesCard } from "@/components/alert-rules-card";
+import { AlertHistoryCard } from "@/components/alert-history-card";
+import { AlertSilencesCard } from "@/components/alert-silences-card";
+import { AlertChannelsCard } from "@/components/alert-channels-card";
+
+export default function Alerts() {
+  const workspaceId = localStorage.getItem("currentWorkspaceId");
+
+  if (!workspaceId) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold mb-2">No workspace selected</h2>
+          <p className="text-muted-foreground">
+            Please select or create a workspace to manage alerts.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Alerts</h1>
+        <p className="text-muted-foreground">
+          Get notified when latency, error rate or cost cross a threshold.
+        </p>
+      </div>
+
+      <Tabs defaultValue="rules" className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="rules" data-testid="tab-alert-rules">Rules</TabsTrigger>
+          <TabsTrigger value="history" data-testid="tab-alert-history">History</TabsTrigger>
+          <TabsTrigger value="silences" data-testid="tab-alert-silences">Silences</TabsTrigger>
+          <TabsTrigger value="channels" data-testid="tab-alert-channels">Channels</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="rules">
+          <AlertRulesCard workspaceId={workspaceId} />
+        </TabsContent>
+        <TabsContent value="history">
+          <AlertHistoryCard workspaceId={workspaceId} />
+        </TabsContent>
+        <TabsContent value="silences">
+          <AlertSilencesCard workspaceId={workspaceId} />
+        </TabsContent>
+        <TabsContent value="channels">
+          <AlertChannelsCard workspaceId={workspaceId} />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
@@ -1,7 +1,24 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 import {
   BarChart,
   Bar,
@@ -18,8 +35,22 @@ import {
   Legend,
 } from "recharts";
 import { MetricCard } from "@/components/metric-card";
-import { DollarSign, Activity, Clock, Zap } from "lucide-react";
-import type { TelemetryLog } from "@shared/schema";
+import { TimeRangePicker } from "@/components/time-range-picker";
+import { useTimeRange } from "@/hooks/use-time-range";
+import { DollarSign, Activity, Clock, Zap, AlertTriangle, Percent } from "lucide-react";
+import type {
+  TelemetrySummary,
+  TelemetryBreakdownRow,
+  TelemetryGroupBy,
+  TelemetryUserGroupBy,
+  TelemetryUserStatsRow,
+  LatencyDistributionBucket,
+  LatencyPercentileRow,
+  LatencyPercentilePoint,
+  ErrorGroup,
+  ErrorRateGroupBy,
+  ErrorRatePoint,
+} from "@shared/schema";
 
 const COLORS = [
   "hsl(var(--chart-1))",
@@ -29,63 +60,167 @@ const COLORS = [
   "hsl(var(--chart-5))",
 ];
 
+const MAX_MESSAGE_FRAGMENT_LENGTH = 100;
+
+function quoteSearchValue(value: string): string {
+  return `"${value.replace(/["\\]/g, "\\$&")}"`;
+}
+
+// Longest run of a group's message that its ids and numbers were not masked out of (including a
+// placeholder cut off by the 500 character limit), so it appears verbatim in every failure
+function messageFragment(message: string): string {
+  const fragments = message.split(/<id>|<n>|<[a-z]*$/).map((fragment) => fragment.trim());
+  const longest = fragments.reduce((a, b) => (b.length > a.length ? b : a), "");
+  return longest.slice(0, MAX_MESSAGE_FRAGMENT_LENGTH);
+}
+
+// Logs search for the failures in an error group over the analytics time range
+function errorGroupQuery(group: ErrorGroup, range: { startDate: string; endDate?: string }): string {
+  const terms = ["status:=error"];
+  if (group.errorType) {
+    terms.push(/^[\w.-]+$/.test(group.errorType)
+      ? `errorType:=${group.errorType}`
+      : `errorType:=${quoteSearchValue(group.errorType)}`);
+  }
+  if (group.httpStatus) {
+    terms.push(`errorHttpStatus:${group.httpStatus}`);
+  }
+  const fragment = messageFragment(group.message);
+  if (fragment) {
+    // Failures logged without an error message are grouped by their response text
+    terms.push(`(errorMessage:${quoteSearchValue(fragment)} OR response:${quoteSearchValue(fragment)})`);
+  }
+  terms.push(`timestamp:>=${range.startDate}`);
+  if (range.endDate) {
+    terms.push(`timestamp:<=${range.endDate}`);
+  }
+  return terms.join(" ");
+}
+
 export default function Analytics() {
   const workspaceId = localStorage.getItem("currentWorkspaceId");
-  const [timeRange] = useState("7d");
+  const timeRange = useTimeRange();
+
+  const [costGroupBy, setCostGroupBy] = useState<TelemetryGroupBy>("model");
+  const [latencyGroupBy, setLatencyGroupBy] = useState<TelemetryGroupBy>("model");
+  const [spenderGroupBy, setSpenderGroupBy] = useState<TelemetryUserGroupBy>("endUser");
+  const [errorGroupBy, setErrorGroupBy] = useState<ErrorRateGroupBy>("model");
+  const [, navigate] = useLocation();
+  const search = useSearch();
+
+  const { data: summary, isLoading } = useQuery<TelemetrySummary>({
+    queryKey: ["/api/telemetry/stats", { workspaceId, ...timeRange.queryParams }],
+    enabled: !!workspaceId,
+  });
+
+  const { data: modelStats } = useQuery<TelemetryBreakdownRow[]>({
+    queryKey: ["/api/telemetry/stats/breakdown", { workspaceId, groupBy: "model", ...timeRange.queryParams }],
+    enabled: !!workspaceId,
+  });
+
+  const { data: costStats } = useQuery<TelemetryBreakdownRow[]>({
+    queryKey: ["/api/telemetry/stats/breakdown", { workspaceId, groupBy: costGroupBy, ...timeRange.queryParams }],
+    enabled: !!workspaceId,
+  });
+
+  const { data: percentileStats, isLoading: percentilesLoading } = useQuery<LatencyPercentileRow[]>({
+    queryKey: ["/api/telemetry/stats/percentiles", { workspaceId, groupBy: latencyGroupBy, ...timeRange.queryParams }],
+    enabled: !!workspaceId,
+  });
+
+  const { data: topSpenders } = useQuery<TelemetryUserStatsRow[]>({
+    queryKey: ["/api/telemetry/stats/by-user", { workspaceId, groupBy: spenderGroupBy, ...timeRange.queryParams }],
+    enabled: !!workspaceId,
+  });
+
+  const { data: percentileSeries } = useQuery<LatencyPercentilePoint[]>({
+    queryKey: ["/api/telemetry/stats/percentiles/timeseries", { workspaceId, bucket: timeRange.bucket, ...timeRange.queryParams }],
+    enabled: !!workspaceId,
+  });
 
-  const { data: logs, isLoading } = useQuery<TelemetryLog[]>({
-    queryKey: ["/api/telemetry", { workspaceId }],
+  const { data: latencyStats } = useQuery<LatencyDistributionBucket[]>({
+    queryKey: ["/api/telemetry/stats/latency", { workspaceId, ...timeRange.queryParams }],
     enabled: !!workspaceId,
   });
 
+  const { data: errorSeries } = useQuery<ErrorRatePoint[]>({
+    queryKey: ["/api/telemetry/stats/errors/timeseries", { workspaceId, bucket: timeRange.bucket, groupBy: errorGroupBy, ...timeRange.queryParams }],
+    enabled: !!workspaceId,
+  });
+
+  const { data: errorGroups, isLoading: errorGroupsLoading } = useQuery<ErrorGroup[]>({
+    queryKey: ["/api/telemetry/stats/errors", { workspaceId, ...timeRange.queryParams }],
+    enabled: !!workspaceId,
+  });
+
+  const formatBucket = (bucket: string) =>
+    timeRange.bucket === "hour"
+      ? new Date(`${bucket}Z`).toLocaleTimeString("en-US", { hour: "numeric" })
+      : new Date(`${bucket}Z`).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+
   // Calculate metrics
-  const totalCost = logs?.reduce((sum, log) => sum + parseFloat(log.cost), 0) || 0;
-  const avgLatency = logs?.length
-    ? logs.reduce((sum, log) => sum + log.latencyMs, 0) / logs.length
-    : 0;
-  const totalRequests = logs?.length || 0;
-  const avgTokensPerRequest = logs?.length
-    ? logs.reduce((sum, log) => sum + log.totalTokens, 0) / logs.length
-    : 0;
-
-  // Cost by model
-  const costByModel = logs?.reduce((acc, log) => {
-    const existing = acc.find((item) => item.model === log.model);
-    if (existing) {
-      existing.cost += parseFloat(log.cost);
-      existing.requests += 1;
-    } else {
-      acc.push({
-        model: log.model,
-        cost: parseFloat(log.cost),
-        requests: 1,
-      });
-    }
-    return acc;
-  }, [] as { model: string; cost: number; requests: number }[]) || [];
+  const totalCost = summary?.totalCost || 0;
+  const avgLatency = summary?.avgLatencyMs || 0;
+  const totalRequests = summary?.totalRequests || 0;
+  const avgTokensPerRequest = summary?.avgTokens || 0;
+
+  // Cost by selected dimension
+  const costBreakdown = costStats?.map((row) => ({
+    name: row.label,
+    cost: row.cost,
+    requests: row.requests,
+  })) || [];
 
   // Usage by model (for pie chart)
-  const usageByModel = costByModel.map((item) => ({
-    name: item.model,
-    value: item.requests,
-  }));
+  const usageByModel = modelStats?.map((row) => ({
+    name: row.label,
+    value: row.requests,
+  })) || [];
+
+  // Latency by model
+  const latencyByModel = modelStats?.map((row) => ({
+    model: row.label,
+    latency: Math.round(row.avgLatencyMs),
+  })) || [];
+
+  // Latency percentiles over time
+  const percentileTrend = percentileSeries?.map((point) => ({
+    date: formatBucket(point.bucket),
+    p50: Math.round(point.p50),
+    p90: Math.round(point.p90),
+    p95: Math.round(point.p95),
+    p99: Math.round(point.p99),
+  })) || [];
 
   // Latency distribution
-  const latencyBuckets = [
-    { range: "0-100ms", count: 0 },
-    { range: "100-500ms", count: 0 },
-    { range: "500ms-1s", count: 0 },
-    { range: "1s-2s", count: 0 },
-    { range: "2s+", count: 0 },
-  ];
-
-  logs?.forEach((log) => {
-    if (log.latencyMs < 100) latencyBuckets[0].count++;
-    else if (log.latencyMs < 500) latencyBuckets[1].count++;
-    else if (log.latencyMs < 1000) latencyBuckets[2].count++;
-    else if (log.latencyMs < 2000) latencyBuckets[3].count++;
-    else latencyBuckets[4].count++;
+  const latencyBuckets = latencyStats || [];
+
+  // Error totals per model or provider, and the error rate over time of those failing most
+  const errorTotals = new Map<string, { requests: number; errors: number }>();
+  errorSeries?.forEach((point) => {
+    const label = point.key ?? "Unknown";
+    const totals = errorTotals.get(label) || { requests: 0, errors: 0 };
+    totals.requests += point.requests;
+    totals.errors += point.errors;
+    errorTotals.set(label, totals);
+  });
+  const totalErrors = Array.from(errorTotals.values()).reduce((sum, totals) => sum + totals.errors, 0);
+  const totalErrorRequests = Array.from(errorTotals.values()).reduce((sum, totals) => sum + totals.requests, 0);
+  const errorKeys = Array.from(errorTotals.entries())
+    .filter(([, totals]) => totals.errors > 0)
+    .sort((a, b) => b[1].errors - a[1].errors)
+    .slice(0, COLORS.length)
+    .map(([label]) => label);
+
+  const errorTrendByBucket = new Map<string, Record<string, string | number>>();
+  errorSeries?.forEach((point) => {
+    const label = point.key ?? "Unknown";
+    if (!errorKeys.includes(label)) return;
+    const row = errorTrendByBucket.get(point.bucket) || { date: formatBucket(point.bucket) };
+    row[label] = Math.round(point.errorRate * 1000) / 10;
+    errorTrendByBucket.set(point.bucket, row);
   });
+  const errorTrend = Array.from(errorTrendByBucket.values());
 
   if (!workspaceId) {
     return (
@@ -102,11 +237,14 @@ export default function Analytics() {
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold tracking-tight">Analytics</h1>
-        <p className="text-muted-foreground">
-          Deep insights into your AI application performance and costs.
-        </p>
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Analytics</h1>
+          <p className="text-muted-foreground">
+            Deep insights into your AI application performance and costs.
+          </p>
+        </div>
+        <TimeRangePicker timeRange={timeRange} />
       </div>
 
       <Tabs defaultValue="overview" className="space-y-6">
@@ -114,6 +252,7 @@ export default function Analytics() {
           <TabsTrigger value="overview" data-testid="tab-overview">Overview</TabsTrigger>
           <TabsTrigger value="costs" data-testid="tab-costs">Costs</TabsTrigger>
           <TabsTrigger value="performance" data-testid="tab-performance">Performance</TabsTrigger>
+          <TabsTrigger value="errors" data-testid="tab-errors">Errors</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-6">
@@ -122,21 +261,21 @@ export default function Analytics() {
             <MetricCard
               title="Total Cost"
               value={`$${totalCost.toFixed(4)}`}
-              description={`Last ${timeRange}`}
+              description={timeRange.label}
               icon={DollarSign}
               isLoading={isLoading}
             />
             <MetricCard
               title="Requests"
               value={totalRequests.toLocaleString()}
-              description={`Last ${timeRange}`}
+              description={timeRange.label}
               icon={Activity}
               isLoading={isLoading}
             />
             <MetricCard
               title="Avg Latency"
               value={`${Math.round(avgLatency)}ms`}
-              description={`Last ${timeRange}`}
+              description={timeRange.label}
               icon={Clock}
               isLoading={isLoading}
             />
@@ -214,12 +353,22 @@ export default function Analytics() {
 
         <TabsContent value="costs" className="space-y-6">
           <Card>
-            <CardHeader>
-              <CardTitle>Cost by Model</CardTitle>
+            <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+              <CardTitle>Cost by {costGroupBy.charAt(0).toUpperCase() + costGroupBy.slice(1)}</CardTitle>
+              <Select value={costGroupBy} onValueChange={(value) => setCostGroupBy(value as TelemetryGroupBy)}>
+                <SelectTrigger className="w-40" data-testid="select-cost-group-by">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="model">Model</SelectItem>
+                  <SelectItem value="project">Project</SelectItem>
+                  <SelectItem value="environment">Environment</SelectItem>
+                </SelectContent>
+              </Select>
             </CardHeader>
             <CardContent>
               <ResponsiveContainer width="100%" height={400}>
-                <BarChart data={costByModel} layout="vertical">
+                <BarChart data={costBreakdown} layout="vertical">
                   <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
                   <XAxis
                     type="number"
@@ -228,7 +377,7 @@ export default function Analytics() {
                   />
                   <YAxis
                     type="category"
-                    dataKey="model"
+                    dataKey="name"
                     className="text-xs"
                     tick={{ fill: "hsl(var(--muted-foreground))" }}
                     width={120}
@@ -253,14 +402,14 @@ export default function Analytics() {
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                {costByModel.map((item, index) => (
-                  <div key={item.model} className="flex items-center justify-between">
+                {costBreakdown.map((item, index) => (
+                  <div key={item.name} className="flex items-center justify-between">
                     <div className="flex items-center gap-3">
                       <div
                         className="h-3 w-3 rounded-sm"
                         style={{ backgroundColor: COLORS[index % COLORS.length] }}
                       />
-                      <span className="font-mono text-sm">{item.model}</span>
+                      <span className="font-mono text-sm">{item.name}</span>
                     </div>
                     <div className="text-right">
                       <div className="font-semibold">${item.cost.toFixed(4)}</div>
@@ -273,6 +422,66 @@ export default function Analytics() {
               </div>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+              <CardTitle>Top Spenders</CardTitle>
+              <Select value={spenderGroupBy} onValueChange={(value) => setSpenderGroupBy(value as TelemetryUserGroupBy)}>
+                <SelectTrigger className="w-40" data-testid="select-spender-group-by">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="endUser">End users</SelectItem>
+                  <SelectItem value="customer">Customers</SelectItem>
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent>
+              {topSpenders && topSpenders.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{spenderGroupBy === "customer" ? "Customer" : "End User"}</TableHead>
+                      <TableHead>{spenderGroupBy === "customer" ? "End Users" : "Customer"}</TableHead>
+                      <TableHead className="text-right">Requests</TableHead>
+                      <TableHead className="text-right">Tokens</TableHead>
+                      <TableHead className="text-right">Cost</TableHead>
+                      <TableHead className="text-right">Last Seen</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {topSpenders.map((row) => (
+                      <TableRow
+                        key={row.key}
+                        className={spenderGroupBy === "endUser" ? "cursor-pointer hover-elevate" : undefined}
+                        onClick={() => {
+                          if (spenderGroupBy === "endUser") {
+                            navigate(`/dashboard/users/${encodeURIComponent(row.key)}${search ? `?${search}` : ""}`);
+                          }
+                        }}
+                        data-testid={`row-spender-${row.key}`}
+                      >
+                        <TableCell className="font-mono text-sm">{row.key}</TableCell>
+                        <TableCell className="text-sm">
+                          {spenderGroupBy === "customer" ? row.endUsers : row.customerId || "—"}
+                        </TableCell>
+                        <TableCell className="text-right">{row.requests.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{row.tokens.toLocaleString()}</TableCell>
+                        <TableCell className="text-right font-medium">${row.cost.toFixed(4)}</TableCell>
+                        <TableCell className="text-right text-sm text-muted-foreground">
+                          {new Date(row.lastSeenAt).toLocaleDateString()}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <div className="text-center py-8 text-sm text-muted-foreground">
+                  Send logs with an endUserId or customerId to attribute costs.
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </TabsContent>
 
         <TabsContent value="performance" className="space-y-6">
@@ -283,16 +492,7 @@ export default function Analytics() {
             <CardContent>
               <ResponsiveContainer width="100%" height={400}>
                 <BarChart
-                  data={costByModel.map((item) => {
-                    const modelLogs = logs?.filter((log) => log.model === item.model) || [];
-                    const avgLatency = modelLogs.length
-                      ? modelLogs.reduce((sum, log) => sum + log.latencyMs, 0) / modelLogs.length
-                      : 0;
-                    return {
-                      model: item.model,
-                      latency: Math.round(avgLatency),
-                    };
-                  })}
+                  data={latencyByModel}
                   layout="vertical"
                 >
                   <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
@@ -321,6 +521,221 @@ export default function Analytics() {
               </ResponsiveContainer>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+              <CardTitle>Latency Percentiles</CardTitle>
+              <Select value={latencyGroupBy} onValueChange={(value) => setLatencyGroupBy(value as TelemetryGroupBy)}>
+                <SelectTrigger className="w-40" data-testid="select-latency-group-by">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="model">Model</SelectItem>
+                  <SelectItem value="project">Project</SelectItem>
+                  <SelectItem value="environment">Environment</SelectItem>
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent>
+              {percentilesLoading ? (
+                <div className="text-center py-8 text-muted-foreground">Loading...</div>
+              ) : percentileStats && percentileStats.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="capitalize">{latencyGroupBy}</TableHead>
+                      <TableHead className="text-right">Requests</TableHead>
+                      <TableHead className="text-right">p50</TableHead>
+                      <TableHead className="text-right">p90</TableHead>
+                      <TableHead className="text-right">p95</TableHead>
+                      <TableHead className="text-right">p99</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {percentileStats.map((row) => (
+                      <TableRow key={row.key ?? "unassigned"} data-testid={`row-percentiles-${row.key ?? "unassigned"}`}>
+                        <TableCell className="font-mono text-sm">{row.label}</TableCell>
+                        <TableCell className="text-right">{row.requests.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{Math.round(row.p50)}ms</TableCell>
+                        <TableCell className="text-right">{Math.round(row.p90)}ms</TableCell>
+                        <TableCell className="text-right">{Math.round(row.p95)}ms</TableCell>
+                        <TableCell className="text-right">{Math.round(row.p99)}ms</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <div className="text-center py-8 text-sm text-muted-foreground">
+                  No latency data for this time range.
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Latency Percentiles Over Time</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={percentileTrend}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis
+                    dataKey="date"
+                    className="text-xs"
+                    tick={{ fill: "hsl(var(--muted-foreground))" }}
+                  />
+                  <YAxis
+                    className="text-xs"
+                    tick={{ fill: "hsl(var(--muted-foreground))" }}
+                    unit="ms"
+                  />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: "hsl(var(--card))",
+                      border: "1px solid hsl(var(--border))",
+                      borderRadius: "0.5rem",
+                    }}
+                    formatter={(value: number, name: string) => [`${value}ms`, name]}
+                  />
+                  <Legend />
+                  <Line type="monotone" dataKey="p50" stroke={COLORS[0]} strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="p90" stroke={COLORS[1]} strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="p95" stroke={COLORS[2]} strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="p99" stroke={COLORS[3]} strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="errors" className="space-y-6">
+          <div className="grid gap-4 md:grid-cols-2">
+            <MetricCard
+              title="Errors"
+              value={totalErrors.toLocaleString()}
+              description={timeRange.label}
+              icon={AlertTriangle}
+              isLoading={!errorSeries}
+            />
+            <MetricCard
+              title="Error Rate"
+              value={`${(totalErrorRequests > 0 ? (totalErrors / totalErrorRequests) * 100 : 0).toFixed(2)}%`}
+              description={`Of ${totalErrorRequests.toLocaleString()} requests`}
+              icon={Percent}
+              isLoading={!errorSeries}
+            />
+          </div>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+              <CardTitle>Error Rate Over Time</CardTitle>
+              <Select value={errorGroupBy} onValueChange={(value) => setErrorGroupBy(value as ErrorRateGroupBy)}>
+                <SelectTrigger className="w-40" data-testid="select-error-group-by">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="model">Model</SelectItem>
+                  <SelectItem value="provider">Provider</SelectItem>
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent>
+              {errorKeys.length > 0 ? (
+                <ResponsiveContainer width="100%" height={300}>
+                  <LineChart data={errorTrend}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                    <XAxis
+                      dataKey="date"
+                      className="text-xs"
+                      tick={{ fill: "hsl(var(--muted-foreground))" }}
+                    />
+                    <YAxis
+                      className="text-xs"
+                      tick={{ fill: "hsl(var(--muted-foreground))" }}
+                      unit="%"
+                    />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: "hsl(var(--card))",
+                        border: "1px solid hsl(var(--border))",
+                        borderRadius: "0.5rem",
+                      }}
+                      formatter={(value: number, name: string) => [`${value}%`, name]}
+                    />
+                    <Legend />
+                    {errorKeys.map((key, index) => (
+                      <Line key={key} type="monotone" dataKey={key} stroke={COLORS[index]} strokeWidth={2} dot={false} />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              ) : (
+                <div className="text-center py-8 text-sm text-muted-foreground">
+                  No errors in this time range.
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Error Groups</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {errorGroupsLoading ? (
+                <div className="text-center py-8 text-muted-foreground">Loading...</div>
+              ) : errorGroups && errorGroups.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Error</TableHead>
+                      <TableHead>Models</TableHead>
+                      <TableHead className="text-right">Count</TableHead>
+                      <TableHead className="text-right">First Seen</TableHead>
+                      <TableHead className="text-right">Last Seen</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {errorGroups.map((group) => (
+                      <TableRow
+                        key={group.signature}
+                        className="cursor-pointer hover-elevate"
+                        onClick={() => navigate(`/dashboard/logs?q=${encodeURIComponent(errorGroupQuery(group, timeRange.queryParams))}`)}
+                        data-testid={`row-error-group-${group.signature}`}
+                      >
+                        <TableCell className="max-w-md">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className="font-mono text-sm font-medium">{group.errorType || "Unknown error"}</span>
+                            {group.httpStatus && (
+                              <Badge variant="outline" className="text-xs">HTTP {group.httpStatus}</Badge>
+                            )}
+                            {group.providers.map((provider) => (
+                              <Badge key={provider} variant="secondary" className="text-xs">{provider}</Badge>
+                            ))}
+                          </div>
+                          <div className="text-xs text-muted-foreground truncate" title={group.sampleMessage}>
+                            {group.message || "No message"}
+                          </div>
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">{group.models.join(", ")}</TableCell>
+                        <TableCell className="text-right font-medium">{group.count.toLocaleString()}</TableCell>
+                        <TableCell className="text-right text-sm text-muted-foreground">
+                          {new Date(group.firstSeenAt).toLocaleString()}
+                        </TableCell>
+                        <TableCell className="text-right text-sm text-muted-foreground">
+                          {new Date(group.lastSeenAt).toLocaleString()}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <div className="text-center py-8 text-sm text-muted-foreground">
+                  No errors in this time range.
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </TabsContent>
       </Tabs>
     </div>
@@ -3,7 +3,8 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Plus, Key, Copy, Trash2, Eye, EyeOff } from "lucide-react";
+import { Plus, Key, Copy, Trash2, RefreshCw, Gauge } from "lucide-react";
+import { format } from "date-fns";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import {
@@ -35,42 +36,133 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { ApiKey, InsertApiKey } from "@shared/schema";
+import {
+  apiKeyScopes,
+  type ApiKeySummary,
+  type CreatedApiKey,
+  type Project,
+  type RateLimitStatus,
+  type User,
+  type WorkspaceMember,
+} from "@shared/schema";
+
+const ALL = "all";
+
+const SCOPE_DESCRIPTIONS: Record<typeof apiKeyScopes[number], string> = {
+  ingest: "Send telemetry",
+  read: "Query logs and stats",
+  stream: "Subscribe to live logs",
+  admin: "All of the above",
+};
 
 const formSchema = z.object({
   name: z.string().min(1, "API key name is required").max(100),
+  projectId: z.string(),
+  environment: z.string(),
+  scopes: z.array(z.enum(apiKeyScopes)).min(1, "Select at least one scope"),
+  expiresInDays: z.string(),
 });
 
+const EXPIRY_OPTIONS = [
+  { value: "never", label: "Never" },
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+];
+
+const GRACE_PERIOD_OPTIONS = [
+  { value: "0", label: "Immediately" },
+  { value: "1", label: "1 hour" },
+  { value: "24", label: "24 hours" },
+  { value: "168", label: "7 days" },
+];
+
+function getKeyStatus(apiKey: ApiKeySummary): { label: string; variant: "secondary" | "outline" | "destructive" } {
+  if (apiKey.revokedAt) return { label: "Revoked", variant: "destructive" };
+  if (apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date()) return { label: "Expired", variant: "destructive" };
+  if (apiKey.replacedById) return { label: "Rotated", variant: "outline" };
+  return { label: "Active", variant: "secondary" };
+}
+
 export default function ApiKeys() {
   const workspaceId = localStorage.getItem("currentWorkspaceId");
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
-  const [keyToDelete, setKeyToDelete] = useState<ApiKey | null>(null);
-  const [revealedKeys, setRevealedKeys] = useState<Set<string>>(new Set());
+  const [keyToRevoke, setKeyToRevoke] = useState<ApiKeySummary | null>(null);
+  const [keyToRotate, setKeyToRotate] = useState<ApiKeySummary | null>(null);
+  const [gracePeriodHours, setGracePeriodHours] = useState("24");
+  const [createdKey, setCreatedKey] = useState<CreatedApiKey | null>(null);
   const { toast } = useToast();
 
-  const { data: apiKeys, isLoading } = useQuery<ApiKey[]>({
+  const { data: apiKeys, isLoading } = useQuery<ApiKeySummary[]>({
     queryKey: ["/api/api-keys", { workspaceId }],
     enabled: !!workspaceId,
   });
 
+  const { data: projects } = useQuery<Project[]>({
+    queryKey: ["/api/projects", { workspaceId }],
+    enabled: !!workspaceId,
+  });
+
+  const { data: rateLimits } = useQuery<RateLimitStatus>({
+    queryKey: ["/api/rate-limits", { workspaceId }],
+    enabled: !!workspaceId,
+  });
+
+  const { data: members } = useQuery<(WorkspaceMember & { user: User })[]>({
+    queryKey: [`/api/workspaces/${workspaceId}/members`],
+    enabled: !!workspaceId,
+  });
+
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       name: "",
+      projectId: ALL,
+      environment: ALL,
+      scopes: ["ingest", "read", "stream"],
+      expiresInDays: "never",
     },
   });
 
+  const describeUser = (userId: string | null) => {
+    const member = members?.find((m) => m.userId === userId);
+    if (!member) return "a former member";
+    const { firstName, lastName, email } = member.user;
+    return firstName || lastName ? [firstName, lastName].filter(Boolean).join(" ") : email;
+  };
+
   const createApiKey = useMutation({
-    mutationFn: async (data: InsertApiKey) => {
-      return await apiRequest<ApiKey>("POST", "/api/api-keys", data);
+    mutationFn: async (data: {
+      workspaceId: string;
+      name: string;
+      projectId: string | null;
+      environment: string | null;
+      scopes: string[];
+      expiresAt: string | null;
+    }) => {
+      const res = await apiRequest("POST", "/api/api-keys", data);
+      return (await res.json()) as CreatedApiKey;
     },
     onSuccess: (newKey) => {
       queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
       
-      // Store the API key in localStorage for WebSocket authentication
-      if (workspaceId) {
+      // Store the API key in localStorage for WebSocket authentication. Only workspace-wide
+      // keys that can stream see every live log, so bound keys are not used for the dashboard.
+      const streamsWorkspace =
+        !newKey.projectId &&
+        !newKey.environment &&
+        (newKey.scopes.includes("stream") || newKey.scopes.includes("admin"));
+      if (workspaceId && streamsWorkspace) {
         localStorage.setItem(`apiKey_${workspaceId}`, newKey.key);
       }
       
@@ -78,7 +170,7 @@ export default function ApiKeys() {
         title: "API key created",
         description: "Your API key has been created successfully. Make sure to copy it now!",
       });
-      setRevealedKeys(new Set([newKey.id]));
+      setCreatedKey(newKey);
       setIsCreateDialogOpen(false);
       form.reset();
     },
@@ -91,17 +183,47 @@ export default function ApiKeys() {
     },
   });
 
-  const deleteApiKey = useMutation({
+  const rotateApiKey = useMutation({
+    mutationFn: async ({ keyId, gracePeriodHours }: { keyId: string; gracePeriodHours: number }) => {
+      const res = await apiRequest("POST", `/api/api-keys/${keyId}/rotate`, { gracePeriodHours });
+      return (await res.json()) as CreatedApiKey;
+    },
+    onSuccess: (newKey) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+
+      // Swap the WebSocket key if the dashboard was using the key that was just rotated
+      const storedKey = workspaceId && localStorage.getItem(`apiKey_${workspaceId}`);
+      if (workspaceId && storedKey && keyToRotate && storedKey.startsWith(keyToRotate.keyPrefix)) {
+        localStorage.setItem(`apiKey_${workspaceId}`, newKey.key);
+      }
+
+      toast({
+        title: "API key rotated",
+        description: "Update your applications with the new key before the old one expires.",
+      });
+      setCreatedKey(newKey);
+      setKeyToRotate(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeApiKey = useMutation({
     mutationFn: async (keyId: string) => {
       return await apiRequest("DELETE", `/api/api-keys/${keyId}`, {});
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
       toast({
-        title: "API key deleted",
-        description: "The API key has been deleted successfully.",
+        title: "API key revoked",
+        description: "The API key can no longer be used.",
       });
-      setKeyToDelete(null);
+      setKeyToRevoke(null);
     },
     onError: (error: Error) => {
       toast({
@@ -117,7 +239,13 @@ export default function ApiKeys() {
     await createApiKey.mutateAsync({
       workspaceId,
       name: values.name,
-      key: `ak_${Math.random().toString(36).substring(2, 15)}${Math.random().toString(36).substring(2, 15)}`,
+      projectId: values.projectId === ALL ? null : values.projectId,
+      environment: values.environment === ALL ? null : values.environment,
+      scopes: values.scopes,
+      expiresAt:
+        values.expiresInDays === "never"
+          ? null
+          : new Date(Date.now() + parseInt(values.expiresInDays, 10) * 24 * 60 * 60 * 1000).toISOString(),
     });
   };
 
@@ -129,20 +257,8 @@ export default function ApiKeys() {
     });
   };
 
-  const toggleReveal = (keyId: string) => {
-    setRevealedKeys((prev) => {
-      const newSet = new Set(prev);
-      if (newSet.has(keyId)) {
-        newSet.delete(keyId);
-      } else {
-        newSet.add(keyId);
-      }
-      return newSet;
-    });
-  };
-
-  const maskApiKey = (key: string) => {
-    return `${key.substring(0, 10)}${"•".repeat(20)}`;
+  const maskApiKey = (keyPrefix: string) => {
+    return `${keyPrefix}${"•".repeat(20)}`;
   };
 
   if (!workspaceId) {
@@ -203,6 +319,107 @@ export default function ApiKeys() {
                     </FormItem>
                   )}
                 />
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="projectId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Project</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-api-key-project">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={ALL}>All projects</SelectItem>
+                            {projects?.map((project) => (
+                              <SelectItem key={project.id} value={project.id}>
+                                {project.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="environment"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Environment</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-api-key-environment">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={ALL}>All environments</SelectItem>
+                            <SelectItem value="development">Development</SelectItem>
+                            <SelectItem value="staging">Staging</SelectItem>
+                            <SelectItem value="production">Production</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <FormField
+                  control={form.control}
+                  name="scopes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Scopes</FormLabel>
+                      <div className="space-y-2">
+                        {apiKeyScopes.map((scope) => (
+                          <label key={scope} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={field.value.includes(scope)}
+                              onCheckedChange={(checked) =>
+                                field.onChange(
+                                  checked ? [...field.value, scope] : field.value.filter((value) => value !== scope)
+                                )
+                              }
+                              data-testid={`checkbox-api-key-scope-${scope}`}
+                            />
+                            <span className="font-mono">{scope}</span>
+                            <span className="text-muted-foreground">{SCOPE_DESCRIPTIONS[scope]}</span>
+                          </label>
+                        ))}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="expiresInDays"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Expires</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-api-key-expiry">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {EXPIRY_OPTIONS.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 <div className="flex justify-end gap-2">
                   <Button
                     type="button"
@@ -226,70 +443,139 @@ export default function ApiKeys() {
         </Dialog>
       </div>
 
+      {/* Ingestion Rate Limits */}
+      {rateLimits && (
+        <Card data-testid="card-rate-limits">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Gauge className="h-5 w-5" />
+              Ingestion rate limits
+              <Badge variant="outline" className="text-xs capitalize">{rateLimits.tier.replace("_", " ")}</Badge>
+            </CardTitle>
+            <CardDescription>
+              Each log counts against the limit, including each log in a batch. Requests over the limit are rejected with HTTP 429 and a Retry-After header.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div>
+                <p className="text-sm text-muted-foreground">Per API key</p>
+                <p className="font-medium">
+                  {rateLimits.perKey.refillPerSecond} logs/s, burst {rateLimits.perKey.capacity}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Per workspace</p>
+                <p className="font-medium">
+                  {rateLimits.perWorkspace.refillPerSecond} logs/s, burst {rateLimits.perWorkspace.capacity}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Dropped requests</p>
+                <p className="font-medium" data-testid="text-dropped-requests">
+                  {rateLimits.droppedToday.toLocaleString()} today • {rateLimits.droppedLast7Days.toLocaleString()} last 7 days
+                </p>
+                {rateLimits.lastDroppedAt && (
+                  <p className="text-xs text-muted-foreground">
+                    Last dropped {format(new Date(rateLimits.lastDroppedAt), "MMM d, h:mm a")}
+                  </p>
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* API Keys List */}
       {isLoading ? (
         <div className="text-center py-12 text-muted-foreground">Loading API keys...</div>
       ) : apiKeys && apiKeys.length > 0 ? (
         <div className="space-y-4">
-          {apiKeys.map((apiKey) => (
-            <Card key={apiKey.id} data-testid={`api-key-card-${apiKey.id}`}>
-              <CardHeader>
-                <div className="flex items-start justify-between">
-                  <div className="flex-1">
-                    <div className="flex items-center gap-2">
-                      <Key className="h-5 w-5 text-primary" />
-                      <CardTitle className="text-lg">{apiKey.name}</CardTitle>
-                      {revealedKeys.has(apiKey.id) && (
-                        <Badge variant="outline" className="text-xs">New</Badge>
-                      )}
+          {apiKeys.map((apiKey) => {
+            const status = getKeyStatus(apiKey);
+            const isUsable = status.label === "Active" || status.label === "Rotated";
+            return (
+              <Card key={apiKey.id} className={isUsable ? undefined : "opacity-60"} data-testid={`api-key-card-${apiKey.id}`}>
+                <CardHeader>
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2">
+                        <Key className="h-5 w-5 text-primary" />
+                        <CardTitle className="text-lg">{apiKey.name}</CardTitle>
+                        {createdKey?.id === apiKey.id && (
+                          <Badge variant="outline" className="text-xs">New</Badge>
+                        )}
+                        <Badge variant={status.variant} className="text-xs" data-testid={`badge-status-${apiKey.id}`}>
+                          {status.label}
+                        </Badge>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-1 mt-2">
+                        <Badge variant="secondary" className="text-xs">
+                          {apiKey.projectId
+                            ? projects?.find((project) => project.id === apiKey.projectId)?.name || "Unknown project"
+                            : "All projects"}
+                        </Badge>
+                        <Badge variant="secondary" className="text-xs capitalize">
+                          {apiKey.environment || "All environments"}
+                        </Badge>
+                        {apiKey.scopes.map((scope) => (
+                          <Badge key={scope} variant="outline" className="text-xs font-mono" data-testid={`badge-scope-${apiKey.id}-${scope}`}>
+                            {scope}
+                          </Badge>
+                        ))}
+                      </div>
+                      <CardDescription className="mt-2">
+                        Created {new Date(apiKey.createdAt).toLocaleDateString()}
+                        {apiKey.lastUsedAt && (
+                          <> • Last used {new Date(apiKey.lastUsedAt).toLocaleDateString()}</>
+                        )}
+                        {apiKey.revokedAt ? (
+                          <> • Revoked {format(new Date(apiKey.revokedAt), "MMM d, yyyy h:mm a")} by {describeUser(apiKey.revokedBy)}</>
+                        ) : apiKey.expiresAt ? (
+                          <>
+                            {" • "}
+                            {new Date(apiKey.expiresAt) <= new Date() ? "Expired" : apiKey.replacedById ? "Valid until" : "Expires"}{" "}
+                            {format(new Date(apiKey.expiresAt), "MMM d, yyyy h:mm a")}
+                          </>
+                        ) : null}
+                      </CardDescription>
                     </div>
-                    <CardDescription className="mt-1">
-                      Created {new Date(apiKey.createdAt).toLocaleDateString()}
-                      {apiKey.lastUsedAt && (
-                        <> • Last used {new Date(apiKey.lastUsedAt).toLocaleDateString()}</>
-                      )}
-                    </CardDescription>
+                    {isUsable && (
+                      <div className="flex items-center gap-1">
+                        {!apiKey.replacedById && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-muted-foreground"
+                            onClick={() => setKeyToRotate(apiKey)}
+                            title="Rotate key"
+                            data-testid={`button-rotate-${apiKey.id}`}
+                          >
+                            <RefreshCw className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                          onClick={() => setKeyToRevoke(apiKey)}
+                          title="Revoke key"
+                          data-testid={`button-revoke-${apiKey.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
                   </div>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
-                    onClick={() => setKeyToDelete(apiKey)}
-                    data-testid={`button-delete-${apiKey.id}`}
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
-                </div>
-              </CardHeader>
-              <CardContent>
-                <div className="flex items-center gap-2">
-                  <div className="flex-1 bg-muted rounded-md p-3 font-mono text-sm overflow-x-auto">
-                    {revealedKeys.has(apiKey.id) ? apiKey.key : maskApiKey(apiKey.key)}
+                </CardHeader>
+                <CardContent>
+                  <div className="bg-muted rounded-md p-3 font-mono text-sm overflow-x-auto" data-testid={`text-key-prefix-${apiKey.id}`}>
+                    {maskApiKey(apiKey.keyPrefix)}
                   </div>
-                  <Button
-                    variant="outline"
-                    size="icon"
-                    onClick={() => toggleReveal(apiKey.id)}
-                    data-testid={`button-reveal-${apiKey.id}`}
-                  >
-                    {revealedKeys.has(apiKey.id) ? (
-                      <EyeOff className="h-4 w-4" />
-                    ) : (
-                      <Eye className="h-4 w-4" />
-                    )}
-                  </Button>
-                  <Button
-                    variant="outline"
-                    size="icon"
-                    onClick={() => copyToClipboard(apiKey.key)}
-                    data-testid={`button-copy-${apiKey.id}`}
-                  >
-                    <Copy className="h-4 w-4" />
-                  </Button>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+                </CardContent>
+              </Card>
+            );
+          })}
         </div>
       ) : (
         <Card>
@@ -307,28 +593,102 @@ export default function ApiKeys() {
         </Card>
       )}
 
-      {/* Delete Confirmation Dialog */}
+      {/* New Key Dialog - the full key is only available right after creation */}
+      <Dialog open={!!createdKey} onOpenChange={(open) => !open && setCreatedKey(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Copy your API key</DialogTitle>
+            <DialogDescription>
+              This is the only time <strong>{createdKey?.name}</strong> will be shown in full.
+              Store it somewhere safe; only its prefix is kept for display.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <div className="flex-1 bg-muted rounded-md p-3 font-mono text-sm break-all" data-testid="text-new-api-key">
+              {createdKey?.key}
+            </div>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => createdKey && copyToClipboard(createdKey.key)}
+              data-testid="button-copy-new-api-key"
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={() => setCreatedKey(null)} data-testid="button-close-new-api-key">
+              Done
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Rotate Dialog */}
+      <Dialog open={!!keyToRotate} onOpenChange={(open) => !open && setKeyToRotate(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Rotate API key?</DialogTitle>
+            <DialogDescription>
+              A new key with the same name, project, environment and scopes will replace{" "}
+              <strong>{keyToRotate?.name}</strong>. Choose how long the current key keeps working.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Grace period</label>
+            <Select value={gracePeriodHours} onValueChange={setGracePeriodHours}>
+              <SelectTrigger data-testid="select-rotate-grace-period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GRACE_PERIOD_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setKeyToRotate(null)} data-testid="button-cancel-rotate">
+              Cancel
+            </Button>
+            <Button
+              onClick={() =>
+                keyToRotate &&
+                rotateApiKey.mutate({ keyId: keyToRotate.id, gracePeriodHours: parseInt(gracePeriodHours, 10) })
+              }
+              disabled={rotateApiKey.isPending}
+              data-testid="button-confirm-rotate"
+            >
+              {rotateApiKey.isPending ? "Rotating..." : "Rotate key"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Revoke Confirmation Dialog */}
       <AlertDialog
-        open={!!keyToDelete}
-        onOpenChange={(open) => !open && setKeyToDelete(null)}
+        open={!!keyToRevoke}
+        onOpenChange={(open) => !open && setKeyToRevoke(null)}
       >
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Delete API key?</AlertDialogTitle>
+            <AlertDialogTitle>Revoke API key?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete <strong>{keyToDelete?.name}</strong>. Any applications
-              using this key will no longer be able to send telemetry data. This action cannot be
-              undone.
+              This will immediately revoke <strong>{keyToRevoke?.name}</strong>. Any applications
+              using this key will no longer be able to send telemetry data. The key stays listed
+              for auditing but cannot be reactivated.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel data-testid="button-cancel-delete">Cancel</AlertDialogCancel>
+            <AlertDialogCancel data-testid="button-cancel-revoke">Cancel</AlertDialogCancel>
             <AlertDialogAction
-              onClick={() => keyToDelete && deleteApiKey.mutate(keyToDelete.id)}
+              onClick={() => keyToRevoke && revokeApiKey.mutate(keyToRevoke.id)}
               className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-              data-testid="button-confirm-delete"
+              data-testid="button-confirm-revoke"
             >
-              Delete
+              Revoke
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
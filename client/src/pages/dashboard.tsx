@@ -18,8 +18,14 @@ import {
   Tooltip,
   ResponsiveContainer,
 } from "recharts";
+import { TimeRangePicker } from "@/components/time-range-picker";
 import { useWebSocketLogs } from "@/hooks/use-websocket-logs";
-import type { TelemetryLog } from "@shared/schema";
+import { useTimeRange, getBucketKeys } from "@/hooks/use-time-range";
+import type {
+  TelemetryLogsResponse,
+  TelemetrySummary,
+  TelemetryTimeSeriesPoint,
+} from "@shared/schema";
 
 export default function Dashboard() {
   const workspaceId = localStorage.getItem("currentWorkspaceId");
@@ -27,43 +33,46 @@ export default function Dashboard() {
   // Connect to WebSocket for real-time updates
   useWebSocketLogs(workspaceId, !!workspaceId);
 
-  const { data: logs, isLoading } = useQuery<TelemetryLog[]>({
-    queryKey: ["/api/telemetry", { workspaceId }],
+  const timeRange = useTimeRange();
+
+  const { data: summary, isLoading } = useQuery<TelemetrySummary>({
+    queryKey: ["/api/telemetry/stats", { workspaceId, ...timeRange.queryParams }],
     enabled: !!workspaceId,
   });
 
-  // Calculate metrics
-  const totalRequests = logs?.length || 0;
-  const avgLatency = logs?.length
-    ? Math.round(logs.reduce((sum, log) => sum + log.latencyMs, 0) / logs.length)
-    : 0;
-  const totalCost = logs?.length
-    ? logs.reduce((sum, log) => sum + parseFloat(log.cost), 0).toFixed(4)
-    : "0.0000";
-  const totalTokens = logs?.length
-    ? logs.reduce((sum, log) => sum + log.totalTokens, 0)
-    : 0;
-
-  // Prepare chart data (last 7 days)
-  const last7Days = Array.from({ length: 7 }, (_, i) => {
-    const date = new Date();
-    date.setDate(date.getDate() - (6 - i));
-    return date.toISOString().split("T")[0];
+  const { data: rangeStats } = useQuery<TelemetryTimeSeriesPoint[]>({
+    queryKey: ["/api/telemetry/stats/timeseries", { workspaceId, bucket: timeRange.bucket, ...timeRange.queryParams }],
+    enabled: !!workspaceId,
+  });
+
+  const { data: recent, isLoading: recentLoading } = useQuery<TelemetryLogsResponse>({
+    queryKey: ["/api/telemetry", { workspaceId, limit: 10 }],
+    enabled: !!workspaceId,
   });
+  const logs = recent?.logs;
 
-  const requestsByDay = last7Days.map((date) => ({
-    date: new Date(date).toLocaleDateString("en-US", { month: "short", day: "numeric" }),
-    requests: logs?.filter((log) => log.timestamp.toString().startsWith(date)).length || 0,
+  // Calculate metrics
+  const totalRequests = summary?.totalRequests || 0;
+  const avgLatency = Math.round(summary?.avgLatencyMs || 0);
+  const totalCost = (summary?.totalCost || 0).toFixed(4);
+  const totalTokens = summary?.totalTokens || 0;
+
+  // Fill buckets without traffic with zeros
+  const statsByBucket = new Map(rangeStats?.map((point) => [point.bucket, point]));
+  const bucketKeys = getBucketKeys(timeRange.startDate, timeRange.endDate || new Date(), timeRange.bucket);
+  const formatBucket = (bucket: string) =>
+    timeRange.bucket === "hour"
+      ? new Date(`${bucket}Z`).toLocaleTimeString("en-US", { hour: "numeric" })
+      : new Date(`${bucket}Z`).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+
+  const requestsByDay = bucketKeys.map((bucket) => ({
+    date: formatBucket(bucket),
+    requests: statsByBucket.get(bucket)?.requests || 0,
   }));
 
-  const costByDay = last7Days.map((date) => ({
-    date: new Date(date).toLocaleDateString("en-US", { month: "short", day: "numeric" }),
-    cost: parseFloat(
-      logs
-        ?.filter((log) => log.timestamp.toString().startsWith(date))
-        .reduce((sum, log) => sum + parseFloat(log.cost), 0)
-        .toFixed(4) || "0"
-    ),
+  const costByDay = bucketKeys.map((bucket) => ({
+    date: formatBucket(bucket),
+    cost: parseFloat((statsByBucket.get(bucket)?.cost || 0).toFixed(4)),
   }));
 
   if (!workspaceId) {
@@ -81,11 +90,14 @@ export default function Dashboard() {
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold tracking-tight">Overview</h1>
-        <p className="text-muted-foreground">
-          Monitor your AI application performance and costs.
-        </p>
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Overview</h1>
+          <p className="text-muted-foreground">
+            Monitor your AI application performance and costs.
+          </p>
+        </div>
+        <TimeRangePicker timeRange={timeRange} />
       </div>
 
       {/* Metrics Cards */}
@@ -93,7 +105,7 @@ export default function Dashboard() {
         <MetricCard
           title="Total Requests"
           value={totalRequests.toLocaleString()}
-          description="All-time requests"
+          description={timeRange.label}
           icon={Activity}
           isLoading={isLoading}
         />
@@ -107,7 +119,7 @@ export default function Dashboard() {
         <MetricCard
           title="Total Cost"
           value={`$${totalCost}`}
-          description="All-time spend"
+          description={timeRange.label}
           icon={DollarSign}
           isLoading={isLoading}
         />
@@ -124,7 +136,7 @@ export default function Dashboard() {
       <div className="grid gap-4 md:grid-cols-2">
         <Card>
           <CardHeader>
-            <CardTitle>Requests (Last 7 days)</CardTitle>
+            <CardTitle>Requests ({timeRange.label})</CardTitle>
           </CardHeader>
           <CardContent>
             <ResponsiveContainer width="100%" height={300}>
@@ -160,7 +172,7 @@ export default function Dashboard() {
 
         <Card>
           <CardHeader>
-            <CardTitle>Cost (Last 7 days)</CardTitle>
+            <CardTitle>Cost ({timeRange.label})</CardTitle>
           </CardHeader>
           <CardContent>
             <ResponsiveContainer width="100%" height={300}>
@@ -202,7 +214,7 @@ export default function Dashboard() {
           <CardTitle>Recent Activity</CardTitle>
         </CardHeader>
         <CardContent>
-          {isLoading ? (
+          {recentLoading ? (
             <div className="text-center py-8 text-muted-foreground">Loading...</div>
           ) : logs && logs.length > 0 ? (
             <div className="space-y-2">
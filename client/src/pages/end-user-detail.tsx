@@ -0,0 +1,162 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowLeft, Activity, Clock, DollarSign, Zap } from "lucide-react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { MetricCard } from "@/components/metric-card";
+import { TimeRangePicker } from "@/components/time-range-picker";
+import { useTimeRange, getBucketKeys } from "@/hooks/use-time-range";
+import type {
+  TelemetryLogsResponse,
+  TelemetrySummary,
+  TelemetryTimeSeriesPoint,
+} from "@shared/schema";
+
+const HISTORY_LIMIT = 50;
+
+export default function EndUserDetail({ endUserId }: { endUserId: string }) {
+  const workspaceId = localStorage.getItem("currentWorkspaceId");
+  const timeRange = useTimeRange();
+  const params = { workspaceId, endUserId, ...timeRange.queryParams };
+
+  const { data: summary, isLoading } = useQuery<TelemetrySummary>({
+    queryKey: ["/api/telemetry/stats", params],
+    enabled: !!workspaceId,
+  });
+
+  const { data: series } = useQuery<TelemetryTimeSeriesPoint[]>({
+    queryKey: ["/api/telemetry/stats/timeseries", { ...params, bucket: timeRange.bucket }],
+    enabled: !!workspaceId,
+  });
+
+  const { data: history, isLoading: historyLoading } = useQuery<TelemetryLogsResponse>({
+    queryKey: ["/api/telemetry", { ...params, limit: HISTORY_LIMIT }],
+    enabled: !!workspaceId,
+  });
+
+  // Fill buckets without traffic with zeros
+  const pointsByBucket = new Map(series?.map((point) => [point.bucket, point]));
+  const trend = getBucketKeys(timeRange.startDate, timeRange.endDate || new Date(), timeRange.bucket).map((bucket) => ({
+    date: timeRange.bucket === "hour"
+      ? new Date(`${bucket}Z`).toLocaleTimeString("en-US", { hour: "numeric" })
+      : new Date(`${bucket}Z`).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" }),
+    cost: pointsByBucket.get(bucket)?.cost || 0,
+    requests: pointsByBucket.get(bucket)?.requests || 0,
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <Link href="/dashboard/analytics">
+            <Button variant="ghost" size="sm" className="mb-2 -ml-2" data-testid="button-back-analytics">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Analytics
+            </Button>
+          </Link>
+          <h1 className="text-3xl font-bold tracking-tight font-mono break-all">{endUserId}</h1>
+          <p className="text-muted-foreground">End-user usage for {timeRange.label.toLowerCase()}.</p>
+        </div>
+        <TimeRangePicker timeRange={timeRange} />
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <MetricCard title="Total Cost" value={`$${(summary?.totalCost || 0).toFixed(4)}`} icon={DollarSign} isLoading={isLoading} />
+        <MetricCard title="Requests" value={(summary?.totalRequests || 0).toLocaleString()} icon={Activity} isLoading={isLoading} />
+        <MetricCard title="Total Tokens" value={(summary?.totalTokens || 0).toLocaleString()} icon={Zap} isLoading={isLoading} />
+        <MetricCard title="Avg Latency" value={`${Math.round(summary?.avgLatencyMs || 0)}ms`} icon={Clock} isLoading={isLoading} />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Cost Trend</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart data={trend}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+              <XAxis dataKey="date" className="text-xs" tick={{ fill: "hsl(var(--muted-foreground))" }} />
+              <YAxis className="text-xs" tick={{ fill: "hsl(var(--muted-foreground))" }} />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: "hsl(var(--card))",
+                  border: "1px solid hsl(var(--border))",
+                  borderRadius: "0.5rem",
+                }}
+                formatter={(value: number, name: string) =>
+                  name === "cost" ? [`$${value.toFixed(4)}`, "Cost"] : [value, "Requests"]
+                }
+              />
+              <Line type="monotone" dataKey="cost" stroke="hsl(var(--chart-2))" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Request History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {historyLoading ? (
+            <div className="text-center py-8 text-muted-foreground">Loading requests...</div>
+          ) : history && history.logs.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Model</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Latency</TableHead>
+                  <TableHead className="text-right">Tokens</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.logs.map((log) => (
+                  <TableRow key={log.id} data-testid={`row-user-log-${log.id}`}>
+                    <TableCell className="text-sm">{new Date(log.timestamp).toLocaleString()}</TableCell>
+                    <TableCell className="font-mono text-sm">{log.model}</TableCell>
+                    <TableCell>
+                      <Badge variant={log.status === "success" ? "default" : "destructive"}>{log.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{log.latencyMs}ms</TableCell>
+                    <TableCell className="text-right">{log.totalTokens.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">${parseFloat(log.cost).toFixed(4)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="text-center py-8 text-sm text-muted-foreground">
+              No requests from this user in the selected range.
+            </div>
+          )}
+          {history?.nextCursor && (
+            <p className="text-xs text-muted-foreground text-center mt-4">
+              Showing the {HISTORY_LIMIT} most recent requests.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
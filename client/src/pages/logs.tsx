@@ -1,5 +1,6 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useRef, useState } from "react";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { Link, useSearch } from "wouter";
 import { ChevronDown, ChevronRight, Copy, Filter, Download } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -14,91 +15,101 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { useWebSocketLogs } from "@/hooks/use-websocket-logs";
-import type { TelemetryLog, Project } from "@shared/schema";
+import { HighlightedText, MatchSnippet } from "@/components/highlighted-text";
+import { apiRequest } from "@/lib/queryClient";
+import type { TelemetryLogSort, TelemetryLogsResponse, Project } from "@shared/schema";
+
+const PAGE_SIZE = 100;
+const SEARCH_DEBOUNCE_MS = 300;
+
+// apiRequest errors look like `400: {"error": "..."}`; surface the server's message
+function describeError(error: Error): string {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body).error || body;
+  } catch {
+    return body;
+  }
+}
 
 export default function Logs() {
   const workspaceId = localStorage.getItem("currentWorkspaceId");
   const [expandedLog, setExpandedLog] = useState<string | null>(null);
   const [selectedProject, setSelectedProject] = useState<string>("all");
   const [selectedEnvironment, setSelectedEnvironment] = useState<string>("all");
-  const [searchQuery, setSearchQuery] = useState("");
+  // A search can be preset from the URL (?q=...), e.g. when drilling into an error group
+  const search = useSearch();
+  const initialQuery = new URLSearchParams(search).get("q") || "";
+  const [searchQuery, setSearchQuery] = useState(initialQuery);
+  const [appliedQuery, setAppliedQuery] = useState(initialQuery);
+  const [sort, setSort] = useState<TelemetryLogSort>("recent");
   const { toast } = useToast();
 
+  // Search runs server-side; wait for typing to pause before refetching
+  useEffect(() => {
+    const timeout = setTimeout(() => setAppliedQuery(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
   // Connect to WebSocket for real-time log updates
   const { isConnected } = useWebSocketLogs(workspaceId, true);
 
-  const { data: logs, isLoading } = useQuery<TelemetryLog[]>({
-    queryKey: ["/api/telemetry", { workspaceId }],
-    enabled: !!workspaceId,
-  });
+  // Filters and search are applied server-side so paging covers the full history
+  const telemetryParams = {
+    workspaceId,
+    ...(selectedProject !== "all" && { projectId: selectedProject }),
+    ...(selectedEnvironment !== "all" && { environment: selectedEnvironment }),
+    ...(appliedQuery && { q: appliedQuery }),
+    ...(appliedQuery && sort === "relevance" && { sort }),
+  };
 
-  const { data: projects } = useQuery<Project[]>({
-    queryKey: ["/api/projects", { workspaceId }],
+  const {
+    data,
+    isLoading,
+    error: logsError,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/telemetry", telemetryParams],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({
+        ...(telemetryParams as Record<string, string>),
+        limit: String(PAGE_SIZE),
+      });
+      if (pageParam) {
+        params.append("cursor", pageParam);
+      }
+      const res = await apiRequest("GET", `/api/telemetry?${params.toString()}`);
+      return (await res.json()) as TelemetryLogsResponse;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
     enabled: !!workspaceId,
   });
 
-  // Advanced search query parser with proper precedence
-  const parseSearchQuery = (query: string, log: TelemetryLog): boolean => {
-    if (!query.trim()) return true;
+  const logs = data?.pages.flatMap((page) => page.logs) || [];
+  const highlightTerms = data?.pages[0]?.highlightTerms || [];
 
-    // Normalize query by adding spaces around boolean operators
-    let normalizedQuery = query.trim();
-    normalizedQuery = normalizedQuery.replace(/\b(and|or|not)\b/gi, ' $1 ');
-    normalizedQuery = normalizedQuery.replace(/\s+/g, ' '); // Collapse multiple spaces
+  // Load the next page when the sentinel below the list scrolls into view
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
 
-    const originalQuery = normalizedQuery;
-    const lowerQuery = originalQuery.toLowerCase();
-
-    // Boolean OR has lowest precedence - split on OR first (handle multiple spaces)
-    if (/\s+or\s+/i.test(lowerQuery)) {
-      const terms = originalQuery.split(/\s+or\s+/i);
-      return terms.some(term => parseSearchQuery(term.trim(), log));
-    }
-
-    // Boolean AND has higher precedence (handle multiple spaces)
-    if (/\s+and\s+/i.test(lowerQuery)) {
-      const terms = originalQuery.split(/\s+and\s+/i);
-      return terms.every(term => parseSearchQuery(term.trim(), log));
-    }
-
-    // Boolean NOT operator: NOT term (handle multiple spaces)
-    if (/^not\s+/i.test(lowerQuery)) {
-      const term = originalQuery.replace(/^not\s+/i, '').trim();
-      return !parseSearchQuery(term, log);
-    }
-
-    // Field-specific search: field:value
-    const fieldMatch = originalQuery.match(/^(\w+):(.+)$/);
-    if (fieldMatch) {
-      const [, field, value] = fieldMatch;
-      
-      // Field name mapping for camelCase fields
-      const fieldMap: Record<string, string> = {
-        'projectid': 'projectId',
-        'workspaceid': 'workspaceId',
-        'latencyms': 'latencyMs',
-        'prompttokens': 'promptTokens',
-        'completiontokens': 'completionTokens',
-        'totaltokens': 'totalTokens',
-      };
-      
-      const normalizedField = fieldMap[field.toLowerCase()] || field;
-      const fieldValue = String((log as any)[normalizedField] || "").toLowerCase();
-      return fieldValue.includes(value.toLowerCase().trim());
-    }
-
-    // Default: search across prompt, response, and model
-    const searchableText = `${log.prompt} ${log.response} ${log.model}`.toLowerCase();
-    return searchableText.includes(lowerQuery);
-  };
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
-  // Filter logs
-  const filteredLogs = logs?.filter((log) => {
-    const matchesProject = selectedProject === "all" || log.projectId === selectedProject;
-    const matchesEnvironment = selectedEnvironment === "all" || log.environment === selectedEnvironment;
-    const matchesSearch = parseSearchQuery(searchQuery, log);
-    return matchesProject && matchesEnvironment && matchesSearch;
-  }) || [];
+  const { data: projects } = useQuery<Project[]>({
+    queryKey: ["/api/projects", { workspaceId }],
+    enabled: !!workspaceId,
+  });
 
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
@@ -122,6 +133,9 @@ export default function Logs() {
     if (selectedEnvironment !== "all") {
       params.append("environment", selectedEnvironment);
     }
+    if (appliedQuery) {
+      params.append("q", appliedQuery);
+    }
 
     const url = `/api/telemetry/export?${params.toString()}`;
     window.open(url, "_blank");
@@ -223,15 +237,32 @@ export default function Logs() {
             <div>
               <label className="text-sm font-medium mb-2 block">Search</label>
               <div className="space-y-2">
-                <Input
-                  placeholder="Search logs... (try: model:gpt-4, prompt AND error, NOT success)"
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  data-testid="input-search-logs"
-                />
-                <p className="text-xs text-muted-foreground">
-                  Examples: <code className="bg-muted px-1 rounded">model:gpt-4</code>, <code className="bg-muted px-1 rounded">error AND timeout</code>, <code className="bg-muted px-1 rounded">NOT success</code>
-                </p>
+                <div className="flex gap-2">
+                  <Input
+                    placeholder='Search logs... (try: model:gpt-4 AND latencyMs:>2000, "rate limit", NOT status:success)'
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    data-testid="input-search-logs"
+                  />
+                  <Select value={sort} onValueChange={(value) => setSort(value as TelemetryLogSort)}>
+                    <SelectTrigger className="w-36 shrink-0" disabled={!appliedQuery} data-testid="select-log-sort">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="recent">Most recent</SelectItem>
+                      <SelectItem value="relevance">Best match</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {logsError ? (
+                  <p className="text-xs text-destructive" data-testid="text-search-error">
+                    {describeError(logsError)}
+                  </p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    Examples: <code className="bg-muted px-1 rounded">cost:&gt;=0.01</code>, <code className="bg-muted px-1 rounded">(model:gpt-4 OR model:claude) AND status:error</code>, <code className="bg-muted px-1 rounded">"order 48213"</code>, <code className="bg-muted px-1 rounded">metadata.feature:chat</code>
+                  </p>
+                )}
               </div>
             </div>
           </div>
@@ -243,9 +274,9 @@ export default function Logs() {
         <CardContent className="p-0">
           {isLoading ? (
             <div className="text-center py-12 text-muted-foreground">Loading logs...</div>
-          ) : filteredLogs.length > 0 ? (
+          ) : logs.length > 0 ? (
             <div className="divide-y">
-              {filteredLogs.map((log) => (
+              {logs.map((log) => (
                 <div key={log.id} className="hover-elevate" data-testid={`log-row-${log.id}`}>
                   <div
                     className="flex items-center gap-4 p-4 cursor-pointer"
@@ -268,7 +299,14 @@ export default function Logs() {
                         <div className="text-xs text-muted-foreground mb-1">
                           {new Date(log.timestamp).toLocaleString()}
                         </div>
-                        <div className="font-mono text-sm">{log.model}</div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-mono text-sm truncate">{log.model}</span>
+                          {log.status === "error" && (
+                            <Badge variant="destructive" className="text-xs" data-testid={`badge-error-${log.id}`}>
+                              {log.errorHttpStatus ?? "Error"}
+                            </Badge>
+                          )}
+                        </div>
                       </div>
                       <div>
                         <div className="text-xs text-muted-foreground mb-1">Environment</div>
@@ -287,12 +325,52 @@ export default function Logs() {
                       <div>
                         <div className="text-xs text-muted-foreground mb-1">Cost</div>
                         <div className="text-sm font-medium">${parseFloat(log.cost).toFixed(4)}</div>
+                        {log.costMismatch && log.catalogCost && (
+                          <Badge
+                            variant="outline"
+                            className="text-xs mt-1"
+                            title={`Catalog cost: $${parseFloat(log.catalogCost).toFixed(6)}`}
+                            data-testid={`badge-cost-mismatch-${log.id}`}
+                          >
+                            Cost mismatch
+                          </Badge>
+                        )}
                       </div>
+                      <MatchSnippet
+                        texts={[log.prompt, log.response]}
+                        terms={highlightTerms}
+                        className="md:col-span-6 text-xs text-muted-foreground truncate"
+                      />
                     </div>
                   </div>
 
                   {expandedLog === log.id && (
                     <div className="px-4 pb-4 space-y-4 border-t bg-muted/20">
+                      {log.status === "error" && (log.errorType || log.errorMessage || log.errorHttpStatus) && (
+                        <div
+                          className="mt-4 rounded-md border border-destructive/50 bg-destructive/5 p-3 space-y-1"
+                          data-testid={`error-details-${log.id}`}
+                        >
+                          <div className="flex flex-wrap items-center gap-2 text-sm font-semibold text-destructive">
+                            {log.errorType || "Error"}
+                            {log.errorHttpStatus && (
+                              <Badge variant="outline" className="text-xs">HTTP {log.errorHttpStatus}</Badge>
+                            )}
+                            {log.provider && (
+                              <Badge variant="secondary" className="text-xs">{log.provider}</Badge>
+                            )}
+                          </div>
+                          {log.errorMessage && (
+                            <p className="text-sm font-mono break-words">{log.errorMessage}</p>
+                          )}
+                        </div>
+                      )}
+                      {log.contentPurgedAt && (
+                        <p className="pt-4 text-xs text-muted-foreground" data-testid={`text-content-purged-${log.id}`}>
+                          Prompt and response were removed by a retention policy on{" "}
+                          {new Date(log.contentPurgedAt).toLocaleDateString()}.
+                        </p>
+                      )}
                       <div className="pt-4">
                         <div className="flex items-center justify-between mb-2">
                           <h4 className="text-sm font-semibold">Prompt</h4>
@@ -310,7 +388,7 @@ export default function Logs() {
                           </Button>
                         </div>
                         <div className="bg-background rounded-md p-3 font-mono text-sm border">
-                          {log.prompt}
+                          <HighlightedText text={log.prompt} terms={highlightTerms} />
                         </div>
                       </div>
                       <div>
@@ -330,7 +408,7 @@ export default function Logs() {
                           </Button>
                         </div>
                         <div className="bg-background rounded-md p-3 font-mono text-sm border max-h-64 overflow-y-auto">
-                          {log.response}
+                          <HighlightedText text={log.response} terms={highlightTerms} />
                         </div>
                       </div>
                       <div className="grid grid-cols-2 md:grid-cols-4 gap-4 pt-2">
@@ -353,6 +431,24 @@ export default function Logs() {
                           <div className="text-xs font-mono truncate">{log.id}</div>
                         </div>
                       </div>
+                      {(log.traceId || log.sessionId) && (
+                        <div className="flex gap-2">
+                          {log.traceId && (
+                            <Link href={`/dashboard/traces/${encodeURIComponent(log.traceId)}`}>
+                              <Button variant="outline" size="sm" data-testid={`button-view-trace-${log.id}`}>
+                                View trace
+                              </Button>
+                            </Link>
+                          )}
+                          {log.sessionId && (
+                            <Link href={`/dashboard/sessions/${encodeURIComponent(log.sessionId)}`}>
+                              <Button variant="outline" size="sm" data-testid={`button-view-session-${log.id}`}>
+                                View session
+                              </Button>
+                            </Link>
+                          )}
+                        </div>
+                      )}
                     </div>
                   )}
                 </div>
@@ -371,9 +467,18 @@ export default function Logs() {
         </CardContent>
       </Card>
 
-      {filteredLogs.length > 0 && (
+      <div ref={loadMoreRef} />
+
+      {isFetchingNextPage && (
+        <div className="text-sm text-muted-foreground text-center" data-testid="text-loading-more">
+          Loading more logs...
+        </div>
+      )}
+
+      {logs.length > 0 && (
         <div className="text-sm text-muted-foreground text-center">
-          Showing {filteredLogs.length} {filteredLogs.length === 1 ? "log" : "logs"}
+          Showing {logs.length} {logs.length === 1 ? "log" : "logs"}
+          {hasNextPage ? " (scroll for more)" : ""}
         </div>
       )}
     </div>
@@ -0,0 +1,94 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowLeft, Clock, DollarSign, MessagesSquare, Zap } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { MetricCard } from "@/components/metric-card";
+import { formatDuration } from "@/lib/utils";
+import type { SessionDetail as SessionDetailResponse } from "@shared/schema";
+
+export default function SessionDetail({ sessionId }: { sessionId: string }) {
+  const workspaceId = localStorage.getItem("currentWorkspaceId");
+
+  const { data, isLoading, error } = useQuery<SessionDetailResponse>({
+    queryKey: [`/api/sessions/${encodeURIComponent(sessionId)}`, { workspaceId }],
+    enabled: !!workspaceId,
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-12 text-muted-foreground">Loading session...</div>;
+  }
+
+  if (error || !data) {
+    return (
+      <div className="text-center py-12">
+        <h3 className="text-lg font-semibold mb-2">Session not found</h3>
+        <Link href="/dashboard/sessions">
+          <Button variant="outline" size="sm">Back to sessions</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const { summary, logs } = data;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link href="/dashboard/sessions">
+          <Button variant="ghost" size="sm" className="mb-2 -ml-2" data-testid="button-back-sessions">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Sessions
+          </Button>
+        </Link>
+        <h1 className="text-3xl font-bold tracking-tight font-mono break-all">{summary.sessionId}</h1>
+        <p className="text-muted-foreground">
+          {summary.endUserId ? `User ${summary.endUserId} · ` : ""}
+          {new Date(summary.startedAt).toLocaleString()}
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <MetricCard title="Turns" value={summary.turnCount} icon={MessagesSquare} />
+        <MetricCard title="Duration" value={formatDuration(summary.durationMs)} icon={Clock} />
+        <MetricCard title="Total Tokens" value={summary.totalTokens.toLocaleString()} icon={Zap} />
+        <MetricCard title="Total Cost" value={`$${summary.totalCost.toFixed(4)}`} icon={DollarSign} />
+      </div>
+
+      <Card>
+        <CardContent className="space-y-6 pt-6">
+          {logs.length === 0 && (
+            <div className="text-center py-8 text-muted-foreground">This session has no LLM calls.</div>
+          )}
+          {logs.map((log) => (
+            <div key={log.id} className="space-y-2" data-testid={`turn-${log.id}`}>
+              <div className="flex justify-end">
+                <div className="max-w-[80%] rounded-lg bg-primary text-primary-foreground px-4 py-2 text-sm whitespace-pre-wrap max-h-64 overflow-y-auto">
+                  {log.prompt}
+                </div>
+              </div>
+              <div className="flex justify-start">
+                <div className="max-w-[80%] space-y-1">
+                  <div className="rounded-lg bg-muted px-4 py-2 text-sm whitespace-pre-wrap">
+                    {log.response || <span className="italic text-muted-foreground">No response</span>}
+                  </div>
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span className="font-mono">{log.model}</span>
+                    <span>· {log.latencyMs}ms</span>
+                    <span>· {log.totalTokens.toLocaleString()} tokens</span>
+                    <span>· ${parseFloat(log.cost).toFixed(4)}</span>
+                    <span>· {new Date(log.timestamp).toLocaleTimeString()}</span>
+                    {log.status !== "success" && (
+                      <Badge variant="destructive" className="text-xs">{log.status}</Badge>
+                    )}
+                  </div>
+                </div>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TimeRangePicker } from "@/components/time-range-picker";
+import { useTimeRange } from "@/hooks/use-time-range";
+import { formatDuration } from "@/lib/utils";
+import type { SessionSummary } from "@shared/schema";
+
+export default function Sessions() {
+  const workspaceId = localStorage.getItem("currentWorkspaceId");
+  const timeRange = useTimeRange();
+  const [, navigate] = useLocation();
+  const [userFilter, setUserFilter] = useState("");
+
+  const { data: sessions, isLoading } = useQuery<SessionSummary[]>({
+    queryKey: [
+      "/api/sessions",
+      { workspaceId, ...timeRange.queryParams, ...(userFilter.trim() && { endUserId: userFilter.trim() }) },
+    ],
+    enabled: !!workspaceId,
+  });
+
+  if (!workspaceId) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold mb-2">No workspace selected</h2>
+          <p className="text-muted-foreground">
+            Please select or create a workspace to view sessions.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Sessions</h1>
+          <p className="text-muted-foreground">
+            Conversations grouped by the sessionId your SDK sends.
+          </p>
+        </div>
+        <TimeRangePicker timeRange={timeRange} />
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Recent Sessions</CardTitle>
+          <Input
+            placeholder="Filter by user ID"
+            value={userFilter}
+            onChange={(e) => setUserFilter(e.target.value)}
+            className="max-w-xs"
+            data-testid="input-session-user-filter"
+          />
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-12 text-muted-foreground">Loading sessions...</div>
+          ) : sessions && sessions.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Session</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Last Activity</TableHead>
+                  <TableHead className="text-right">Turns</TableHead>
+                  <TableHead className="text-right">Duration</TableHead>
+                  <TableHead className="text-right">Tokens</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sessions.map((session) => (
+                  <TableRow
+                    key={session.sessionId}
+                    className="cursor-pointer hover-elevate"
+                    onClick={() => navigate(`/dashboard/sessions/${encodeURIComponent(session.sessionId)}`)}
+                    data-testid={`row-session-${session.sessionId}`}
+                  >
+                    <TableCell className="font-mono text-sm truncate max-w-xs">{session.sessionId}</TableCell>
+                    <TableCell className="text-sm">{session.endUserId || "—"}</TableCell>
+                    <TableCell className="text-sm">{new Date(session.endedAt).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{session.turnCount}</TableCell>
+                    <TableCell className="text-right">{formatDuration(session.durationMs)}</TableCell>
+                    <TableCell className="text-right">{session.totalTokens.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">${session.totalCost.toFixed(4)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-semibold mb-2">No sessions found</h3>
+              <p className="text-sm text-muted-foreground">
+                Send logs with a sessionId to group them into conversations.
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -3,6 +3,9 @@ import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { BudgetsCard } from "@/components/budgets-card";
+import { WebhooksCard } from "@/components/webhooks-card";
+import { RetentionCard } from "@/components/retention-card";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -205,6 +208,12 @@ export default function Settings() {
           </CardContent>
         </Card>
 
+        <BudgetsCard workspaceId={workspaceId} />
+
+        <WebhooksCard workspaceId={workspaceId} />
+
+        <RetentionCard workspaceId={workspaceId} />
+
         <Card>
           <CardHeader>
             <CardTitle>Appearance</CardTitle>
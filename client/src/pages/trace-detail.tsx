@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowLeft, Clock, DollarSign, Layers, Zap } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { MetricCard } from "@/components/metric-card";
+import { cn, formatDuration } from "@/lib/utils";
+import type { TelemetryLog, TelemetrySpanKind, TraceDetail as TraceDetailResponse } from "@shared/schema";
+
+const KIND_COLORS: Record<TelemetrySpanKind, string> = {
+  llm: "bg-chart-1",
+  tool: "bg-chart-2",
+  retrieval: "bg-chart-3",
+  chain: "bg-chart-4",
+};
+
+interface WaterfallRow {
+  span: TelemetryLog;
+  depth: number;
+  startMs: number;
+}
+
+function spanStart(span: TelemetryLog): number {
+  return span.startedAt
+    ? new Date(span.startedAt).getTime()
+    : new Date(span.timestamp).getTime() - span.latencyMs;
+}
+
+// Order spans depth-first under their parents. Spans whose parent is missing from the trace
+// are treated as roots so nothing is hidden.
+function buildWaterfall(spans: TelemetryLog[], traceStart: number): WaterfallRow[] {
+  const spanIds = new Set(spans.map((span) => span.spanId).filter(Boolean));
+  const children = new Map<string | null, TelemetryLog[]>();
+  spans.forEach((span) => {
+    const parent = span.parentSpanId && spanIds.has(span.parentSpanId) ? span.parentSpanId : null;
+    children.set(parent, [...(children.get(parent) || []), span]);
+  });
+
+  const rows: WaterfallRow[] = [];
+  const visit = (parent: string | null, depth: number) => {
+    const siblings = (children.get(parent) || []).sort((a, b) => spanStart(a) - spanStart(b));
+    siblings.forEach((span) => {
+      rows.push({ span, depth, startMs: spanStart(span) - traceStart });
+      if (span.spanId) visit(span.spanId, depth + 1);
+    });
+  };
+  visit(null, 0);
+  return rows;
+}
+
+export default function TraceDetail({ traceId }: { traceId: string }) {
+  const workspaceId = localStorage.getItem("currentWorkspaceId");
+  const [selectedSpan, setSelectedSpan] = useState<string | null>(null);
+
+  const { data, isLoading, error } = useQuery<TraceDetailResponse>({
+    queryKey: [`/api/traces/${encodeURIComponent(traceId)}`, { workspaceId }],
+    enabled: !!workspaceId,
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-12 text-muted-foreground">Loading trace...</div>;
+  }
+
+  if (error || !data) {
+    return (
+      <div className="text-center py-12">
+        <h3 className="text-lg font-semibold mb-2">Trace not found</h3>
+        <Link href="/dashboard/traces">
+          <Button variant="outline" size="sm">Back to traces</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const { summary, spans } = data;
+  const traceStart = new Date(summary.startedAt).getTime();
+  const duration = Math.max(summary.durationMs, 1);
+  const rows = buildWaterfall(spans, traceStart);
+  const selected = spans.find((span) => span.id === selectedSpan);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link href="/dashboard/traces">
+          <Button variant="ghost" size="sm" className="mb-2 -ml-2" data-testid="button-back-traces">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Traces
+          </Button>
+        </Link>
+        <h1 className="text-3xl font-bold tracking-tight">{summary.rootName}</h1>
+        <p className="text-muted-foreground font-mono text-sm">{summary.traceId}</p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <MetricCard title="Duration" value={formatDuration(summary.durationMs)} icon={Clock} />
+        <MetricCard title="Total Cost" value={`$${summary.totalCost.toFixed(4)}`} icon={DollarSign} />
+        <MetricCard title="Total Tokens" value={summary.totalTokens.toLocaleString()} icon={Zap} />
+        <MetricCard
+          title="Spans"
+          value={summary.spanCount}
+          description={`${summary.llmCalls} LLM calls${summary.errorCount > 0 ? `, ${summary.errorCount} failed` : ""}`}
+          icon={Layers}
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Waterfall</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-1">
+          {rows.map(({ span, depth, startMs }) => (
+            <div
+              key={span.id}
+              className={cn(
+                "grid grid-cols-[minmax(0,2fr)_minmax(0,3fr)_5rem] items-center gap-4 rounded-md px-2 py-1.5 cursor-pointer hover-elevate",
+                selectedSpan === span.id && "bg-muted"
+              )}
+              onClick={() => setSelectedSpan(selectedSpan === span.id ? null : span.id)}
+              data-testid={`row-span-${span.id}`}
+            >
+              <div className="flex items-center gap-2 min-w-0" style={{ paddingLeft: depth * 16 }}>
+                <Badge variant="outline" className="text-xs shrink-0">{span.kind}</Badge>
+                <span className="text-sm truncate">{span.name || span.model}</span>
+              </div>
+              <div className="relative h-4 rounded bg-muted/40">
+                <div
+                  className={cn(
+                    "absolute h-full rounded",
+                    span.status === "error" ? "bg-destructive" : KIND_COLORS[span.kind as TelemetrySpanKind] || "bg-chart-5"
+                  )}
+                  style={{
+                    left: `${Math.min((startMs / duration) * 100, 100)}%`,
+                    width: `max(2px, ${(span.latencyMs / duration) * 100}%)`,
+                  }}
+                  title={`+${formatDuration(startMs)}`}
+                />
+              </div>
+              <div className="text-sm text-right text-muted-foreground">{formatDuration(span.latencyMs)}</div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card data-testid="card-span-detail">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              {selected.name || selected.model}
+              <Badge variant={selected.status === "success" ? "default" : "destructive"}>{selected.status}</Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Model</div>
+                <div className="text-sm font-mono">{selected.model}</div>
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Latency</div>
+                <div className="text-sm font-medium">{selected.latencyMs}ms</div>
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Tokens</div>
+                <div className="text-sm font-medium">{selected.totalTokens.toLocaleString()}</div>
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Cost</div>
+                <div className="text-sm font-medium">${parseFloat(selected.cost).toFixed(4)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Span ID</div>
+                <div className="text-xs font-mono truncate">{selected.spanId || "—"}</div>
+              </div>
+            </div>
+            {selected.prompt && (
+              <div>
+                <h4 className="text-sm font-semibold mb-2">{selected.kind === "llm" ? "Prompt" : "Input"}</h4>
+                <div className="bg-background rounded-md p-3 font-mono text-sm border max-h-64 overflow-y-auto whitespace-pre-wrap">
+                  {selected.prompt}
+                </div>
+              </div>
+            )}
+            {selected.response && (
+              <div>
+                <h4 className="text-sm font-semibold mb-2">{selected.kind === "llm" ? "Response" : "Output"}</h4>
+                <div className="bg-background rounded-md p-3 font-mono text-sm border max-h-64 overflow-y-auto whitespace-pre-wrap">
+                  {selected.response}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TimeRangePicker } from "@/components/time-range-picker";
+import { useTimeRange } from "@/hooks/use-time-range";
+import { formatDuration } from "@/lib/utils";
+import type { TraceSummary } from "@shared/schema";
+
+export default function Traces() {
+  const workspaceId = localStorage.getItem("currentWorkspaceId");
+  const timeRange = useTimeRange();
+  const [, navigate] = useLocation();
+
+  const { data: traces, isLoading } = useQuery<TraceSummary[]>({
+    queryKey: ["/api/traces", { workspaceId, ...timeRange.queryParams }],
+    enabled: !!workspaceId,
+  });
+
+  if (!workspaceId) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold mb-2">No workspace selected</h2>
+          <p className="text-muted-foreground">
+            Please select or create a workspace to view traces.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Traces</h1>
+          <p className="text-muted-foreground">
+            Multi-step workflows with cost and latency rolled up per trace.
+          </p>
+        </div>
+        <TimeRangePicker timeRange={timeRange} />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Traces</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-12 text-muted-foreground">Loading traces...</div>
+          ) : traces && traces.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Trace</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead className="text-right">Spans</TableHead>
+                  <TableHead className="text-right">LLM Calls</TableHead>
+                  <TableHead className="text-right">Duration</TableHead>
+                  <TableHead className="text-right">Tokens</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {traces.map((trace) => (
+                  <TableRow
+                    key={trace.traceId}
+                    className="cursor-pointer hover-elevate"
+                    onClick={() => navigate(`/dashboard/traces/${encodeURIComponent(trace.traceId)}`)}
+                    data-testid={`row-trace-${trace.traceId}`}
+                  >
+                    <TableCell>
+                      <div className="font-medium">{trace.rootName}</div>
+                      <div className="text-xs text-muted-foreground font-mono truncate max-w-xs">
+                        {trace.traceId}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {new Date(trace.startedAt).toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {trace.spanCount}
+                      {trace.errorCount > 0 && (
+                        <Badge variant="destructive" className="ml-2 text-xs">
+                          {trace.errorCount} failed
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{trace.llmCalls}</TableCell>
+                    <TableCell className="text-right">{formatDuration(trace.durationMs)}</TableCell>
+                    <TableCell className="text-right">{trace.totalTokens.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">${trace.totalCost.toFixed(4)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-semibold mb-2">No traces found</h3>
+              <p className="text-sm text-muted-foreground">
+                Send logs with a traceId (or OpenTelemetry spans) to see traces here.
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -8,6 +8,8 @@ export default defineConfig({
   out: "./migrations",
   schema: "./shared/schema.ts",
   dialect: "postgresql",
+  // Monthly partitions of telemetry_logs are managed by server/partitions.ts, not by push
+  tablesFilter: ["*", "!telemetry_logs_p*", "!telemetry_logs_default", "!telemetry_logs_legacy"],
   dbCredentials: {
     url: process.env.DATABASE_URL,
   },
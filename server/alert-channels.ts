@@ -0,0 +1,181 @@
+import { z } from "zod";
+import { storage } from "./storage";
+import { emitWebhookEvent, sendTestEvent } from "./webhooks";
+import type {
+  AlertChannel,
+  AlertChannelSummary,
+  AlertChannelType,
+  AlertIncident,
+  AlertMetric,
+  AlertRule,
+} from "@shared/schema";
+
+const CHANNEL_TIMEOUT = 10 * 1000;
+
+export interface AlertNotification {
+  event: "alert.firing" | "alert.resolved";
+  rule: AlertRule;
+  incident: AlertIncident;
+  value: number | null; // Metric value at this transition; null when the window had no data
+}
+
+// A notification channel type. Adding a channel means implementing this and registering it in
+// alertChannelHandlers (and adding its name to alertChannelTypes in shared/schema.ts).
+interface AlertChannelHandler {
+  configSchema: z.ZodType<Record<string, string>>;
+  // Human-readable target shown in the UI in place of the config, which may hold credentials
+  describe(config: Record<string, string>): string;
+  // Throws when the notification could not be delivered
+  send(channel: AlertChannel, notification: AlertNotification): Promise<void>;
+  sendTest(channel: AlertChannel): Promise<void>;
+}
+
+const METRIC_LABELS: Record<AlertMetric, string> = {
+  p95_latency: "p95 latency",
+  error_rate: "Error rate",
+  cost: "Cost",
+};
+
+export function formatAlertValue(metric: string, value: number | null): string {
+  if (value === null) return "no data";
+  if (metric === "p95_latency") return `${Math.round(value).toLocaleString()} ms`;
+  if (metric === "error_rate") return `${value.toFixed(2)}%`;
+  return `$${value.toFixed(2)}`;
+}
+
+// e.g. "p95 latency was 3,412 ms (threshold > 3,000 ms) over the last 10 minutes"
+export function describeAlertCondition(rule: AlertRule, value: number | null): string {
+  const label = METRIC_LABELS[rule.metric as AlertMetric] || rule.metric;
+  const operator = rule.operator === "lt" ? "<" : ">";
+  const threshold = formatAlertValue(rule.metric, parseFloat(rule.threshold));
+  return `${label} was ${formatAlertValue(rule.metric, value)} (threshold ${operator} ${threshold}) over the last ${rule.windowMinutes} minutes`;
+}
+
+function notificationPayload(notification: AlertNotification) {
+  const { rule, incident } = notification;
+  return {
+    rule: {
+      id: rule.id,
+      name: rule.name,
+      metric: rule.metric,
+      operator: rule.operator,
+      threshold: parseFloat(rule.threshold),
+      windowMinutes: rule.windowMinutes,
+      projectId: rule.projectId,
+      environment: rule.environment,
+      model: rule.model,
+    },
+    incident: {
+      id: incident.id,
+      firedAt: incident.firedAt.toISOString(),
+      resolvedAt: incident.resolvedAt?.toISOString() ?? null,
+    },
+    value: notification.value,
+  };
+}
+
+async function postJson(url: string, body: unknown): Promise<void> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(CHANNEL_TIMEOUT),
+    });
+  } catch (error: any) {
+    throw new Error(error.name === "TimeoutError" ? `Timed out after ${CHANNEL_TIMEOUT / 1000}s` : error.message);
+  }
+  if (!response.ok) {
+    throw new Error(`Receiver responded with HTTP ${response.status}`);
+  }
+}
+
+// Delivers through the workspace's signed webhook endpoints that subscribe to alert events,
+// so retries and delivery history come from the webhook worker
+const webhooksChannel: AlertChannelHandler = {
+  configSchema: z.object({}).strict(),
+  describe: () => "Webhooks subscribed to alert events",
+  async send(channel, notification) {
+    await emitWebhookEvent(channel.workspaceId, notification.event, notificationPayload(notification));
+  },
+  async sendTest(channel) {
+    const subscribed = await storage.getSubscribedWebhooks(channel.workspaceId, "alert.firing");
+    if (subscribed.length === 0) {
+      throw new Error("No enabled webhook subscribes to alert.firing");
+    }
+    const deliveries = await Promise.all(subscribed.map((webhook) => sendTestEvent(webhook)));
+    const failed = deliveries.find((delivery) => delivery.status !== "success");
+    if (failed) {
+      throw new Error(failed.error || "Test delivery failed");
+    }
+  },
+};
+
+const slackChannel: AlertChannelHandler = {
+  configSchema: z.object({
+    url: z
+      .string()
+      .url()
+      .refine((value) => value.startsWith("https://hooks.slack.com/"), "Must be a Slack incoming webhook URL"),
+  }),
+  describe: (config) => {
+    const url = config.url || "";
+    return url ? `hooks.slack.com/…${url.slice(-4)}` : "Not configured";
+  },
+  async send(channel, notification) {
+    const { rule, value } = notification;
+    const status = notification.event === "alert.firing" ? ":rotating_light: *Firing*" : ":white_check_mark: *Resolved*";
+    await postJson(channel.config.url, {
+      text: `${status}: ${rule.name}\n${describeAlertCondition(rule, value)}`,
+    });
+  },
+  async sendTest(channel) {
+    await postJson(channel.config.url, { text: "This is a test alert notification." });
+  },
+};
+
+export const alertChannelHandlers: Record<AlertChannelType, AlertChannelHandler> = {
+  webhooks: webhooksChannel,
+  slack: slackChannel,
+};
+
+// Validate a channel config for its type; throws a ZodError on invalid input
+export function parseAlertChannelConfig(type: AlertChannelType, config: unknown): Record<string, string> {
+  return alertChannelHandlers[type].configSchema.parse(config ?? {});
+}
+
+export function summarizeAlertChannel(channel: AlertChannel): AlertChannelSummary {
+  const { config, ...summary } = channel;
+  const handler = alertChannelHandlers[channel.type as AlertChannelType];
+  return { ...summary, target: handler ? handler.describe(config) : channel.type };
+}
+
+// Send a notification to each enabled channel. Never rejects: one broken channel must not
+// stop the others or the evaluator.
+export async function sendAlertNotification(channels: AlertChannel[], notification: AlertNotification): Promise<void> {
+  await Promise.all(
+    channels
+      .filter((channel) => channel.enabled)
+      .map(async (channel) => {
+        const handler = alertChannelHandlers[channel.type as AlertChannelType];
+        if (!handler) {
+          console.error(`Unknown alert channel type ${channel.type} for channel ${channel.id}`);
+          return;
+        }
+        try {
+          await handler.send(channel, notification);
+        } catch (error) {
+          console.error(`Failed to send ${notification.event} to alert channel ${channel.id}:`, error);
+        }
+      })
+  );
+}
+
+export async function sendTestAlertNotification(channel: AlertChannel): Promise<void> {
+  const handler = alertChannelHandlers[channel.type as AlertChannelType];
+  if (!handler) {
+    throw new Error(`Unknown channel type: ${channel.type}`);
+  }
+  await handler.sendTest(channel);
+}
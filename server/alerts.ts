@@ -0,0 +1,155 @@
+import { storage, type AlertMetrics } from "./storage";
+import { sendAlertNotification, type AlertNotification } from "./alert-channels";
+import type { AlertIncident, AlertRule } from "@shared/schema";
+
+// How often the background evaluator checks every enabled alert rule
+const ALERT_EVALUATION_INTERVAL = 60 * 1000; // 1 minute
+
+const MINUTE_MS = 60 * 1000;
+
+let evaluatorTimer: NodeJS.Timeout | null = null;
+let evaluatorRunning = false;
+
+// Fields that define what a rule measures. Changing any of them restarts its evaluation.
+export const ALERT_CONDITION_FIELDS = [
+  "metric",
+  "operator",
+  "threshold",
+  "windowMinutes",
+  "forMinutes",
+  "projectId",
+  "environment",
+  "model",
+  "enabled",
+] as const;
+
+// The rule's metric over the window, or null when there is nothing to measure
+// (latency and error rate are undefined without requests; cost is then zero)
+export function getAlertMetricValue(metric: string, metrics: AlertMetrics): number | null {
+  if (metric === "p95_latency") return metrics.p95LatencyMs;
+  if (metric === "error_rate") return metrics.requests > 0 ? (metrics.errors / metrics.requests) * 100 : null;
+  if (metric === "cost") return metrics.cost;
+  throw new Error(`Unknown alert metric: ${metric}`);
+}
+
+export function isAlertConditionMet(rule: AlertRule, value: number): boolean {
+  const threshold = parseFloat(rule.threshold);
+  return rule.operator === "lt" ? value < threshold : value > threshold;
+}
+
+async function notify(rule: AlertRule, incident: AlertIncident, event: AlertNotification["event"], value: number | null) {
+  if (rule.channelIds.length === 0) return;
+  const channels = (await storage.getAlertChannels(rule.workspaceId)).filter((channel) => rule.channelIds.includes(channel.id));
+  await sendAlertNotification(channels, { event, rule, incident, value });
+}
+
+// Advance a rule's state machine one step:
+//   ok -> pending when the condition starts to hold (or straight to firing when forMinutes is 0)
+//   pending -> firing once it has held for forMinutes; pending -> ok if it stops holding first
+//   firing -> ok when it stops holding, resolving the incident
+// Incidents are recorded while silenced, but no one is notified about them.
+export async function evaluateAlertRule(rule: AlertRule, now: Date = new Date()): Promise<AlertRule> {
+  const metrics = await storage.getAlertMetrics(rule.workspaceId, {
+    projectId: rule.projectId || undefined,
+    environment: rule.environment || undefined,
+    model: rule.model || undefined,
+    startDate: new Date(now.getTime() - rule.windowMinutes * MINUTE_MS),
+    endDate: now,
+  });
+  const value = getAlertMetricValue(rule.metric, metrics);
+  const valueText = value === null ? null : value.toFixed(6);
+  const conditionMet = value !== null && isAlertConditionMet(rule, value);
+
+  let state = rule.state;
+  let pendingSince = rule.pendingSince;
+
+  if (conditionMet && state !== "firing") {
+    pendingSince = pendingSince ?? now;
+    if (now.getTime() - pendingSince.getTime() >= rule.forMinutes * MINUTE_MS) {
+      const silence = await storage.getActiveAlertSilence(rule.workspaceId, rule.id, now);
+      const incident = await storage.createAlertIncident({
+        workspaceId: rule.workspaceId,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        metric: rule.metric,
+        operator: rule.operator,
+        threshold: rule.threshold,
+        value: value.toFixed(6),
+        silenced: !!silence,
+        firedAt: now,
+      });
+      state = "firing";
+      pendingSince = null;
+      if (!silence) {
+        await notify(rule, incident, "alert.firing", value);
+      }
+    } else {
+      state = "pending";
+    }
+  } else if (!conditionMet && state !== "ok") {
+    if (state === "firing") {
+      const resolved = await storage.resolveAlertIncidents(rule.id, now, valueText);
+      const silence = await storage.getActiveAlertSilence(rule.workspaceId, rule.id, now);
+      for (const incident of resolved) {
+        // Only incidents someone was told about get a resolution notice
+        if (!incident.silenced && !silence) {
+          await notify(rule, incident, "alert.resolved", value);
+        }
+      }
+    }
+    state = "ok";
+    pendingSince = null;
+  }
+
+  const updated = await storage.updateAlertRule(rule.id, {
+    state,
+    pendingSince,
+    lastValue: valueText,
+    lastEvaluatedAt: now,
+  });
+  return updated ?? rule;
+}
+
+// Put a rule back to "ok" after its condition was edited or it was disabled, closing any open
+// incident without notifying; the next evaluation starts from scratch.
+export async function resetAlertRule(rule: AlertRule, now: Date = new Date()): Promise<void> {
+  await storage.resolveAlertIncidents(rule.id, now);
+  await storage.updateAlertRule(rule.id, { state: "ok", pendingSince: null, lastValue: null, lastEvaluatedAt: null });
+}
+
+export async function evaluateAllAlertRules(now: Date = new Date()): Promise<void> {
+  const rules = await storage.getEnabledAlertRules();
+
+  for (const rule of rules) {
+    try {
+      await evaluateAlertRule(rule, now);
+    } catch (error) {
+      console.error(`Failed to evaluate alert rule ${rule.id}:`, error);
+    }
+  }
+}
+
+export function startAlertEvaluator(intervalMs: number = ALERT_EVALUATION_INTERVAL) {
+  if (evaluatorTimer) return;
+
+  evaluatorTimer = setInterval(() => {
+    // A slow pass must not overlap the next one, or a transition could be applied twice
+    if (evaluatorRunning) return;
+    evaluatorRunning = true;
+    evaluateAllAlertRules()
+      .catch((error) => {
+        console.error("Alert evaluation failed:", error);
+      })
+      .finally(() => {
+        evaluatorRunning = false;
+      });
+  }, intervalMs);
+  evaluatorTimer.unref();
+}
+
+export function stopAlertEvaluator() {
+  if (evaluatorTimer) {
+    clearInterval(evaluatorTimer);
+    evaluatorTimer = null;
+  }
+}
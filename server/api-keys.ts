@@ -0,0 +1,64 @@
+import { createHash, randomBytes } from "crypto";
+import { storage } from "./storage";
+import type { ApiKey, ApiKeyScope, ApiKeySummary } from "@shared/schema";
+
+const API_KEY_PREFIX = "ak_";
+// Characters of the key kept in plaintext so users can tell keys apart
+export const VISIBLE_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+// Generate a new key with 192 bits of entropy. Only the hash and prefix are persisted.
+export function generateApiKey(): { key: string; keyHash: string; keyPrefix: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  return {
+    key,
+    keyHash: hashApiKey(key),
+    keyPrefix: key.substring(0, VISIBLE_PREFIX_LENGTH),
+  };
+}
+
+export function toApiKeySummary({ keyHash, ...apiKey }: ApiKey): ApiKeySummary {
+  return apiKey;
+}
+
+export function hasApiKeyScope(apiKey: ApiKey, scope: ApiKeyScope): boolean {
+  return apiKey.scopes.includes(scope) || apiKey.scopes.includes("admin");
+}
+
+// Returns a function that checks an ingested log against the key's project and environment
+// binding, filling them in when omitted. Project lookups are cached for the whole batch.
+export function createIngestScopeResolver(apiKey: ApiKey) {
+  const projectCache = new Map<string, Promise<boolean>>();
+
+  const projectInWorkspace = (projectId: string) => {
+    let check = projectCache.get(projectId);
+    if (!check) {
+      check = storage.getProject(projectId).then((project) => project?.workspaceId === apiKey.workspaceId);
+      projectCache.set(projectId, check);
+    }
+    return check;
+  };
+
+  return async <T extends { projectId?: string | null; environment?: string }>(data: T): Promise<T> => {
+    if (apiKey.projectId && data.projectId && data.projectId !== apiKey.projectId) {
+      throw new Error(`API key is restricted to project ${apiKey.projectId}`);
+    }
+    if (apiKey.environment && data.environment && data.environment !== apiKey.environment) {
+      throw new Error(`API key is restricted to the "${apiKey.environment}" environment`);
+    }
+
+    const projectId = apiKey.projectId || data.projectId;
+    if (projectId && !apiKey.projectId && !(await projectInWorkspace(projectId))) {
+      throw new Error("Project does not belong to this workspace");
+    }
+
+    return {
+      ...data,
+      ...(projectId && { projectId }),
+      ...(apiKey.environment && { environment: apiKey.environment }),
+    };
+  };
+}
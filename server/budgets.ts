@@ -0,0 +1,105 @@
+import { storage } from "./storage";
+import { emitWebhookEvent } from "./webhooks";
+import type { Budget, BudgetAlert, BudgetStatus } from "@shared/schema";
+
+// How often the background evaluator compares spend against budgets
+const BUDGET_EVALUATION_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
+let evaluatorTimer: NodeJS.Timeout | null = null;
+
+// Start of the budget's current period in UTC (weeks start on Monday)
+export function getBudgetPeriodStart(period: string, now: Date = new Date()): Date {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+  if (period === "weekly") {
+    const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+    start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+  } else if (period === "monthly") {
+    start.setUTCDate(1);
+  }
+
+  return start;
+}
+
+export async function getBudgetStatus(budget: Budget, now: Date = new Date()): Promise<BudgetStatus> {
+  const periodStart = getBudgetPeriodStart(budget.period, now);
+
+  const summary = await storage.getTelemetrySummary(budget.workspaceId, {
+    projectId: budget.scope === "project" ? budget.projectId || undefined : undefined,
+    environment: budget.scope === "environment" ? budget.environment || undefined : undefined,
+    startDate: periodStart,
+  });
+
+  const amount = parseFloat(budget.amount);
+  return {
+    ...budget,
+    periodStart: periodStart.toISOString(),
+    spend: summary.totalCost,
+    percentUsed: amount > 0 ? (summary.totalCost / amount) * 100 : 0,
+  };
+}
+
+// Record an alert for every threshold the budget has crossed this period.
+// Returns only alerts that are new, so each crossing is reported (and sent to webhooks) once.
+export async function evaluateBudget(budget: Budget, now: Date = new Date()): Promise<BudgetAlert[]> {
+  const status = await getBudgetStatus(budget, now);
+  const crossed = budget.thresholds.filter((threshold) => status.percentUsed >= threshold);
+
+  const alerts: BudgetAlert[] = [];
+  for (const threshold of crossed) {
+    const alert = await storage.createBudgetAlert({
+      budgetId: budget.id,
+      workspaceId: budget.workspaceId,
+      threshold,
+      periodStart: new Date(status.periodStart),
+      spend: status.spend.toFixed(6),
+      amount: budget.amount,
+    });
+    if (alert) {
+      alerts.push(alert);
+      await emitWebhookEvent(budget.workspaceId, "budget.threshold_crossed", {
+        budget: { id: budget.id, name: budget.name, scope: budget.scope, period: budget.period },
+        threshold: alert.threshold,
+        periodStart: status.periodStart,
+        spend: status.spend,
+        amount: parseFloat(budget.amount),
+        percentUsed: status.percentUsed,
+      });
+    }
+  }
+
+  return alerts;
+}
+
+export async function evaluateAllBudgets(): Promise<BudgetAlert[]> {
+  const allBudgets = await storage.getAllBudgets();
+  const alerts: BudgetAlert[] = [];
+
+  for (const budget of allBudgets) {
+    try {
+      alerts.push(...(await evaluateBudget(budget)));
+    } catch (error) {
+      console.error(`Failed to evaluate budget ${budget.id}:`, error);
+    }
+  }
+
+  return alerts;
+}
+
+export function startBudgetEvaluator(intervalMs: number = BUDGET_EVALUATION_INTERVAL) {
+  if (evaluatorTimer) return;
+
+  evaluatorTimer = setInterval(() => {
+    evaluateAllBudgets().catch((error) => {
+      console.error("Budget evaluation failed:", error);
+    });
+  }, intervalMs);
+  evaluatorTimer.unref();
+}
+
+export function stopBudgetEvaluator() {
+  if (evaluatorTimer) {
+    clearInterval(evaluatorTimer);
+    evaluatorTimer = null;
+  }
+}
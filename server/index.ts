@@ -1,6 +1,12 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startBudgetEvaluator } from "./budgets";
+import { startAlertEvaluator } from "./alerts";
+import { startRetentionWorker } from "./retention";
+import { startPartitionMaintenance } from "./partitions";
+import { startWebhookWorker } from "./webhooks";
+import { startRateLimitDropFlusher } from "./rate-limit";
 import session from "express-session";
 import MongoStore from "connect-mongo";
 
@@ -30,6 +36,7 @@ declare module 'http' {
 }
 
 app.use(express.json({
+  limit: "5mb", // Allow batch telemetry ingestion payloads
   verify: (req, _res, buf) => {
     req.rawBody = buf;
   }
@@ -90,4 +97,12 @@ app.use((req, res, next) => {
   server.listen(port, "0.0.0.0", () => {
     log(`serving on port ${port}`);
   });
+
+  // --- Background Jobs ---
+  startBudgetEvaluator();
+  startAlertEvaluator();
+  startWebhookWorker();
+  startRateLimitDropFlusher();
+  startRetentionWorker();
+  startPartitionMaintenance();
 })();
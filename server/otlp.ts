@@ -0,0 +1,453 @@
+// OTLP/HTTP trace ingestion: decodes ExportTraceServiceRequest payloads (JSON or protobuf)
+// and maps spans that follow the OpenTelemetry GenAI semantic conventions to telemetry logs.
+import type { IngestTelemetryLog, TelemetrySpanKind } from "@shared/schema";
+
+export interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: bigint;
+  endTimeUnixNano: bigint;
+  attributes: Record<string, unknown>;
+  resourceAttributes: Record<string, unknown>;
+  events: { name: string; attributes: Record<string, unknown> }[];
+  status: { code: number; message: string };
+}
+
+// OTLP StatusCode
+const STATUS_CODE_ERROR = 2;
+
+// ==================== Protobuf decoding ====================
+// Minimal wire-format reader covering the messages used by opentelemetry/proto/trace/v1
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+class ProtobufReader {
+  private offset = 0;
+
+  constructor(private buffer: Buffer) {}
+
+  get done(): boolean {
+    return this.offset >= this.buffer.length;
+  }
+
+  varint(): bigint {
+    let result = BigInt(0);
+    let shift = BigInt(0);
+    while (true) {
+      if (this.offset >= this.buffer.length) {
+        throw new Error("Truncated protobuf varint");
+      }
+      const byte = this.buffer[this.offset++];
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) return result;
+      shift += BigInt(7);
+    }
+  }
+
+  tag(): { field: number; wireType: number } {
+    const tag = Number(this.varint());
+    return { field: tag >>> 3, wireType: tag & 0x7 };
+  }
+
+  bytes(): Buffer {
+    const length = Number(this.varint());
+    if (this.offset + length > this.buffer.length) {
+      throw new Error("Truncated protobuf field");
+    }
+    const bytes = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  string(): string {
+    return this.bytes().toString("utf8");
+  }
+
+  fixed64(): bigint {
+    const value = this.buffer.readBigUInt64LE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  double(): number {
+    const value = this.buffer.readDoubleLE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  skip(wireType: number) {
+    if (wireType === WIRE_VARINT) this.varint();
+    else if (wireType === WIRE_FIXED64) this.offset += 8;
+    else if (wireType === WIRE_LENGTH_DELIMITED) this.bytes();
+    else if (wireType === WIRE_FIXED32) this.offset += 4;
+    else throw new Error(`Unsupported protobuf wire type ${wireType}`);
+  }
+}
+
+// Calls onField for every field in a message; unknown fields must be skipped by the callback
+function readMessage(buffer: Buffer, onField: (reader: ProtobufReader, field: number, wireType: number) => void) {
+  const reader = new ProtobufReader(buffer);
+  while (!reader.done) {
+    const { field, wireType } = reader.tag();
+    onField(reader, field, wireType);
+  }
+}
+
+function decodeAnyValue(buffer: Buffer): unknown {
+  let value: unknown = null;
+  readMessage(buffer, (reader, field, wireType) => {
+    if (field === 1 && wireType === WIRE_LENGTH_DELIMITED) value = reader.string();
+    else if (field === 2 && wireType === WIRE_VARINT) value = reader.varint() !== BigInt(0);
+    else if (field === 3 && wireType === WIRE_VARINT) value = Number(BigInt.asIntN(64, reader.varint()));
+    else if (field === 4 && wireType === WIRE_FIXED64) value = reader.double();
+    else if (field === 5 && wireType === WIRE_LENGTH_DELIMITED) {
+      const values: unknown[] = [];
+      readMessage(reader.bytes(), (arrayReader, arrayField, arrayWireType) => {
+        if (arrayField === 1 && arrayWireType === WIRE_LENGTH_DELIMITED) values.push(decodeAnyValue(arrayReader.bytes()));
+        else arrayReader.skip(arrayWireType);
+      });
+      value = values;
+    } else if (field === 6 && wireType === WIRE_LENGTH_DELIMITED) {
+      const values: Record<string, unknown> = {};
+      readMessage(reader.bytes(), (listReader, listField, listWireType) => {
+        if (listField === 1 && listWireType === WIRE_LENGTH_DELIMITED) decodeKeyValue(listReader.bytes(), values);
+        else listReader.skip(listWireType);
+      });
+      value = values;
+    } else if (field === 7 && wireType === WIRE_LENGTH_DELIMITED) value = reader.bytes().toString("base64");
+    else reader.skip(wireType);
+  });
+  return value;
+}
+
+function decodeKeyValue(buffer: Buffer, target: Record<string, unknown>) {
+  let key = "";
+  let value: unknown = null;
+  readMessage(buffer, (reader, field, wireType) => {
+    if (field === 1 && wireType === WIRE_LENGTH_DELIMITED) key = reader.string();
+    else if (field === 2 && wireType === WIRE_LENGTH_DELIMITED) value = decodeAnyValue(reader.bytes());
+    else reader.skip(wireType);
+  });
+  if (key) target[key] = value;
+}
+
+// Resource, Span.Event and InstrumentationScope all keep attributes in a repeated KeyValue field
+function decodeAttributes(buffer: Buffer, attributesField: number): Record<string, unknown> {
+  const attributes: Record<string, unknown> = {};
+  readMessage(buffer, (reader, field, wireType) => {
+    if (field === attributesField && wireType === WIRE_LENGTH_DELIMITED) decodeKeyValue(reader.bytes(), attributes);
+    else reader.skip(wireType);
+  });
+  return attributes;
+}
+
+function decodeSpan(buffer: Buffer, resourceAttributes: Record<string, unknown>): OtlpSpan {
+  const span: OtlpSpan = {
+    traceId: "",
+    spanId: "",
+    parentSpanId: "",
+    name: "",
+    kind: 0,
+    startTimeUnixNano: BigInt(0),
+    endTimeUnixNano: BigInt(0),
+    attributes: {},
+    resourceAttributes,
+    events: [],
+    status: { code: 0, message: "" },
+  };
+
+  readMessage(buffer, (reader, field, wireType) => {
+    if (field === 1 && wireType === WIRE_LENGTH_DELIMITED) span.traceId = reader.bytes().toString("hex");
+    else if (field === 2 && wireType === WIRE_LENGTH_DELIMITED) span.spanId = reader.bytes().toString("hex");
+    else if (field === 4 && wireType === WIRE_LENGTH_DELIMITED) span.parentSpanId = reader.bytes().toString("hex");
+    else if (field === 5 && wireType === WIRE_LENGTH_DELIMITED) span.name = reader.string();
+    else if (field === 6 && wireType === WIRE_VARINT) span.kind = Number(reader.varint());
+    else if (field === 7 && wireType === WIRE_FIXED64) span.startTimeUnixNano = reader.fixed64();
+    else if (field === 8 && wireType === WIRE_FIXED64) span.endTimeUnixNano = reader.fixed64();
+    else if (field === 9 && wireType === WIRE_LENGTH_DELIMITED) decodeKeyValue(reader.bytes(), span.attributes);
+    else if (field === 11 && wireType === WIRE_LENGTH_DELIMITED) {
+      const event = { name: "", attributes: {} as Record<string, unknown> };
+      readMessage(reader.bytes(), (eventReader, eventField, eventWireType) => {
+        if (eventField === 2 && eventWireType === WIRE_LENGTH_DELIMITED) event.name = eventReader.string();
+        else if (eventField === 3 && eventWireType === WIRE_LENGTH_DELIMITED) decodeKeyValue(eventReader.bytes(), event.attributes);
+        else eventReader.skip(eventWireType);
+      });
+      span.events.push(event);
+    } else if (field === 15 && wireType === WIRE_LENGTH_DELIMITED) {
+      readMessage(reader.bytes(), (statusReader, statusField, statusWireType) => {
+        if (statusField === 2 && statusWireType === WIRE_LENGTH_DELIMITED) span.status.message = statusReader.string();
+        else if (statusField === 3 && statusWireType === WIRE_VARINT) span.status.code = Number(statusReader.varint());
+        else statusReader.skip(statusWireType);
+      });
+    } else reader.skip(wireType);
+  });
+
+  return span;
+}
+
+export function decodeOtlpProtobuf(buffer: Buffer): OtlpSpan[] {
+  const spans: OtlpSpan[] = [];
+
+  // ExportTraceServiceRequest.resource_spans = 1
+  readMessage(buffer, (reader, field, wireType) => {
+    if (field !== 1 || wireType !== WIRE_LENGTH_DELIMITED) return reader.skip(wireType);
+
+    // ResourceSpans: resource = 1, scope_spans = 2
+    let resourceAttributes: Record<string, unknown> = {};
+    const scopeSpans: Buffer[] = [];
+    readMessage(reader.bytes(), (resourceReader, resourceField, resourceWireType) => {
+      if (resourceField === 1 && resourceWireType === WIRE_LENGTH_DELIMITED) {
+        resourceAttributes = decodeAttributes(resourceReader.bytes(), 1);
+      } else if (resourceField === 2 && resourceWireType === WIRE_LENGTH_DELIMITED) {
+        scopeSpans.push(resourceReader.bytes());
+      } else resourceReader.skip(resourceWireType);
+    });
+
+    // ScopeSpans: spans = 2
+    for (const scope of scopeSpans) {
+      readMessage(scope, (scopeReader, scopeField, scopeWireType) => {
+        if (scopeField === 2 && scopeWireType === WIRE_LENGTH_DELIMITED) spans.push(decodeSpan(scopeReader.bytes(), resourceAttributes));
+        else scopeReader.skip(scopeWireType);
+      });
+    }
+  });
+
+  return spans;
+}
+
+// ExportTraceServiceResponse { partial_success = 1 { rejected_spans = 1; error_message = 2 } }
+export function encodeOtlpProtobufResponse(rejectedSpans: number, errorMessage: string): Buffer {
+  if (rejectedSpans === 0) return Buffer.alloc(0);
+
+  const varint = (value: number) => {
+    const bytes: number[] = [];
+    while (value > 0x7f) {
+      bytes.push((value & 0x7f) | 0x80);
+      value = Math.floor(value / 128);
+    }
+    bytes.push(value);
+    return Buffer.from(bytes);
+  };
+  const message = Buffer.from(errorMessage, "utf8");
+  const partialSuccess = Buffer.concat([
+    Buffer.from([0x08]), varint(rejectedSpans),
+    Buffer.from([0x12]), varint(message.length), message,
+  ]);
+  return Buffer.concat([Buffer.from([0x0a]), varint(partialSuccess.length), partialSuccess]);
+}
+
+// ==================== JSON decoding ====================
+// OTLP/JSON uses lowerCamelCase field names, hex-encoded ids and 64-bit integers as strings
+
+function parseJsonAnyValue(value: any): unknown {
+  if (!value || typeof value !== "object") return null;
+  if ("stringValue" in value) return value.stringValue;
+  if ("boolValue" in value) return value.boolValue;
+  if ("intValue" in value) return Number(value.intValue);
+  if ("doubleValue" in value) return Number(value.doubleValue);
+  if ("arrayValue" in value) return (value.arrayValue?.values || []).map(parseJsonAnyValue);
+  if ("kvlistValue" in value) return parseJsonAttributes(value.kvlistValue?.values);
+  if ("bytesValue" in value) return value.bytesValue;
+  return null;
+}
+
+function parseJsonAttributes(attributes: any): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  if (!Array.isArray(attributes)) return result;
+  for (const attribute of attributes) {
+    if (attribute && typeof attribute.key === "string") {
+      result[attribute.key] = parseJsonAnyValue(attribute.value);
+    }
+  }
+  return result;
+}
+
+function parseJsonNanos(value: unknown): bigint {
+  try {
+    return BigInt(typeof value === "number" ? Math.trunc(value) : String(value ?? "0"));
+  } catch {
+    return BigInt(0);
+  }
+}
+
+export function parseOtlpJson(body: any): OtlpSpan[] {
+  if (!body || !Array.isArray(body.resourceSpans)) {
+    throw new Error("Expected an ExportTraceServiceRequest with resourceSpans");
+  }
+
+  const spans: OtlpSpan[] = [];
+  for (const resourceSpans of body.resourceSpans) {
+    const resourceAttributes = parseJsonAttributes(resourceSpans?.resource?.attributes);
+    for (const scopeSpans of resourceSpans?.scopeSpans || []) {
+      for (const span of scopeSpans?.spans || []) {
+        spans.push({
+          traceId: String(span.traceId || "").toLowerCase(),
+          spanId: String(span.spanId || "").toLowerCase(),
+          parentSpanId: String(span.parentSpanId || "").toLowerCase(),
+          name: String(span.name || ""),
+          kind: Number(span.kind) || 0,
+          startTimeUnixNano: parseJsonNanos(span.startTimeUnixNano),
+          endTimeUnixNano: parseJsonNanos(span.endTimeUnixNano),
+          attributes: parseJsonAttributes(span.attributes),
+          resourceAttributes,
+          events: (span.events || []).map((event: any) => ({
+            name: String(event?.name || ""),
+            attributes: parseJsonAttributes(event?.attributes),
+          })),
+          status: {
+            code: Number(span.status?.code) || 0,
+            message: String(span.status?.message || ""),
+          },
+        });
+      }
+    }
+  }
+  return spans;
+}
+
+// ==================== GenAI span mapping ====================
+
+const asNumber = (value: unknown): number | undefined =>
+  typeof value === "number" && isFinite(value) ? value : undefined;
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === "string" && value ? value : undefined;
+
+function firstNumber(attributes: Record<string, unknown>, keys: string[]): number | undefined {
+  for (const key of keys) {
+    const value = asNumber(attributes[key]);
+    if (value !== undefined) return value;
+  }
+  return undefined;
+}
+
+function stringify(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+// Prompt and completion text can arrive as attributes (current and legacy conventions) or as span events
+function extractMessages(span: OtlpSpan, direction: "input" | "output"): string {
+  const attributeKeys = direction === "input"
+    ? ["gen_ai.input.messages", "gen_ai.prompt"]
+    : ["gen_ai.output.messages", "gen_ai.completion"];
+  for (const key of attributeKeys) {
+    if (span.attributes[key] !== undefined && span.attributes[key] !== null) {
+      return stringify(span.attributes[key]);
+    }
+  }
+
+  const eventNames = direction === "input"
+    ? ["gen_ai.system.message", "gen_ai.user.message", "gen_ai.assistant.message", "gen_ai.tool.message"]
+    : ["gen_ai.choice"];
+  const contents = span.events
+    .filter((event) => eventNames.includes(event.name))
+    .map((event) => event.attributes.content ?? event.attributes.message ?? event.attributes.body)
+    .filter((content) => content !== undefined && content !== null)
+    .map(stringify);
+  return contents.join("\n");
+}
+
+// Operations that are steps around model calls rather than model calls themselves
+const TOOL_OPERATIONS = ["execute_tool"];
+const CHAIN_OPERATIONS = ["invoke_agent", "create_agent"];
+
+function spanKind(span: OtlpSpan): TelemetrySpanKind {
+  const operation = asString(span.attributes["gen_ai.operation.name"]) || "";
+  if (TOOL_OPERATIONS.includes(operation)) return "tool";
+  if (CHAIN_OPERATIONS.includes(operation)) return "chain";
+  return "llm";
+}
+
+export function isGenAiSpan(span: OtlpSpan): boolean {
+  return !!(asString(span.attributes["gen_ai.request.model"]) || asString(span.attributes["gen_ai.response.model"]))
+    || spanKind(span) !== "llm";
+}
+
+// Error details of a failed span, from the error.type and HTTP status attributes and any recorded exception
+function spanError(span: OtlpSpan): Pick<IngestTelemetryLog, "errorType" | "errorHttpStatus" | "errorMessage"> {
+  const exception = span.events.find((event) => event.name === "exception")?.attributes ?? {};
+  const errorType = asString(span.attributes["error.type"]) || asString(exception["exception.type"]);
+  const errorMessage = span.status.message || asString(exception["exception.message"]);
+  const httpStatus = firstNumber(span.attributes, ["http.response.status_code", "http.status_code"]);
+  const errorHttpStatus = httpStatus !== undefined && Number.isInteger(httpStatus) && httpStatus >= 400 && httpStatus <= 599
+    ? httpStatus
+    : undefined;
+
+  return {
+    ...(errorType && { errorType }),
+    ...(errorHttpStatus !== undefined && { errorHttpStatus }),
+    ...(errorMessage && { errorMessage: errorMessage.substring(0, 10000) }),
+  };
+}
+
+// Map a GenAI span to an ingest payload; cost is left to the pricing catalog
+export function mapGenAiSpan(span: OtlpSpan, workspaceId: string): Omit<IngestTelemetryLog, "cost"> {
+  const attributes = span.attributes;
+  const kind = spanKind(span);
+  const model = asString(attributes["gen_ai.response.model"]) || asString(attributes["gen_ai.request.model"]) || kind;
+  const name = asString(attributes["gen_ai.tool.name"]) || asString(attributes["gen_ai.agent.name"]) || span.name;
+
+  const promptTokens = firstNumber(attributes, ["gen_ai.usage.input_tokens", "gen_ai.usage.prompt_tokens"]) || 0;
+  const completionTokens = firstNumber(attributes, ["gen_ai.usage.output_tokens", "gen_ai.usage.completion_tokens"]) || 0;
+  const cachedTokens = firstNumber(attributes, [
+    "gen_ai.usage.cache_read.input_tokens",
+    "gen_ai.usage.cache_read_input_tokens",
+  ]) || 0;
+  const cacheWriteTokens = firstNumber(attributes, [
+    "gen_ai.usage.cache_creation.input_tokens",
+    "gen_ai.usage.cache_creation_input_tokens",
+  ]) || 0;
+
+  const durationNanos = span.endTimeUnixNano > span.startTimeUnixNano
+    ? span.endTimeUnixNano - span.startTimeUnixNano
+    : BigInt(0);
+
+  const environment = asString(span.resourceAttributes["deployment.environment.name"])
+    || asString(span.resourceAttributes["deployment.environment"]);
+  const provider = asString(attributes["gen_ai.provider.name"]) || asString(attributes["gen_ai.system"]);
+  const sessionId = asString(attributes["session.id"]) || asString(attributes["gen_ai.conversation.id"]);
+  const endUserId = asString(attributes["user.id"]) || asString(attributes["enduser.id"]);
+
+  return {
+    workspaceId,
+    model,
+    prompt: kind === "tool" ? stringify(attributes["gen_ai.tool.call.arguments"] ?? "") : extractMessages(span, "input"),
+    response: kind === "tool" ? stringify(attributes["gen_ai.tool.call.result"] ?? "") : extractMessages(span, "output"),
+    latencyMs: Number(durationNanos / BigInt(1_000_000)),
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    cachedTokens,
+    cacheWriteTokens,
+    status: span.status.code === STATUS_CODE_ERROR ? "error" : "success",
+    ...(span.status.code === STATUS_CODE_ERROR && spanError(span)),
+    ...(provider && { provider }),
+    ...(environment && { environment }),
+    traceId: span.traceId,
+    spanId: span.spanId,
+    ...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+    kind,
+    name,
+    ...(sessionId && { sessionId }),
+    ...(endUserId && { endUserId }),
+    ...(span.startTimeUnixNano > BigInt(0) && {
+      startedAt: new Date(Number(span.startTimeUnixNano / BigInt(1_000_000))),
+    }),
+    metadata: {
+      source: "otlp",
+      ...(asString(attributes["gen_ai.system"]) && { system: attributes["gen_ai.system"] }),
+      ...(asString(attributes["gen_ai.operation.name"]) && { operation: attributes["gen_ai.operation.name"] }),
+      ...(attributes["gen_ai.response.finish_reasons"] !== undefined && {
+        finishReasons: attributes["gen_ai.response.finish_reasons"],
+      }),
+      ...(asString(span.resourceAttributes["service.name"]) && { serviceName: span.resourceAttributes["service.name"] }),
+      ...(span.status.message && { statusMessage: span.status.message }),
+    },
+  };
+}
@@ -0,0 +1,158 @@
+// Monthly range partitions for telemetry_logs. The parent table is partitioned by `timestamp`
+// (see server/scripts/partition-telemetry-logs.ts for the one-time conversion); this module keeps
+// partitions created ahead of time and drops whole months once they fall out of retention.
+import { sql } from "drizzle-orm";
+import { db } from "./db";
+
+const PARENT_TABLE = "telemetry_logs";
+const PARTITION_PREFIX = `${PARENT_TABLE}_p`;
+// Catches rows outside every monthly range (e.g. backfilled history) so inserts never fail
+export const DEFAULT_PARTITION = `${PARENT_TABLE}_default`;
+
+// Months created beyond the current one, so a missed maintenance run cannot block ingestion
+export const PARTITION_MONTHS_AHEAD = 3;
+
+// How often partitions are created and expired
+const PARTITION_MAINTENANCE_INTERVAL = 24 * 60 * 60 * 1000; // 1 day
+
+let maintenanceTimer: NodeJS.Timeout | null = null;
+
+// `db` or a transaction, so the one-time conversion can create partitions atomically with the table
+type SqlExecutor = Pick<typeof db, "execute">;
+
+export interface TelemetryPartition {
+  name: string;
+  from: Date; // Inclusive
+  to: Date; // Exclusive
+}
+
+export function monthStart(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+export function addMonths(date: Date, months: number): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+}
+
+export function partitionName(month: Date): string {
+  return `${PARTITION_PREFIX}${month.getUTCFullYear()}${String(month.getUTCMonth() + 1).padStart(2, "0")}`;
+}
+
+// timestamp columns are stored without time zone, in UTC
+function boundLiteral(date: Date): string {
+  return date.toISOString().slice(0, 19).replace("T", " ");
+}
+
+// Months whose data is older than the platform-wide retention (TELEMETRY_RETENTION_MONTHS, unset = forever)
+export function getPartitionRetentionCutoff(now: Date = new Date()): Date | null {
+  const months = parseInt(process.env.TELEMETRY_RETENTION_MONTHS || "", 10);
+  if (isNaN(months) || months < 1) return null;
+  return addMonths(monthStart(now), -months);
+}
+
+export async function isTelemetryPartitioned(): Promise<boolean> {
+  const result = await db.execute<{ partitioned: boolean }>(
+    sql`select exists (select 1 from pg_partitioned_table where partrelid = to_regclass(${PARENT_TABLE})) as partitioned`
+  );
+  return !!result.rows[0]?.partitioned;
+}
+
+// Monthly partitions currently attached, oldest first (the default partition is not included)
+export async function listTelemetryPartitions(
+  executor: SqlExecutor = db,
+  parent: string = PARENT_TABLE
+): Promise<TelemetryPartition[]> {
+  const result = await executor.execute<{ name: string }>(sql`
+    select c.relname as name
+    from pg_inherits i
+    join pg_class c on c.oid = i.inhrelid
+    where i.inhparent = to_regclass(${parent})
+  `);
+
+  return result.rows
+    .map(({ name }) => {
+      const match = name.match(new RegExp(`^${PARTITION_PREFIX}(\\d{4})(\\d{2})$`));
+      if (!match) return null;
+      const from = new Date(Date.UTC(parseInt(match[1], 10), parseInt(match[2], 10) - 1, 1));
+      return { name, from, to: addMonths(from, 1) };
+    })
+    .filter((partition): partition is TelemetryPartition => partition !== null)
+    .sort((a, b) => a.from.getTime() - b.from.getTime());
+}
+
+// Create any missing monthly partitions from `from` (default: this month) through PARTITION_MONTHS_AHEAD.
+// `parent` lets the one-time conversion fill a staging table; partitions keep telemetry_logs names.
+export async function ensureTelemetryPartitions(
+  now: Date = new Date(),
+  from?: Date,
+  executor: SqlExecutor = db,
+  parent: string = PARENT_TABLE
+): Promise<string[]> {
+  const created: string[] = [];
+  const last = addMonths(monthStart(now), PARTITION_MONTHS_AHEAD);
+  const existing = new Set((await listTelemetryPartitions(executor, parent)).map((partition) => partition.name));
+
+  for (let month = monthStart(from ?? now); month <= last; month = addMonths(month, 1)) {
+    const name = partitionName(month);
+    if (existing.has(name)) continue;
+    await executor.execute(sql.raw(
+      `create table if not exists "${name}" partition of "${parent}" ` +
+      `for values from ('${boundLiteral(month)}') to ('${boundLiteral(addMonths(month, 1))}')`
+    ));
+    created.push(name);
+  }
+
+  await executor.execute(sql.raw(`create table if not exists "${DEFAULT_PARTITION}" partition of "${parent}" default`));
+  return created;
+}
+
+// Drop monthly partitions that end on or before the cutoff; never touches the current month
+export async function dropTelemetryPartitionsBefore(cutoff: Date, now: Date = new Date()): Promise<string[]> {
+  const limit = Math.min(cutoff.getTime(), monthStart(now).getTime());
+  const expired = (await listTelemetryPartitions()).filter((partition) => partition.to.getTime() <= limit);
+
+  for (const partition of expired) {
+    // Detaching first keeps the lock on the parent short; the drop then only locks the partition
+    await db.execute(sql.raw(`alter table "${PARENT_TABLE}" detach partition "${partition.name}"`));
+    await db.execute(sql.raw(`drop table "${partition.name}"`));
+  }
+
+  return expired.map((partition) => partition.name);
+}
+
+export async function maintainTelemetryPartitions(now: Date = new Date()): Promise<{ created: string[]; dropped: string[] }> {
+  if (!(await isTelemetryPartitioned())) {
+    return { created: [], dropped: [] };
+  }
+
+  const created = await ensureTelemetryPartitions(now);
+  const cutoff = getPartitionRetentionCutoff(now);
+  const dropped = cutoff ? await dropTelemetryPartitionsBefore(cutoff, now) : [];
+
+  if (created.length > 0 || dropped.length > 0) {
+    console.log(`Telemetry partitions: created [${created.join(", ")}], dropped [${dropped.join(", ")}]`);
+  }
+  return { created, dropped };
+}
+
+export function startPartitionMaintenance(intervalMs: number = PARTITION_MAINTENANCE_INTERVAL) {
+  if (maintenanceTimer) return;
+
+  const run = () => {
+    maintainTelemetryPartitions().catch((error) => {
+      console.error("Telemetry partition maintenance failed:", error);
+    });
+  };
+
+  // Run once at startup so a fresh deploy has next month's partition before the first tick
+  run();
+  maintenanceTimer = setInterval(run, intervalMs);
+  maintenanceTimer.unref();
+}
+
+export function stopPartitionMaintenance() {
+  if (maintenanceTimer) {
+    clearInterval(maintenanceTimer);
+    maintenanceTimer = null;
+  }
+}
@@ -0,0 +1,102 @@
+import { storage } from "./storage";
+import type { ModelPrice, InsertModelPrice, IngestTelemetryLog, InsertTelemetryLog } from "@shared/schema";
+
+// Global catalog seeded on startup when no global prices exist (USD per 1M tokens)
+const DEFAULT_EFFECTIVE_FROM = new Date("2024-01-01T00:00:00Z");
+
+export const DEFAULT_MODEL_PRICES: Omit<InsertModelPrice, "workspaceId" | "effectiveFrom">[] = [
+  { model: "gpt-4o", inputPrice: "2.50", outputPrice: "10.00", cachedInputPrice: "1.25" },
+  { model: "gpt-4o-mini", inputPrice: "0.15", outputPrice: "0.60", cachedInputPrice: "0.075" },
+  { model: "gpt-4-turbo", inputPrice: "10.00", outputPrice: "30.00" },
+  { model: "gpt-4", inputPrice: "30.00", outputPrice: "60.00" },
+  { model: "gpt-3.5-turbo", inputPrice: "0.50", outputPrice: "1.50" },
+  { model: "o1", inputPrice: "15.00", outputPrice: "60.00", cachedInputPrice: "7.50" },
+  { model: "o1-mini", inputPrice: "1.10", outputPrice: "4.40", cachedInputPrice: "0.55" },
+  { model: "claude-3-5-sonnet-20241022", inputPrice: "3.00", outputPrice: "15.00", cachedInputPrice: "0.30", cacheWriteInputPrice: "3.75" },
+  { model: "claude-3-5-haiku-20241022", inputPrice: "0.80", outputPrice: "4.00", cachedInputPrice: "0.08", cacheWriteInputPrice: "1.00" },
+  { model: "claude-3-opus-20240229", inputPrice: "15.00", outputPrice: "75.00", cachedInputPrice: "1.50", cacheWriteInputPrice: "18.75" },
+  { model: "claude-3-haiku-20240307", inputPrice: "0.25", outputPrice: "1.25", cachedInputPrice: "0.03", cacheWriteInputPrice: "0.30" },
+  { model: "gemini-1.5-pro", inputPrice: "1.25", outputPrice: "5.00" },
+  { model: "gemini-1.5-flash", inputPrice: "0.075", outputPrice: "0.30" },
+];
+
+// Client-sent costs within this tolerance of the catalog are not flagged
+const COST_MISMATCH_ABSOLUTE = 0.000001;
+const COST_MISMATCH_RELATIVE = 0.01;
+
+export async function seedDefaultModelPrices(): Promise<void> {
+  const existing = await storage.getGlobalModelPrices();
+  if (existing.length > 0) return;
+
+  await storage.createModelPrices(
+    DEFAULT_MODEL_PRICES.map((price) => ({
+      ...price,
+      workspaceId: null,
+      effectiveFrom: DEFAULT_EFFECTIVE_FROM,
+    }))
+  );
+}
+
+export function computeCost(
+  price: ModelPrice,
+  usage: { promptTokens: number; completionTokens: number; cachedTokens?: number | null; cacheWriteTokens?: number | null }
+): number {
+  const cachedTokens = Math.min(usage.cachedTokens || 0, usage.promptTokens);
+  const cacheWriteTokens = Math.min(usage.cacheWriteTokens || 0, usage.promptTokens - cachedTokens);
+  const uncachedTokens = usage.promptTokens - cachedTokens - cacheWriteTokens;
+  const inputPrice = parseFloat(price.inputPrice);
+  const cachedInputPrice = price.cachedInputPrice !== null ? parseFloat(price.cachedInputPrice) : inputPrice;
+  const cacheWriteInputPrice = price.cacheWriteInputPrice !== null ? parseFloat(price.cacheWriteInputPrice) : inputPrice;
+
+  return (
+    uncachedTokens * inputPrice +
+    cachedTokens * cachedInputPrice +
+    cacheWriteTokens * cacheWriteInputPrice +
+    usage.completionTokens * parseFloat(price.outputPrice)
+  ) / 1_000_000;
+}
+
+export function costsDiffer(clientCost: number, catalogCost: number): boolean {
+  const tolerance = Math.max(COST_MISMATCH_ABSOLUTE, catalogCost * COST_MISMATCH_RELATIVE);
+  return Math.abs(clientCost - catalogCost) > tolerance;
+}
+
+// Returns a function that fills in catalog cost fields for ingested logs.
+// Price lookups are cached per model so a batch only hits the catalog once per model.
+export function createCostResolver(workspaceId: string) {
+  const priceCache = new Map<string, Promise<ModelPrice | undefined>>();
+
+  return async (data: IngestTelemetryLog): Promise<InsertTelemetryLog> => {
+    let pricePromise = priceCache.get(data.model);
+    if (!pricePromise) {
+      pricePromise = storage.findModelPrice(workspaceId, data.model, new Date());
+      priceCache.set(data.model, pricePromise);
+    }
+    const price = await pricePromise;
+
+    const catalogCost = price ? computeCost(price, data) : null;
+
+    if (data.cost === undefined || data.cost === null) {
+      // Tool, retrieval and chain spans are free unless the client reports a cost
+      if (catalogCost === null && data.kind && data.kind !== "llm") {
+        return { ...data, cost: "0", catalogCost: null, costMismatch: false };
+      }
+      if (catalogCost === null) {
+        throw new Error(`No cost provided and no catalog price for model "${data.model}"`);
+      }
+      return {
+        ...data,
+        cost: catalogCost.toFixed(6),
+        catalogCost: catalogCost.toFixed(6),
+        costMismatch: false,
+      };
+    }
+
+    return {
+      ...data,
+      cost: data.cost,
+      catalogCost: catalogCost !== null ? catalogCost.toFixed(6) : null,
+      costMismatch: catalogCost !== null && costsDiffer(parseFloat(data.cost), catalogCost),
+    };
+  };
+}
@@ -0,0 +1,148 @@
+import type { ProxyCapture, ProxyProvider, ProxyStreamParser } from "./proxy";
+
+const DEFAULT_UPSTREAM_URL = "https://api.anthropic.com/v1";
+
+// Only message creation is recorded; count_tokens, batches and models are forwarded without capture
+const CAPTURED_ENDPOINTS = new Set(["messages"]);
+
+// Content is a string or an array of blocks (text, image, tool_use, tool_result, ...)
+function contentToText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((block: any) => {
+      switch (block?.type) {
+        case "text":
+          return block.text || "";
+        case "tool_use":
+          return `${block.name || "tool"}(${JSON.stringify(block.input ?? {})})`;
+        case "tool_result":
+          return `[tool_result] ${contentToText(block.content)}`;
+        default:
+          return `[${block?.type || "content"}]`;
+      }
+    })
+    .filter(Boolean)
+    .join("\n");
+}
+
+function formatPrompt(body: any): string {
+  const parts: string[] = [];
+  const system = contentToText(body.system);
+  if (system) parts.push(`system: ${system}`);
+  if (Array.isArray(body.messages)) {
+    body.messages.forEach((message: any) => {
+      parts.push(`${message?.role || "user"}: ${contentToText(message?.content)}`);
+    });
+  }
+  return parts.join("\n\n");
+}
+
+// input_tokens excludes cache reads and writes, so they are added back to get the full prompt size
+function usageOf(usage: any): Pick<ProxyCapture, "promptTokens" | "completionTokens" | "cachedTokens" | "cacheWriteTokens"> {
+  const cachedTokens = usage?.cache_read_input_tokens ?? 0;
+  const cacheWriteTokens = usage?.cache_creation_input_tokens ?? 0;
+  return {
+    promptTokens: (usage?.input_tokens ?? 0) + cachedTokens + cacheWriteTokens,
+    completionTokens: usage?.output_tokens ?? 0,
+    cachedTokens,
+    cacheWriteTokens,
+  };
+}
+
+// Rebuilds the message from streamed events. message_start carries the input usage and
+// message_delta the cumulative output usage, so later values replace earlier ones.
+function createStreamParser(): ProxyStreamParser {
+  let model: string | undefined;
+  let responseId: string | undefined;
+  let stopReason: string | undefined;
+  let error: string | undefined;
+  let errorType: string | undefined;
+  let usage: any = {};
+  const blocks: any[] = [];
+  const partialJson: string[] = [];
+
+  return {
+    onEvent(data, event) {
+      const payload = JSON.parse(data);
+      switch (event || payload.type) {
+        case "message_start":
+          model = payload.message?.model;
+          responseId = payload.message?.id;
+          usage = { ...usage, ...payload.message?.usage };
+          break;
+        case "content_block_start":
+          blocks[payload.index] = { ...payload.content_block };
+          partialJson[payload.index] = "";
+          break;
+        case "content_block_delta": {
+          const block = blocks[payload.index];
+          if (!block) break;
+          if (payload.delta?.type === "text_delta") {
+            block.text = (block.text || "") + payload.delta.text;
+          } else if (payload.delta?.type === "input_json_delta") {
+            partialJson[payload.index] += payload.delta.partial_json || "";
+          }
+          break;
+        }
+        case "content_block_stop": {
+          const block = blocks[payload.index];
+          if (block?.type === "tool_use" && partialJson[payload.index]) {
+            try {
+              block.input = JSON.parse(partialJson[payload.index]);
+            } catch {
+              block.input = partialJson[payload.index];
+            }
+          }
+          break;
+        }
+        case "message_delta":
+          stopReason = payload.delta?.stop_reason || stopReason;
+          usage = { ...usage, ...payload.usage };
+          break;
+        case "error":
+          error = payload.error?.message || "Stream error";
+          errorType = payload.error?.type;
+          break;
+      }
+    },
+
+    finish() {
+      return {
+        model,
+        response: contentToText(blocks.filter(Boolean)),
+        ...usageOf(usage),
+        error,
+        errorType,
+        metadata: { responseId, stopReason },
+      };
+    },
+  };
+}
+
+export const anthropicProxyProvider: ProxyProvider = {
+  name: "anthropic",
+  upstreamBaseUrl: process.env.ANTHROPIC_PROXY_UPSTREAM_URL || DEFAULT_UPSTREAM_URL,
+
+  captures(endpoint) {
+    return CAPTURED_ENDPOINTS.has(endpoint);
+  },
+
+  describeRequest(_endpoint, body) {
+    return { model: String(body.model || "unknown"), prompt: formatPrompt(body) };
+  },
+
+  parseResponse(_endpoint, body) {
+    return {
+      model: body.model,
+      response: contentToText(body.content),
+      ...usageOf(body.usage),
+      metadata: {
+        responseId: body.id,
+        stopReason: body.stop_reason,
+      },
+    };
+  },
+
+  createStreamParser,
+};
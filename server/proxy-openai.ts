@@ -0,0 +1,154 @@
+import type { ProxyCapture, ProxyProvider, ProxyStreamParser } from "./proxy";
+
+// Anything that speaks the OpenAI API works as an upstream (OpenAI, Azure gateways, vLLM, ...)
+const DEFAULT_UPSTREAM_URL = "https://api.openai.com/v1";
+
+// Endpoints recorded as telemetry; everything else under the proxy is forwarded without capture
+const CAPTURED_ENDPOINTS = new Set(["chat/completions", "completions", "embeddings"]);
+
+interface ToolCall {
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+// Message content is a string or an array of parts; non-text parts are shown by type
+function contentToText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((part: any) => (typeof part?.text === "string" ? part.text : `[${part?.type || "content"}]`))
+    .join("");
+}
+
+function formatToolCalls(toolCalls: ToolCall[] | undefined): string {
+  if (!Array.isArray(toolCalls)) return "";
+  return toolCalls
+    .map((call) => `${call.function?.name || "tool"}(${call.function?.arguments || ""})`)
+    .join("\n");
+}
+
+function formatMessages(messages: unknown): string {
+  if (!Array.isArray(messages)) return "";
+  return messages
+    .map((message: any) => {
+      const text = [contentToText(message?.content), formatToolCalls(message?.tool_calls)]
+        .filter(Boolean)
+        .join("\n");
+      return `${message?.role || "user"}: ${text}`;
+    })
+    .join("\n\n");
+}
+
+function inputToText(input: unknown): string {
+  if (typeof input === "string") return input;
+  if (Array.isArray(input) && input.every((item) => typeof item === "string")) return input.join("\n");
+  return input === undefined ? "" : JSON.stringify(input);
+}
+
+function usageOf(usage: any): Pick<ProxyCapture, "promptTokens" | "completionTokens" | "cachedTokens"> {
+  return {
+    promptTokens: usage?.prompt_tokens ?? 0,
+    completionTokens: usage?.completion_tokens ?? 0,
+    cachedTokens: usage?.prompt_tokens_details?.cached_tokens ?? 0,
+  };
+}
+
+// Rebuilds the first choice from streamed chunks. Usage only arrives when the client
+// asked for it with stream_options.include_usage; the request is never modified to add it.
+function createStreamParser(endpoint: string): ProxyStreamParser {
+  let model: string | undefined;
+  let responseId: string | undefined;
+  let finishReason: string | undefined;
+  let text = "";
+  let usage: any = null;
+  const toolCalls: ToolCall[] = [];
+
+  return {
+    onEvent(data) {
+      if (data === "[DONE]") return;
+      const chunk = JSON.parse(data);
+
+      model = chunk.model || model;
+      responseId = chunk.id || responseId;
+      if (chunk.usage) usage = chunk.usage;
+
+      const choice = chunk.choices?.find((c: any) => (c.index ?? 0) === 0);
+      if (!choice) return;
+      if (choice.finish_reason) finishReason = choice.finish_reason;
+
+      if (endpoint === "completions") {
+        text += choice.text || "";
+        return;
+      }
+
+      text += contentToText(choice.delta?.content);
+      for (const delta of choice.delta?.tool_calls || []) {
+        const index = delta.index ?? toolCalls.length;
+        const call = toolCalls[index] || (toolCalls[index] = { function: { name: "", arguments: "" } });
+        if (delta.id) call.id = delta.id;
+        if (delta.function?.name) call.function!.name += delta.function.name;
+        if (delta.function?.arguments) call.function!.arguments += delta.function.arguments;
+      }
+    },
+
+    finish() {
+      return {
+        model,
+        response: [text, formatToolCalls(toolCalls.filter(Boolean))].filter(Boolean).join("\n"),
+        ...usageOf(usage),
+        metadata: {
+          responseId,
+          finishReason,
+          ...(!usage && { usageMissing: true }),
+        },
+      };
+    },
+  };
+}
+
+export const openAIProxyProvider: ProxyProvider = {
+  name: "openai",
+  upstreamBaseUrl: process.env.OPENAI_PROXY_UPSTREAM_URL || DEFAULT_UPSTREAM_URL,
+
+  captures(endpoint) {
+    return CAPTURED_ENDPOINTS.has(endpoint);
+  },
+
+  describeRequest(endpoint, body) {
+    let prompt: string;
+    if (endpoint === "chat/completions") {
+      prompt = formatMessages(body.messages);
+    } else if (endpoint === "completions") {
+      prompt = inputToText(body.prompt);
+    } else {
+      prompt = inputToText(body.input);
+    }
+    return { model: String(body.model || "unknown"), prompt };
+  },
+
+  parseResponse(endpoint, body) {
+    const choice = body.choices?.[0];
+    let response = "";
+    if (endpoint === "chat/completions") {
+      response = [contentToText(choice?.message?.content), formatToolCalls(choice?.message?.tool_calls)]
+        .filter(Boolean)
+        .join("\n");
+    } else if (endpoint === "completions") {
+      response = choice?.text || "";
+    } else if (endpoint === "embeddings") {
+      response = `[${body.data?.length ?? 0} embedding(s)]`;
+    }
+
+    return {
+      model: body.model,
+      response,
+      ...usageOf(body.usage),
+      metadata: {
+        responseId: body.id,
+        finishReason: choice?.finish_reason,
+      },
+    };
+  },
+
+  createStreamParser,
+};
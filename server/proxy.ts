@@ -0,0 +1,384 @@
+import { once } from "events";
+import { Readable } from "stream";
+import type { Request, Response } from "express";
+import type { IngestTelemetryLog } from "@shared/schema";
+
+// Proxy clients send their platform API key in this header; the provider's own credentials
+// (Authorization, x-api-key, ...) are forwarded upstream untouched.
+export const PROXY_API_KEY_HEADER = "x-observability-api-key";
+export const PROXY_PROJECT_HEADER = "x-observability-project-id";
+export const PROXY_ENVIRONMENT_HEADER = "x-observability-environment";
+// Optional trace context, so proxied calls appear as spans in the caller's trace
+export const PROXY_TRACE_ID_HEADER = "x-observability-trace-id";
+export const PROXY_SPAN_ID_HEADER = "x-observability-span-id";
+export const PROXY_PARENT_SPAN_ID_HEADER = "x-observability-parent-span-id";
+// Optional conversation grouping and end-user cost attribution
+export const PROXY_SESSION_ID_HEADER = "x-observability-session-id";
+export const PROXY_END_USER_ID_HEADER = "x-observability-end-user-id";
+export const PROXY_CUSTOMER_ID_HEADER = "x-observability-customer-id";
+const PROXY_HEADER_PREFIX = "x-observability-";
+
+// Non-streamed bodies larger than this are still forwarded, but not parsed for capture
+const MAX_CAPTURE_BYTES = 10 * 1024 * 1024;
+
+const HOP_BY_HOP_HEADERS = new Set([
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "proxy-authorization",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+]);
+
+// Request headers that describe this hop rather than the upstream call
+const STRIPPED_REQUEST_HEADERS = new Set(["host", "content-length", "cookie", "accept-encoding"]);
+
+// fetch decompresses upstream bodies, so the original encoding and length no longer apply
+const STRIPPED_RESPONSE_HEADERS = new Set(["content-encoding", "content-length"]);
+
+// Model and prompt, taken from the client's request
+export interface ProxyRequestSummary {
+  model: string;
+  prompt: string;
+}
+
+// What a provider adapter extracts from a successful upstream response
+export interface ProxyCapture {
+  model?: string;
+  response: string;
+  promptTokens: number;
+  completionTokens: number;
+  cachedTokens: number;
+  cacheWriteTokens?: number;
+  // Set when the provider reported a failure inside an otherwise successful response
+  error?: string;
+  errorType?: string;
+  metadata?: Record<string, unknown>;
+}
+
+// Receives each server-sent event of a streamed response as it is passed through
+export interface ProxyStreamParser {
+  onEvent(data: string, event?: string): void;
+  finish(): ProxyCapture;
+}
+
+export interface ProxyProvider {
+  name: string;
+  upstreamBaseUrl: string;
+  // Whether calls to this endpoint (relative to the base URL) are recorded as telemetry
+  captures(endpoint: string): boolean;
+  describeRequest(endpoint: string, body: any): ProxyRequestSummary;
+  parseResponse(endpoint: string, body: any): ProxyCapture;
+  createStreamParser(endpoint: string): ProxyStreamParser;
+}
+
+// A captured call, ready to be scoped, priced and stored like an ingested log
+export type ProxiedCall = Omit<IngestTelemetryLog, "workspaceId" | "projectId" | "environment" | "cost">;
+
+// Splits a text/event-stream into events. Chunks may end anywhere, so partial lines are kept.
+class ServerSentEventDecoder {
+  private decoder = new TextDecoder();
+  private buffer = "";
+  private event: string | undefined;
+  private data: string[] = [];
+
+  constructor(private onEvent: (data: string, event?: string) => void) {}
+
+  push(chunk: Uint8Array) {
+    this.buffer += this.decoder.decode(chunk, { stream: true });
+    const lines = this.buffer.split(/\r\n|\r|\n/);
+    this.buffer = lines.pop() || "";
+    lines.forEach((line) => this.processLine(line));
+  }
+
+  end() {
+    this.buffer += this.decoder.decode();
+    if (this.buffer) {
+      this.processLine(this.buffer);
+      this.buffer = "";
+    }
+    this.dispatch();
+  }
+
+  private processLine(line: string) {
+    if (line === "") {
+      this.dispatch();
+      return;
+    }
+    if (line.startsWith(":")) return;
+
+    const separator = line.indexOf(":");
+    const field = separator === -1 ? line : line.substring(0, separator);
+    const value = separator === -1 ? "" : line.substring(separator + 1).replace(/^ /, "");
+
+    if (field === "event") {
+      this.event = value;
+    } else if (field === "data") {
+      this.data.push(value);
+    }
+  }
+
+  private dispatch() {
+    if (this.data.length > 0) {
+      this.onEvent(this.data.join("\n"), this.event);
+    }
+    this.event = undefined;
+    this.data = [];
+  }
+}
+
+function buildUpstreamUrl(baseUrl: string, endpoint: string, originalUrl: string): string {
+  const queryIndex = originalUrl.indexOf("?");
+  const query = queryIndex === -1 ? "" : originalUrl.substring(queryIndex);
+  return `${baseUrl.replace(/\/+$/, "")}/${endpoint}${query}`;
+}
+
+function buildUpstreamHeaders(req: Request): Headers {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (
+      value === undefined ||
+      HOP_BY_HOP_HEADERS.has(name) ||
+      STRIPPED_REQUEST_HEADERS.has(name) ||
+      name.startsWith(PROXY_HEADER_PREFIX)
+    ) {
+      continue;
+    }
+    headers.set(name, Array.isArray(value) ? value.join(", ") : value);
+  }
+  return headers;
+}
+
+// JSON bodies were already consumed by express.json, which keeps the raw bytes;
+// anything else (e.g. multipart uploads) is streamed through as-is
+function buildUpstreamBody(req: Request): BodyInit | undefined {
+  if (req.method === "GET" || req.method === "HEAD") return undefined;
+  if (Buffer.isBuffer(req.rawBody)) return req.rawBody;
+  if (req.readableEnded) return undefined;
+  return Readable.toWeb(req) as unknown as BodyInit;
+}
+
+// Pull a readable message out of a provider error body
+export function extractErrorMessage(text: string, httpStatus: number): string {
+  try {
+    const body = JSON.parse(text);
+    const message = body?.error?.message ?? body?.error ?? body?.message;
+    if (typeof message === "string" && message) return message;
+  } catch {
+    // Not JSON; fall back to the raw text
+  }
+  return text.trim().substring(0, 1000) || `Upstream responded with HTTP ${httpStatus}`;
+}
+
+// The provider's error class from an error body (`{"error": {"type": ...}}`), if it sent one
+export function extractErrorType(text: string): string | undefined {
+  try {
+    const body = JSON.parse(text);
+    const type = body?.error?.type ?? body?.error?.code;
+    if (typeof type === "string" && type) return type;
+  } catch {
+    // Not JSON
+  }
+  return undefined;
+}
+
+// Forward a request to the provider and relay the response unchanged, streaming it through as it
+// arrives. Calls to captured endpoints are reported to onCapture once the response is complete;
+// failures there are logged and never affect the client's response.
+export async function forwardProxyRequest(
+  req: Request,
+  res: Response,
+  provider: ProxyProvider,
+  endpoint: string,
+  onCapture: (call: ProxiedCall) => Promise<void>
+): Promise<void> {
+  const startedAt = Date.now();
+  const requestBody = req.is("application/json") && req.body && typeof req.body === "object" ? req.body : null;
+  const capturing = req.method === "POST" && requestBody !== null && provider.captures(endpoint);
+
+  // Stop the upstream call if the client goes away mid-response
+  const abort = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) abort.abort();
+  });
+
+  const record = async (call: Omit<ProxiedCall, "latencyMs" | "totalTokens" | "startedAt">) => {
+    if (!capturing) return;
+    try {
+      await onCapture({
+        ...call,
+        totalTokens: call.promptTokens + call.completionTokens,
+        latencyMs: Date.now() - startedAt,
+        startedAt: new Date(startedAt),
+      });
+    } catch (error) {
+      console.error(`Failed to record ${provider.name} proxy call:`, error);
+    }
+  };
+
+  let summary: ProxyRequestSummary | null = null;
+  if (capturing) {
+    try {
+      summary = provider.describeRequest(endpoint, requestBody);
+    } catch {
+      summary = { model: String(requestBody.model || "unknown"), prompt: JSON.stringify(requestBody) };
+    }
+  }
+
+  const baseMetadata = {
+    source: "proxy",
+    provider: provider.name,
+    endpoint,
+  };
+
+  let upstream: globalThis.Response;
+  try {
+    upstream = await fetch(buildUpstreamUrl(provider.upstreamBaseUrl, endpoint, req.originalUrl), {
+      method: req.method,
+      headers: buildUpstreamHeaders(req),
+      body: buildUpstreamBody(req),
+      signal: abort.signal,
+      // Required by Node's fetch when the body is a stream
+      duplex: "half",
+    } as RequestInit);
+  } catch (error: any) {
+    if (abort.signal.aborted) return;
+
+    const message = `Upstream request failed: ${error.cause?.message || error.message}`;
+    await record({
+      model: summary?.model || "unknown",
+      provider: provider.name,
+      prompt: summary?.prompt || "",
+      response: message,
+      promptTokens: 0,
+      completionTokens: 0,
+      cachedTokens: 0,
+      status: "error",
+      errorType: "upstream_unreachable",
+      errorMessage: message,
+      metadata: baseMetadata,
+    });
+    res.status(502).json({ error: message, code: "upstream_unreachable" });
+    return;
+  }
+
+  res.status(upstream.status);
+  upstream.headers.forEach((value, name) => {
+    if (!HOP_BY_HOP_HEADERS.has(name) && !STRIPPED_RESPONSE_HEADERS.has(name)) {
+      res.setHeader(name, value);
+    }
+  });
+  res.flushHeaders();
+
+  const isStream = (upstream.headers.get("content-type") || "").includes("text/event-stream");
+  const streamParser = capturing && isStream && upstream.ok ? provider.createStreamParser(endpoint) : null;
+  const eventDecoder = streamParser ? new ServerSentEventDecoder((data, event) => streamParser.onEvent(data, event)) : null;
+
+  const chunks: Uint8Array[] = [];
+  let bufferedBytes = 0;
+  let interrupted = false;
+
+  if (upstream.body) {
+    const reader = upstream.body.getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        if (!res.write(value)) {
+          await once(res, "drain", { signal: abort.signal });
+        }
+
+        if (eventDecoder) {
+          try {
+            eventDecoder.push(value);
+          } catch (error) {
+            console.error(`Failed to parse ${provider.name} stream event:`, error);
+          }
+        } else if (capturing && bufferedBytes + value.byteLength <= MAX_CAPTURE_BYTES) {
+          chunks.push(value);
+          bufferedBytes += value.byteLength;
+        }
+      }
+    } catch {
+      interrupted = true;
+    }
+  }
+
+  if (interrupted) {
+    res.destroy();
+  } else {
+    res.end();
+  }
+
+  if (!summary) return;
+
+  const metadata = {
+    ...baseMetadata,
+    stream: isStream,
+    httpStatus: upstream.status,
+    ...(upstream.headers.get("x-request-id") && { requestId: upstream.headers.get("x-request-id") }),
+    ...(interrupted && { interrupted: true }),
+  };
+
+  if (!upstream.ok) {
+    const text = Buffer.concat(chunks).toString("utf8");
+    const message = extractErrorMessage(text, upstream.status);
+    await record({
+      model: summary.model,
+      provider: provider.name,
+      prompt: summary.prompt,
+      response: message,
+      promptTokens: 0,
+      completionTokens: 0,
+      cachedTokens: 0,
+      status: "error",
+      errorType: extractErrorType(text) || `http_${upstream.status}`,
+      errorHttpStatus: upstream.status,
+      errorMessage: message,
+      metadata,
+    });
+    return;
+  }
+
+  let capture: ProxyCapture;
+  try {
+    if (streamParser) {
+      eventDecoder!.end();
+      capture = streamParser.finish();
+    } else {
+      capture = provider.parseResponse(endpoint, JSON.parse(Buffer.concat(chunks).toString("utf8")));
+    }
+  } catch (error: any) {
+    capture = {
+      response: "",
+      promptTokens: 0,
+      completionTokens: 0,
+      cachedTokens: 0,
+      metadata: { captureError: error.message },
+    };
+  }
+
+  // A stream cut off by the client or provider is recorded as failed, as is an in-band provider error
+  const failure = capture.error
+    ? { errorType: capture.errorType || "stream_error", errorMessage: capture.error }
+    : interrupted
+      ? { errorType: "stream_interrupted", errorMessage: "The response stream ended before it completed" }
+      : null;
+
+  await record({
+    model: capture.model || summary.model,
+    provider: provider.name,
+    prompt: summary.prompt,
+    response: capture.response,
+    promptTokens: capture.promptTokens,
+    completionTokens: capture.completionTokens,
+    cachedTokens: capture.cachedTokens,
+    cacheWriteTokens: capture.cacheWriteTokens || 0,
+    status: failure ? "error" : "success",
+    ...failure,
+    metadata: { ...metadata, ...capture.metadata, ...(capture.error && { error: capture.error }) },
+  });
+}
@@ -0,0 +1,249 @@
+import type { Response } from "express";
+import { storage } from "./storage";
+import type { ApiKey, RateLimit, RateLimitStatus } from "@shared/schema";
+
+// Ingestion limits by workspace subscriptionStatus. Unknown statuses fall back to the trial tier.
+export const RATE_LIMIT_TIERS: Record<string, { perKey: RateLimit; perWorkspace: RateLimit }> = {
+  active: {
+    perKey: { capacity: 500, refillPerSecond: 50 },
+    perWorkspace: { capacity: 2000, refillPerSecond: 200 },
+  },
+  trialing: {
+    perKey: { capacity: 100, refillPerSecond: 10 },
+    perWorkspace: { capacity: 250, refillPerSecond: 25 },
+  },
+  past_due: {
+    perKey: { capacity: 50, refillPerSecond: 5 },
+    perWorkspace: { capacity: 100, refillPerSecond: 10 },
+  },
+  incomplete: {
+    perKey: { capacity: 50, refillPerSecond: 5 },
+    perWorkspace: { capacity: 100, refillPerSecond: 10 },
+  },
+  canceled: {
+    perKey: { capacity: 10, refillPerSecond: 1 },
+    perWorkspace: { capacity: 20, refillPerSecond: 2 },
+  },
+};
+
+const DEFAULT_TIER = "trialing";
+const TIER_CACHE_TTL = 60 * 1000;
+const DROP_FLUSH_INTERVAL = 30 * 1000;
+const BUCKET_IDLE_TTL = 10 * 60 * 1000;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number; // Until enough tokens are available again (0 when allowed)
+  resetMs: number; // Until the bucket is full again
+}
+
+export interface RateLimitBucket {
+  key: string;
+  limit: RateLimit;
+}
+
+// Token bucket storage. The in-memory store works for a single process; a shared store
+// (e.g. Redis) can implement the same interface and be installed with setRateLimitStore.
+export interface RateLimitStore {
+  // Take `cost` tokens from every bucket, or from none unless all of them have enough. Returns one
+  // result per bucket, in order, each saying whether that bucket had enough.
+  consume(buckets: RateLimitBucket[], cost?: number): Promise<RateLimitResult[]>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, Bucket>();
+  private lastSweep = Date.now();
+
+  async consume(buckets: RateLimitBucket[], cost: number = 1): Promise<RateLimitResult[]> {
+    const now = Date.now();
+    this.sweep(now);
+
+    const states = buckets.map(({ key, limit }) => {
+      const bucket = this.buckets.get(key) || { tokens: limit.capacity, updatedAt: now };
+      const elapsedSeconds = (now - bucket.updatedAt) / 1000;
+      const tokens = Math.min(limit.capacity, bucket.tokens + elapsedSeconds * limit.refillPerSecond);
+      // A cost above capacity is let through once the bucket is full, leaving it in debt, so large
+      // batches are slowed down rather than rejected forever
+      const required = Math.min(cost, limit.capacity);
+      return { key, limit, tokens, required, allowed: tokens >= required };
+    });
+    const allowed = states.every((state) => state.allowed);
+
+    return states.map(({ key, limit, tokens, required, allowed: bucketAllowed }) => {
+      const left = allowed ? tokens - cost : tokens;
+      this.buckets.set(key, { tokens: left, updatedAt: now });
+      return {
+        allowed: bucketAllowed,
+        remaining: Math.max(0, Math.floor(left)),
+        retryAfterMs: bucketAllowed ? 0 : Math.ceil(((required - tokens) / limit.refillPerSecond) * 1000),
+        resetMs: Math.ceil(((limit.capacity - left) / limit.refillPerSecond) * 1000),
+      };
+    });
+  }
+
+  // Drop buckets that have been idle long enough to be full again
+  private sweep(now: number) {
+    if (now - this.lastSweep < BUCKET_IDLE_TTL) return;
+    this.lastSweep = now;
+    this.buckets.forEach((bucket, key) => {
+      if (now - bucket.updatedAt > BUCKET_IDLE_TTL) {
+        this.buckets.delete(key);
+      }
+    });
+  }
+}
+
+let rateLimitStore: RateLimitStore = new MemoryRateLimitStore();
+
+export function setRateLimitStore(store: RateLimitStore) {
+  rateLimitStore = store;
+}
+
+// Subscription status is cached briefly so ingestion doesn't read the workspace on every request
+const tierCache = new Map<string, { tier: string; expiresAt: number }>();
+
+async function getWorkspaceTier(workspaceId: string): Promise<string> {
+  const cached = tierCache.get(workspaceId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.tier;
+  }
+
+  const workspace = await storage.getWorkspace(workspaceId);
+  const status = workspace?.subscriptionStatus || DEFAULT_TIER;
+  const tier = RATE_LIMIT_TIERS[status] ? status : DEFAULT_TIER;
+  tierCache.set(workspaceId, { tier, expiresAt: Date.now() + TIER_CACHE_TTL });
+  return tier;
+}
+
+// Dropped requests are counted in memory and flushed to the database periodically
+const pendingDrops = new Map<string, { count: number; lastDroppedAt: Date }>();
+let dropFlushTimer: NodeJS.Timeout | null = null;
+
+function recordDrop(workspaceId: string) {
+  const pending = pendingDrops.get(workspaceId) || { count: 0, lastDroppedAt: new Date() };
+  pending.count += 1;
+  pending.lastDroppedAt = new Date();
+  pendingDrops.set(workspaceId, pending);
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+export async function flushRateLimitDrops(): Promise<void> {
+  const drops = Array.from(pendingDrops.entries());
+  pendingDrops.clear();
+
+  for (const [workspaceId, { count, lastDroppedAt }] of drops) {
+    try {
+      await storage.recordRateLimitDrops(workspaceId, startOfUtcDay(lastDroppedAt), count, lastDroppedAt);
+    } catch (error) {
+      console.error(`Failed to record rate limit drops for workspace ${workspaceId}:`, error);
+    }
+  }
+}
+
+export function startRateLimitDropFlusher() {
+  if (dropFlushTimer) return;
+
+  dropFlushTimer = setInterval(() => {
+    flushRateLimitDrops().catch((error) => {
+      console.error("Rate limit drop flush failed:", error);
+    });
+  }, DROP_FLUSH_INTERVAL);
+  dropFlushTimer.unref();
+}
+
+export function stopRateLimitDropFlusher() {
+  if (dropFlushTimer) {
+    clearInterval(dropFlushTimer);
+    dropFlushTimer = null;
+  }
+}
+
+function setRateLimitHeaders(res: Response, limit: RateLimit, result: RateLimitResult) {
+  res.setHeader("X-RateLimit-Limit", String(limit.capacity));
+  res.setHeader("X-RateLimit-Remaining", String(result.remaining));
+  res.setHeader("X-RateLimit-Reset", String(Math.ceil(result.resetMs / 1000)));
+}
+
+// Charge one token per log against the per-key and per-workspace limits (after validateApiKey).
+// Tokens are only taken when both limits allow the request. Sends the 429 and returns false when
+// either is exceeded.
+export async function consumeIngestionRateLimit(req: any, res: Response, logs: number): Promise<boolean> {
+  const apiKey: ApiKey = req.apiKey;
+  const tier = RATE_LIMIT_TIERS[await getWorkspaceTier(apiKey.workspaceId)];
+
+  const [keyResult, workspaceResult] = await rateLimitStore.consume(
+    [
+      { key: `key:${apiKey.id}`, limit: tier.perKey },
+      { key: `workspace:${apiKey.workspaceId}`, limit: tier.perWorkspace },
+    ],
+    Math.max(1, logs)
+  );
+
+  // Report whichever limit is closer to being exhausted
+  const limited = !keyResult.allowed ? "key" : !workspaceResult.allowed ? "workspace" : null;
+  const useWorkspace = limited === "workspace" || (!limited && workspaceResult.remaining < keyResult.remaining);
+  setRateLimitHeaders(
+    res,
+    useWorkspace ? tier.perWorkspace : tier.perKey,
+    useWorkspace ? workspaceResult : keyResult
+  );
+
+  if (limited) {
+    const result = limited === "key" ? keyResult : workspaceResult;
+    recordDrop(apiKey.workspaceId);
+    res.setHeader("Retry-After", String(Math.max(1, Math.ceil(result.retryAfterMs / 1000))));
+    res.status(429).json({
+      error: limited === "key" ? "Rate limit exceeded for this API key" : "Rate limit exceeded for this workspace",
+      code: "rate_limited",
+    });
+    return false;
+  }
+  return true;
+}
+
+// Middleware for endpoints that ingest one log per request. Batch endpoints call
+// consumeIngestionRateLimit with their log count once the body is parsed.
+export async function rateLimitIngestion(req: any, res: Response, next: Function) {
+  try {
+    if (await consumeIngestionRateLimit(req, res, 1)) {
+      next();
+    }
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+}
+
+export async function getRateLimitStatus(workspaceId: string, now: Date = new Date()): Promise<RateLimitStatus> {
+  const tierName = await getWorkspaceTier(workspaceId);
+  const today = startOfUtcDay(now);
+  const weekStart = new Date(today.getTime() - 6 * 24 * 60 * 60 * 1000);
+
+  const drops = await storage.getRateLimitDrops(workspaceId, weekStart);
+  const pending = pendingDrops.get(workspaceId);
+
+  const droppedToday = drops
+    .filter((drop) => drop.day.getTime() === today.getTime())
+    .reduce((sum, drop) => sum + drop.count, 0);
+  const droppedLast7Days = drops.reduce((sum, drop) => sum + drop.count, 0);
+  const lastDroppedAt = pending?.lastDroppedAt || drops.reduce<Date | null>(
+    (latest, drop) => (!latest || drop.lastDroppedAt > latest ? drop.lastDroppedAt : latest),
+    null
+  );
+
+  return {
+    tier: tierName,
+    ...RATE_LIMIT_TIERS[tierName],
+    droppedToday: droppedToday + (pending?.count || 0),
+    droppedLast7Days: droppedLast7Days + (pending?.count || 0),
+    lastDroppedAt: lastDroppedAt ? lastDroppedAt.toISOString() : null,
+  };
+}
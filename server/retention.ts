@@ -0,0 +1,164 @@
+import { storage, type RetentionScope } from "./storage";
+import type { RetentionPolicy, RetentionRun } from "@shared/schema";
+
+// How often the background job applies retention policies
+const RETENTION_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+// Each policy touches at most RETENTION_BATCH_SIZE * RETENTION_MAX_BATCHES rows per run for each
+// kind of purge; anything left over is picked up by the next run.
+const RETENTION_BATCH_SIZE = 1000;
+const RETENTION_MAX_BATCHES = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let retentionTimer: NodeJS.Timeout | null = null;
+let retentionRunning = false;
+
+// Retention days after inheriting unset project values from the workspace policy
+export interface EffectiveRetention {
+  contentRetentionDays: number | null;
+  logRetentionDays: number | null;
+}
+
+export function resolveRetention(policy: RetentionPolicy, workspacePolicy?: RetentionPolicy): EffectiveRetention {
+  if (!policy.projectId) {
+    return { contentRetentionDays: policy.contentRetentionDays, logRetentionDays: policy.logRetentionDays };
+  }
+  return {
+    contentRetentionDays: policy.contentRetentionDays ?? workspacePolicy?.contentRetentionDays ?? null,
+    logRetentionDays: policy.logRetentionDays ?? workspacePolicy?.logRetentionDays ?? null,
+  };
+}
+
+// Run a purge in batches until it runs dry or hits the batch limit
+async function purgeInBatches(purge: () => Promise<number>): Promise<{ count: number; complete: boolean }> {
+  let count = 0;
+  for (let batch = 0; batch < RETENTION_MAX_BATCHES; batch++) {
+    const affected = await purge();
+    count += affected;
+    if (affected < RETENTION_BATCH_SIZE) {
+      return { count, complete: true };
+    }
+  }
+  return { count, complete: false };
+}
+
+// Apply one policy and record a run when it removed anything or failed
+export async function applyRetentionPolicy(
+  policy: RetentionPolicy,
+  workspacePolicies: RetentionPolicy[],
+  now: Date = new Date()
+): Promise<RetentionRun | null> {
+  const workspacePolicy = workspacePolicies.find((candidate) => !candidate.projectId);
+  const retention = resolveRetention(policy, workspacePolicy);
+
+  const scope: RetentionScope = policy.projectId
+    ? { projectId: policy.projectId }
+    : {
+        excludeProjectIds: workspacePolicies
+          .filter((candidate) => candidate.projectId)
+          .map((candidate) => candidate.projectId!),
+      };
+
+  const logCutoff = retention.logRetentionDays ? new Date(now.getTime() - retention.logRetentionDays * DAY_MS) : null;
+  const contentCutoff = retention.contentRetentionDays
+    ? new Date(now.getTime() - retention.contentRetentionDays * DAY_MS)
+    : null;
+
+  const startedAt = new Date();
+  let logsDeleted = 0;
+  let contentsPurged = 0;
+  let complete = true;
+  let error: string | null = null;
+
+  try {
+    // Delete whole rows first so their text is not cleared just before they go
+    if (logCutoff) {
+      const result = await purgeInBatches(() =>
+        storage.deleteTelemetryLogsBefore(policy.workspaceId, scope, logCutoff, RETENTION_BATCH_SIZE)
+      );
+      logsDeleted = result.count;
+      complete = result.complete;
+    }
+    if (contentCutoff && (!logCutoff || contentCutoff > logCutoff)) {
+      const result = await purgeInBatches(() =>
+        storage.purgeTelemetryContentBefore(policy.workspaceId, scope, contentCutoff, RETENTION_BATCH_SIZE)
+      );
+      contentsPurged = result.count;
+      complete = complete && result.complete;
+    }
+  } catch (err: any) {
+    error = err.message || String(err);
+  }
+
+  if (logsDeleted === 0 && contentsPurged === 0 && !error) {
+    return null;
+  }
+
+  return await storage.createRetentionRun({
+    workspaceId: policy.workspaceId,
+    policyId: policy.id,
+    projectId: policy.projectId,
+    logsDeleted,
+    contentsPurged,
+    logCutoff,
+    contentCutoff,
+    complete: complete && !error,
+    error,
+    startedAt,
+  });
+}
+
+export async function applyWorkspaceRetention(workspaceId: string, now: Date = new Date()): Promise<RetentionRun[]> {
+  const policies = await storage.getRetentionPolicies(workspaceId);
+  const runs: RetentionRun[] = [];
+
+  for (const policy of policies) {
+    const run = await applyRetentionPolicy(policy, policies, now);
+    if (run) runs.push(run);
+  }
+
+  return runs;
+}
+
+export async function applyAllRetentionPolicies(now: Date = new Date()): Promise<RetentionRun[]> {
+  const allPolicies = await storage.getAllRetentionPolicies();
+  const runs: RetentionRun[] = [];
+
+  for (const policy of allPolicies) {
+    try {
+      const workspacePolicies = allPolicies.filter((candidate) => candidate.workspaceId === policy.workspaceId);
+      const run = await applyRetentionPolicy(policy, workspacePolicies, now);
+      if (run) runs.push(run);
+    } catch (error) {
+      console.error(`Failed to apply retention policy ${policy.id}:`, error);
+    }
+  }
+
+  return runs;
+}
+
+export function startRetentionWorker(intervalMs: number = RETENTION_INTERVAL) {
+  if (retentionTimer) return;
+
+  retentionTimer = setInterval(() => {
+    // Skip a tick rather than overlap when a large backlog takes longer than the interval
+    if (retentionRunning) return;
+    retentionRunning = true;
+    applyAllRetentionPolicies()
+      .catch((error) => {
+        console.error("Retention purge failed:", error);
+      })
+      .finally(() => {
+        retentionRunning = false;
+      });
+  }, intervalMs);
+  retentionTimer.unref();
+}
+
+export function stopRetentionWorker() {
+  if (retentionTimer) {
+    clearInterval(retentionTimer);
+    retentionTimer = null;
+  }
+}
@@ -1,18 +1,49 @@
-import type { Express, Request, Response } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
-import { createHmac } from "crypto";
+import { createHmac, randomBytes, randomUUID } from "crypto";
 import passport from "passport";
 import { nanoid } from "nanoid";
-import { storage } from "./storage";
+import {
+  storage,
+  encodeTelemetryCursor,
+  decodeTelemetryCursor,
+  MAX_TELEMETRY_PAGE_SIZE,
+  MAX_ERROR_GROUPS,
+  type TelemetryCursor,
+  type TelemetryLogFilters,
+} from "./storage";
 import { setupAuth, isAuthenticated, hashPassword } from "./auth";
 import {
   insertWorkspaceSchema,
   insertProjectSchema,
   insertApiKeySchema,
-  insertTelemetryLogSchema,
+  ingestTelemetryLogSchema,
   insertWorkspaceMemberSchema,
+  insertModelPriceSchema,
+  insertBudgetSchema,
+  insertRetentionPolicySchema,
+  insertWebhookSchema,
+  insertAlertRuleSchema,
+  insertAlertSilenceSchema,
+  insertAlertChannelSchema,
+  telemetryGroupByValues,
+  telemetryTimeBuckets,
+  telemetryUserGroupByValues,
+  telemetryLogSortValues,
+  errorRateGroupByValues,
   type User,
+  type TelemetryLog,
+  type InsertTelemetryLog,
+  type IngestTelemetryLog,
+  type Webhook,
+  type WebhookSummary,
+  type AlertRule,
+  type AlertSilence,
+  type AlertChannel,
+  type AlertChannelType,
+  type ApiKey,
+  type ApiKeyScope,
 } from "@shared/schema";
 import { z } from "zod";
 import {
@@ -26,22 +57,93 @@ import {
   createCustomerPortalSession,
 } from "./stripe";
 import type Stripe from "stripe";
-
-// WebSocket clients tracking with workspace scoping
+import { createCostResolver, seedDefaultModelPrices } from "./pricing";
+import { getBudgetStatus } from "./budgets";
+import { applyWorkspaceRetention } from "./retention";
+import { emitWebhookEvent, generateWebhookSecret, sendTestEvent } from "./webhooks";
+import { ALERT_CONDITION_FIELDS, resetAlertRule } from "./alerts";
+import { parseAlertChannelConfig, sendTestAlertNotification, summarizeAlertChannel } from "./alert-channels";
+import {
+  generateApiKey,
+  hashApiKey,
+  toApiKeySummary,
+  hasApiKeyScope,
+  createIngestScopeResolver,
+} from "./api-keys";
+import { rateLimitIngestion, consumeIngestionRateLimit, getRateLimitStatus } from "./rate-limit";
+import {
+  decodeOtlpProtobuf,
+  parseOtlpJson,
+  encodeOtlpProtobufResponse,
+  isGenAiSpan,
+  mapGenAiSpan,
+  type OtlpSpan,
+} from "./otlp";
+import {
+  forwardProxyRequest,
+  PROXY_API_KEY_HEADER,
+  PROXY_PROJECT_HEADER,
+  PROXY_ENVIRONMENT_HEADER,
+  PROXY_TRACE_ID_HEADER,
+  PROXY_SPAN_ID_HEADER,
+  PROXY_PARENT_SPAN_ID_HEADER,
+  PROXY_SESSION_ID_HEADER,
+  PROXY_END_USER_ID_HEADER,
+  PROXY_CUSTOMER_ID_HEADER,
+  type ProxyProvider,
+} from "./proxy";
+import { openAIProxyProvider } from "./proxy-openai";
+import { anthropicProxyProvider } from "./proxy-anthropic";
+import { compileSearchQuery, SearchQueryError } from "./search-query";
+
+// WebSocket clients tracking with workspace scoping, narrowed by the API key's binding
 interface WebSocketClient {
   socket: WebSocket;
   workspaceId: string;
+  projectId?: string;
+  environment?: string;
 }
 
 const wsClients = new Set<WebSocketClient>();
 
+// Broadcast a new log to WebSocket clients subscribed to its workspace only
+function broadcastLog(log: TelemetryLog) {
+  const message = JSON.stringify({
+    type: "new_log",
+    data: log,
+  });
+
+  wsClients.forEach((client) => {
+    if (
+      client.workspaceId === log.workspaceId &&
+      (!client.projectId || client.projectId === log.projectId) &&
+      (!client.environment || client.environment === log.environment) &&
+      client.socket.readyState === WebSocket.OPEN
+    ) {
+      client.socket.send(message);
+    }
+  });
+}
+
+// Batch ingestion limits
+const MAX_BATCH_SIZE = 1000;
+const NDJSON_CONTENT_TYPES = ["application/x-ndjson", "application/ndjson"];
+const OTLP_PROTOBUF_CONTENT_TYPE = "application/x-protobuf";
+
 // WebSocket token generation and validation
 const SOCKET_SECRET = process.env.SESSION_SECRET || "default-socket-secret";
 const TOKEN_EXPIRY = 24 * 60 * 60 * 1000; // 24 hours
 
-function generateSocketToken(workspaceId: string): string {
+// Tokens minted from a project- or environment-bound key only stream matching logs
+interface SocketTokenBinding {
+  projectId?: string;
+  environment?: string;
+}
+
+function generateSocketToken(workspaceId: string, binding: SocketTokenBinding = {}): string {
   const payload = {
     workspaceId,
+    ...binding,
     exp: Date.now() + TOKEN_EXPIRY,
   };
   const data = JSON.stringify(payload);
@@ -51,7 +153,7 @@ function generateSocketToken(workspaceId: string): string {
   return Buffer.from(JSON.stringify({ data, signature })).toString("base64");
 }
 
-function validateSocketToken(token: string): { valid: boolean; workspaceId?: string } {
+function validateSocketToken(token: string): { valid: boolean; workspaceId?: string } & SocketTokenBinding {
   try {
     const decoded = JSON.parse(Buffer.from(token, "base64").toString());
     const { data, signature } = decoded;
@@ -71,7 +173,12 @@ function validateSocketToken(token: string): { valid: boolean; workspaceId?: str
       return { valid: false };
     }
     
-    return { valid: true, workspaceId: payload.workspaceId };
+    return {
+      valid: true,
+      workspaceId: payload.workspaceId,
+      projectId: payload.projectId,
+      environment: payload.environment,
+    };
   } catch (error) {
     return { valid: false };
   }
@@ -81,6 +188,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication
   await setupAuth(app);
 
+  // Make sure the global pricing catalog exists
+  try {
+    await seedDefaultModelPrices();
+  } catch (error) {
+    console.error("Failed to seed default model prices:", error);
+  }
+
   // ==================== Auth Routes ====================
   
   // Registration schema
@@ -255,27 +369,120 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   };
 
-  // Middleware to validate API key for telemetry ingestion
-  const validateApiKey = async (req: Request, res: Response, next: Function) => {
-    const apiKey = req.headers["x-api-key"] as string;
+  // Middleware to parse telemetry query filters (must run after requireWorkspaceMembership or authenticateRead)
+  const parseTelemetryFilters = async (req: any, res: Response, next: Function) => {
+    try {
+      const workspaceId = req.workspaceId;
+      const { startDate, endDate, sessionId, endUserId, customerId, q } = req.query;
+      let { projectId, environment } = req.query;
+
+      // API keys bound to a project or environment can only read within that binding
+      const apiKey: ApiKey | undefined = req.apiKey;
+      if (apiKey?.projectId) {
+        if (projectId && projectId !== apiKey.projectId) {
+          return res.status(403).json({ error: "API key is restricted to another project" });
+        }
+        projectId = apiKey.projectId;
+      }
+      if (apiKey?.environment) {
+        if (environment && environment !== apiKey.environment) {
+          return res.status(403).json({ error: "API key is restricted to another environment" });
+        }
+        environment = apiKey.environment;
+      }
+
+      // If projectId filter is provided, verify it belongs to this workspace
+      if (projectId) {
+        const project = await storage.getProject(projectId as string);
+        if (!project || project.workspaceId !== workspaceId) {
+          return res.status(403).json({ error: "Project does not belong to this workspace" });
+        }
+      }
+
+      const filters: TelemetryLogFilters = {};
+      if (projectId) filters.projectId = projectId as string;
+      if (environment) filters.environment = environment as string;
+      if (sessionId) filters.sessionId = sessionId as string;
+      if (endUserId) filters.endUserId = endUserId as string;
+      if (customerId) filters.customerId = customerId as string;
+      if (startDate) filters.startDate = new Date(startDate as string);
+      if (endDate) filters.endDate = new Date(endDate as string);
+
+      if ((filters.startDate && isNaN(filters.startDate.getTime())) || (filters.endDate && isNaN(filters.endDate.getTime()))) {
+        return res.status(400).json({ error: "Invalid startDate or endDate" });
+      }
+
+      if (typeof q === "string" && q.trim()) {
+        try {
+          filters.search = compileSearchQuery(q);
+        } catch (error) {
+          if (error instanceof SearchQueryError) {
+            return res.status(400).json({
+              error: `Invalid search query: ${error.message} (at character ${error.position + 1})`,
+              position: error.position,
+            });
+          }
+          throw error;
+        }
+      }
+
+      // Attach parsed filters to request
+      req.telemetryFilters = filters;
+      next();
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  };
+
+  // Middleware factory to validate an API key and require one of its scopes
+  const validateApiKey = (scope: ApiKeyScope, header: string = "x-api-key") => async (req: Request, res: Response, next: Function) => {
+    const apiKey = req.headers[header] as string;
 
     if (!apiKey) {
-      return res.status(401).json({ error: "API key required" });
+      return res.status(401).json({ error: "API key required", code: "api_key_missing" });
     }
 
-    const key = await storage.getApiKeyByKey(apiKey);
+    const key = await storage.getApiKeyByHash(hashApiKey(apiKey));
     if (!key) {
-      return res.status(401).json({ error: "Invalid API key" });
+      return res.status(401).json({ error: "Invalid API key", code: "api_key_invalid" });
+    }
+
+    if (key.revokedAt) {
+      return res.status(401).json({ error: "API key has been revoked", code: "api_key_revoked" });
+    }
+
+    if (key.expiresAt && key.expiresAt <= new Date()) {
+      return res.status(401).json({ error: "API key has expired", code: "api_key_expired" });
+    }
+
+    if (!hasApiKeyScope(key, scope)) {
+      return res.status(403).json({ error: `API key is missing the "${scope}" scope`, code: "api_key_insufficient_scope" });
     }
 
     // Update last used timestamp
     await storage.updateApiKeyLastUsed(key.id);
 
-    // Attach workspace ID to request for later use
+    // Attach the key and its workspace ID to request for later use
+    (req as any).apiKey = key;
     (req as any).workspaceId = key.workspaceId;
     next();
   };
 
+  // Read endpoints accept either a session with workspace membership or an API key with the "read" scope
+  const authenticateRead = (req: any, res: Response, next: Function) => {
+    if (!req.headers["x-api-key"]) {
+      return isAuthenticated(req, res, () => requireWorkspaceMembership(req, res, next));
+    }
+
+    validateApiKey("read")(req, res, () => {
+      const requestedWorkspaceId = req.query.workspaceId;
+      if (requestedWorkspaceId && requestedWorkspaceId !== req.workspaceId) {
+        return res.status(403).json({ error: "Access denied to this workspace" });
+      }
+      next();
+    });
+  };
+
   // ==================== Workspaces ====================
   app.get("/api/workspaces", isAuthenticated, async (req: any, res) => {
     try {
@@ -308,7 +515,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Generate WebSocket token for a workspace (requires API key)
-  app.post("/api/workspaces/:workspaceId/socket-token", validateApiKey, async (req, res) => {
+  app.post("/api/workspaces/:workspaceId/socket-token", validateApiKey("stream"), async (req, res) => {
     try {
       const { workspaceId } = req.params;
       const authenticatedWorkspaceId = (req as any).workspaceId;
@@ -324,8 +531,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Workspace not found" });
       }
       
-      // Generate signed token
-      const token = generateSocketToken(workspaceId);
+      // Generate signed token, carrying over the key's project and environment binding
+      const apiKey: ApiKey = (req as any).apiKey;
+      const token = generateSocketToken(workspaceId, {
+        ...(apiKey.projectId && { projectId: apiKey.projectId }),
+        ...(apiKey.environment && { environment: apiKey.environment }),
+      });
       res.json({ token });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -419,6 +630,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         workspaceId,
       });
 
+      emitWebhookEvent(workspaceId, "member.added", {
+        member: { id: newMember.id, userId: newMember.userId, role: newMember.role },
+        addedBy: userId,
+      });
+
       res.status(201).json(newMember);
     } catch (error: any) {
       res.status(400).json({ error: error.message });
@@ -520,30 +736,138 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Use verified workspaceId from middleware
       const workspaceId = req.workspaceId;
       const keys = await storage.getApiKeys(workspaceId);
-      res.json(keys);
+      res.json(keys.map(toApiKeySummary));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
+  const emitApiKeyCreated = (apiKey: ApiKey, createdBy: string, rotatedFromId?: string) => {
+    emitWebhookEvent(apiKey.workspaceId, "api_key.created", {
+      apiKey: {
+        id: apiKey.id,
+        name: apiKey.name,
+        projectId: apiKey.projectId,
+        environment: apiKey.environment,
+        scopes: apiKey.scopes,
+        expiresAt: apiKey.expiresAt,
+        createdAt: apiKey.createdAt,
+      },
+      createdBy,
+      ...(rotatedFromId && { rotatedFromId }),
+    });
+  };
+
   app.post("/api/api-keys", isAuthenticated, requireWorkspaceMembership, async (req: any, res) => {
     try {
       // Parse body but ignore client-supplied workspaceId
       const data = insertApiKeySchema.parse(req.body);
+
+      if (data.scopes?.includes("admin") && req.workspaceMember.role !== "owner" && req.workspaceMember.role !== "admin") {
+        return res.status(403).json({ error: "Only owners and admins can create keys with the admin scope" });
+      }
+
+      // A project-bound key must point at a project in this workspace
+      if (data.projectId) {
+        const project = await storage.getProject(data.projectId);
+        if (!project || project.workspaceId !== req.workspaceId) {
+          return res.status(400).json({ error: "Project does not belong to this workspace" });
+        }
+      }
       
       // Always use verified workspaceId from middleware, never trust client input
+      const { key, keyHash, keyPrefix } = generateApiKey();
       const apiKeyData = {
         ...data,
         workspaceId: req.workspaceId, // Overwrite with verified workspace
+        keyHash,
+        keyPrefix,
       };
 
       const apiKey = await storage.createApiKey(apiKeyData);
-      res.status(201).json(apiKey);
+
+      emitApiKeyCreated(apiKey, req.user.id);
+
+      // The full key is returned only once and cannot be retrieved again
+      res.status(201).json({ ...toApiKeySummary(apiKey), key });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Ingestion limits for the workspace's tier and how many requests were dropped recently
+  app.get("/api/rate-limits", isAuthenticated, requireWorkspaceMembership, async (req: any, res) => {
+    try {
+      const status = await getRateLimitStatus(req.workspaceId);
+      res.json(status);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Issue a successor key with the same name, binding and scopes. The old key keeps
+  // working until the grace window ends so clients can be redeployed.
+  const rotateApiKeySchema = z.object({
+    gracePeriodHours: z.coerce.number().min(0).max(30 * 24).default(24),
+    expiresAt: insertApiKeySchema.shape.expiresAt,
+  });
+
+  app.post("/api/api-keys/:id/rotate", isAuthenticated, async (req: any, res) => {
+    try {
+      const apiKey = await storage.getApiKey(req.params.id);
+      if (!apiKey) {
+        return res.status(404).json({ error: "API key not found" });
+      }
+
+      // Verify user has access to this workspace
+      const member = await storage.getWorkspaceMember(apiKey.workspaceId, req.user.id);
+      if (!member) {
+        return res.status(403).json({ error: "Access denied to this workspace" });
+      }
+
+      if (apiKey.scopes.includes("admin") && member.role !== "owner" && member.role !== "admin") {
+        return res.status(403).json({ error: "Only owners and admins can rotate keys with the admin scope" });
+      }
+
+      if (apiKey.revokedAt) {
+        return res.status(409).json({ error: "Revoked API keys cannot be rotated" });
+      }
+      if (apiKey.replacedById) {
+        return res.status(409).json({ error: "API key has already been rotated" });
+      }
+      if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) {
+        return res.status(409).json({ error: "Expired API keys cannot be rotated" });
+      }
+
+      const { gracePeriodHours, expiresAt } = rotateApiKeySchema.parse(req.body ?? {});
+      const graceEndsAt = new Date(Date.now() + gracePeriodHours * 60 * 60 * 1000);
+
+      const { key, keyHash, keyPrefix } = generateApiKey();
+      const successor = await storage.rotateApiKey(
+        apiKey.id,
+        {
+          workspaceId: apiKey.workspaceId,
+          name: apiKey.name,
+          projectId: apiKey.projectId,
+          environment: apiKey.environment,
+          scopes: apiKey.scopes as ApiKeyScope[],
+          expiresAt: expiresAt ?? null,
+          keyHash,
+          keyPrefix,
+        },
+        graceEndsAt
+      );
+
+      emitApiKeyCreated(successor, req.user.id, apiKey.id);
+
+      // The full key is returned only once and cannot be retrieved again
+      res.status(201).json({ ...toApiKeySummary(successor), key });
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
+  // Revocation is a soft delete so the key's history stays auditable
   app.delete("/api/api-keys/:id", isAuthenticated, async (req: any, res) => {
     try {
       // Get API key to verify workspace membership
@@ -559,7 +883,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: "Access denied to this workspace" });
       }
 
-      await storage.deleteApiKey(req.params.id);
+      if (apiKey.revokedAt) {
+        return res.status(409).json({ error: "API key has already been revoked" });
+      }
+
+      await storage.revokeApiKey(apiKey.id, userId);
       res.status(204).send();
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -567,55 +895,204 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // ==================== Telemetry Logs ====================
-  app.get("/api/telemetry", isAuthenticated, requireWorkspaceMembership, async (req: any, res) => {
+  app.get("/api/telemetry", authenticateRead, parseTelemetryFilters, async (req: any, res) => {
     try {
       // Use verified workspaceId from middleware
       const workspaceId = req.workspaceId;
-      const { projectId, environment, startDate, endDate } = req.query;
+      const filters: TelemetryLogFilters = req.telemetryFilters;
 
-      // If projectId filter is provided, verify it belongs to this workspace
-      if (projectId) {
-        const project = await storage.getProject(projectId as string);
-        if (!project || project.workspaceId !== workspaceId) {
-          return res.status(403).json({ error: "Project does not belong to this workspace" });
+      const sortResult = z.enum(telemetryLogSortValues).safeParse(req.query.sort || "recent");
+      if (!sortResult.success) {
+        return res.status(400).json({ error: `sort must be one of: ${telemetryLogSortValues.join(", ")}` });
+      }
+      const sort = sortResult.data;
+      const rankedSearch = sort === "relevance" && !!filters.search?.rank;
+
+      // Keyset pagination over (timestamp, id), newest first, or (rank, timestamp, id) by relevance
+      let cursor: TelemetryCursor | null = null;
+      if (req.query.cursor) {
+        cursor = decodeTelemetryCursor(req.query.cursor as string);
+        if (!cursor || (rankedSearch && cursor.rank === undefined)) {
+          return res.status(400).json({ error: "Invalid cursor" });
         }
       }
 
-      const filters: any = {};
-      if (projectId) filters.projectId = projectId as string;
-      if (environment) filters.environment = environment as string;
-      if (startDate) filters.startDate = new Date(startDate as string);
-      if (endDate) filters.endDate = new Date(endDate as string);
+      let limit: number | undefined;
+      if (req.query.limit) {
+        limit = parseInt(req.query.limit as string, 10);
+        if (isNaN(limit) || limit < 1 || limit > MAX_TELEMETRY_PAGE_SIZE) {
+          return res.status(400).json({ error: `limit must be between 1 and ${MAX_TELEMETRY_PAGE_SIZE}` });
+        }
+      }
+
+      const page = await storage.getTelemetryLogs(workspaceId, filters, { cursor, limit, sort });
+      res.json({
+        logs: page.logs,
+        nextCursor: page.nextCursor ? encodeTelemetryCursor(page.nextCursor) : null,
+        ...(filters.search && { highlightTerms: filters.search.highlightTerms }),
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-      const logs = await storage.getTelemetryLogs(workspaceId, filters);
-      res.json(logs);
+  // ==================== Telemetry Stats ====================
+  // Aggregations run in SQL and honor the same filters as /api/telemetry
+  app.get("/api/telemetry/stats", authenticateRead, parseTelemetryFilters, async (req: any, res) => {
+    try {
+      const summary = await storage.getTelemetrySummary(req.workspaceId, req.telemetryFilters);
+      res.json(summary);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Export telemetry logs
-  app.get("/api/telemetry/export", isAuthenticated, requireWorkspaceMembership, async (req: any, res) => {
+  app.get("/api/telemetry/stats/breakdown", authenticateRead, parseTelemetryFilters, async (req: any, res) => {
     try {
-      // Use verified workspaceId from middleware
-      const workspaceId = req.workspaceId;
-      const { format = "json", projectId, environment, startDate, endDate } = req.query;
-      
-      // If projectId filter is provided, verify it belongs to this workspace
-      if (projectId) {
-        const project = await storage.getProject(projectId as string);
-        if (!project || project.workspaceId !== workspaceId) {
-          return res.status(403).json({ error: "Project does not belong to this workspace" });
+      const groupBy = z.enum(telemetryGroupByValues).safeParse(req.query.groupBy || "model");
+      if (!groupBy.success) {
+        return res.status(400).json({ error: `groupBy must be one of: ${telemetryGroupByValues.join(", ")}` });
+      }
+
+      const rows = await storage.getTelemetryBreakdown(req.workspaceId, groupBy.data, req.telemetryFilters);
+      res.json(rows);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/telemetry/stats/timeseries", authenticateRead, parseTelemetryFilters, async (req: any, res) => {
+    try {
+      const bucket = z.enum(telemetryTimeBuckets).safeParse(req.query.bucket || "day");
+      if (!bucket.success) {
+        return res.status(400).json({ error: `bucket must be one of: ${telemetryTimeBuckets.join(", ")}` });
+      }
+
+      const points = await storage.getTelemetryTimeSeries(req.workspaceId, bucket.data, req.telemetryFilters);
+      res.json(points);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Top spenders by end user (default) or customer
+  app.get("/api/telemetry/stats/by-user", authenticateRead, parseTelemetryFilters, async (req: any, res) => {
+    try {
+      const groupBy = z.enum(telemetryUserGroupByValues).safeParse(req.query.groupBy || "endUser");
+      if (!groupBy.success) {
+        return res.status(400).json({ error: `groupBy must be one of: ${telemetryUserGroupByValues.join(", ")}` });
+      }
+
+      let limit = 20;
+      if (req.query.limit) {
+        limit = parseInt(req.query.limit as string, 10);
+        if (isNaN(limit) || limit < 1 || limit > 500) {
+          return res.status(400).json({ error: "limit must be between 1 and 500" });
         }
       }
 
-      const filters: any = {};
-      if (projectId) filters.projectId = projectId as string;
-      if (environment) filters.environment = environment as string;
-      if (startDate) filters.startDate = new Date(startDate as string);
-      if (endDate) filters.endDate = new Date(endDate as string);
+      const rows = await storage.getTelemetryByUser(req.workspaceId, groupBy.data, req.telemetryFilters, limit);
+      res.json(rows);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/telemetry/stats/latency", authenticateRead, parseTelemetryFilters, async (req: any, res) => {
+    try {
+      const buckets = await storage.getLatencyDistribution(req.workspaceId, req.telemetryFilters);
+      res.json(buckets);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/telemetry/stats/percentiles", authenticateRead, parseTelemetryFilters, async (req: any, res) => {
+    try {
+      const groupBy = z.enum(telemetryGroupByValues).safeParse(req.query.groupBy || "model");
+      if (!groupBy.success) {
+        return res.status(400).json({ error: `groupBy must be one of: ${telemetryGroupByValues.join(", ")}` });
+      }
+
+      const rows = await storage.getLatencyPercentiles(req.workspaceId, groupBy.data, req.telemetryFilters);
+      res.json(rows);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/telemetry/stats/percentiles/timeseries", authenticateRead, parseTelemetryFilters, async (req: any, res) => {
+    try {
+      const bucket = z.enum(telemetryTimeBuckets).safeParse(req.query.bucket || "day");
+      if (!bucket.success) {
+        return res.status(400).json({ error: `bucket must be one of: ${telemetryTimeBuckets.join(", ")}` });
+      }
+
+      const points = await storage.getLatencyPercentileSeries(req.workspaceId, bucket.data, req.telemetryFilters);
+      res.json(points);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Failures grouped by signature, most frequent first
+  app.get("/api/telemetry/stats/errors", authenticateRead, parseTelemetryFilters, async (req: any, res) => {
+    try {
+      let limit = 50;
+      if (req.query.limit) {
+        limit = parseInt(req.query.limit as string, 10);
+        if (isNaN(limit) || limit < 1 || limit > MAX_ERROR_GROUPS) {
+          return res.status(400).json({ error: `limit must be between 1 and ${MAX_ERROR_GROUPS}` });
+        }
+      }
+
+      const groups = await storage.getErrorGroups(req.workspaceId, req.telemetryFilters, limit);
+      res.json(groups);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Error rate per bucket for each model (default) or provider
+  app.get("/api/telemetry/stats/errors/timeseries", authenticateRead, parseTelemetryFilters, async (req: any, res) => {
+    try {
+      const bucket = z.enum(telemetryTimeBuckets).safeParse(req.query.bucket || "day");
+      if (!bucket.success) {
+        return res.status(400).json({ error: `bucket must be one of: ${telemetryTimeBuckets.join(", ")}` });
+      }
+
+      const groupBy = z.enum(errorRateGroupByValues).safeParse(req.query.groupBy || "model");
+      if (!groupBy.success) {
+        return res.status(400).json({ error: `groupBy must be one of: ${errorRateGroupByValues.join(", ")}` });
+      }
+
+      const points = await storage.getErrorRateSeries(req.workspaceId, bucket.data, groupBy.data, req.telemetryFilters);
+      res.json(points);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-      const logs = await storage.getTelemetryLogs(workspaceId, filters);
+  // Export telemetry logs
+  app.get("/api/telemetry/export", authenticateRead, parseTelemetryFilters, async (req: any, res) => {
+    try {
+      // Use verified workspaceId from middleware
+      const workspaceId = req.workspaceId;
+      const { format = "json" } = req.query;
+      const filters: TelemetryLogFilters = req.telemetryFilters;
+
+      // Walk every page so exports include the full filtered history
+      const forEachPage = async (handler: (logs: TelemetryLog[]) => void) => {
+        let cursor: TelemetryCursor | null = null;
+        do {
+          const page = await storage.getTelemetryLogs(workspaceId, filters, {
+            cursor,
+            limit: MAX_TELEMETRY_PAGE_SIZE,
+          });
+          handler(page.logs);
+          cursor = page.nextCursor;
+        } while (cursor);
+      };
 
       if (format === "csv") {
         // Helper function to properly escape CSV fields per RFC4180
@@ -635,70 +1112,1010 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return `"${str}"`;
         };
 
-        // Generate CSV
+        // Stream CSV page by page
         const headers = ["ID", "Timestamp", "Project ID", "Environment", "Model", "Prompt", "Response", "Tokens", "Cost", "Latency"];
-        const csvRows = [headers.map(h => `"${h}"`).join(",")];
-        
-        logs.forEach(log => {
-          const row = [
-            escapeCSVField(log.id),
-            escapeCSVField(log.timestamp),
-            escapeCSVField(log.projectId || ""),
-            escapeCSVField(log.environment || ""),
-            escapeCSVField(log.model || ""),
-            escapeCSVField(log.prompt || ""),
-            escapeCSVField(log.response || ""),
-            escapeCSVField(log.totalTokens || 0),
-            escapeCSVField(log.cost || 0),
-            escapeCSVField(log.latencyMs || 0)
-          ];
-          csvRows.push(row.join(","));
-        });
 
         res.setHeader("Content-Type", "text/csv");
         res.setHeader("Content-Disposition", `attachment; filename="telemetry-logs-${Date.now()}.csv"`);
-        // RFC4180 requires trailing CRLF after last record
-        res.send(csvRows.join("\r\n") + "\r\n");
+        // RFC4180 requires CRLF after every record, including the last
+        res.write(headers.map(h => `"${h}"`).join(",") + "\r\n");
+
+        await forEachPage((logs) => {
+          logs.forEach(log => {
+            const row = [
+              escapeCSVField(log.id),
+              escapeCSVField(log.timestamp),
+              escapeCSVField(log.projectId || ""),
+              escapeCSVField(log.environment || ""),
+              escapeCSVField(log.model || ""),
+              escapeCSVField(log.prompt || ""),
+              escapeCSVField(log.response || ""),
+              escapeCSVField(log.totalTokens || 0),
+              escapeCSVField(log.cost || 0),
+              escapeCSVField(log.latencyMs || 0)
+            ];
+            res.write(row.join(",") + "\r\n");
+          });
+        });
+        res.end();
       } else {
-        // JSON format (default)
+        // JSON format (default), streamed as a single array
         res.setHeader("Content-Type", "application/json");
         res.setHeader("Content-Disposition", `attachment; filename="telemetry-logs-${Date.now()}.json"`);
-        res.json(logs);
+        res.write("[");
+        let first = true;
+        await forEachPage((logs) => {
+          logs.forEach(log => {
+            res.write((first ? "" : ",") + JSON.stringify(log));
+            first = false;
+          });
+        });
+        res.end("]");
+      }
+    } catch (error: any) {
+      // Once streaming has started the status can no longer change
+      if (res.headersSent) {
+        console.error("Telemetry export error:", error);
+        return res.end();
+      }
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // ==================== Traces ====================
+  // Recent traces with cost and latency rolled up, honoring the same filters as /api/telemetry
+  app.get("/api/traces", authenticateRead, parseTelemetryFilters, async (req: any, res) => {
+    try {
+      let limit = 50;
+      if (req.query.limit) {
+        limit = parseInt(req.query.limit as string, 10);
+        if (isNaN(limit) || limit < 1 || limit > 200) {
+          return res.status(400).json({ error: "limit must be between 1 and 200" });
+        }
+      }
+
+      const traces = await storage.getTraceSummaries(req.workspaceId, req.telemetryFilters, limit);
+      res.json(traces);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/traces/:traceId", authenticateRead, parseTelemetryFilters, async (req: any, res) => {
+    try {
+      const { traceId } = req.params;
+      const summary = await storage.getTraceSummary(req.workspaceId, traceId, req.telemetryFilters);
+      if (!summary) {
+        return res.status(404).json({ error: "Trace not found" });
+      }
+
+      const spans = await storage.getTraceSpans(req.workspaceId, traceId, req.telemetryFilters);
+      res.json({ summary, spans });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // ==================== Sessions ====================
+  // Conversations grouped by the SDK-supplied sessionId, most recently active first
+  app.get("/api/sessions", authenticateRead, parseTelemetryFilters, async (req: any, res) => {
+    try {
+      let limit = 50;
+      if (req.query.limit) {
+        limit = parseInt(req.query.limit as string, 10);
+        if (isNaN(limit) || limit < 1 || limit > 200) {
+          return res.status(400).json({ error: "limit must be between 1 and 200" });
+        }
+      }
+
+      const sessions = await storage.getSessionSummaries(req.workspaceId, req.telemetryFilters, limit);
+      res.json(sessions);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/sessions/:sessionId", authenticateRead, parseTelemetryFilters, async (req: any, res) => {
+    try {
+      const { sessionId } = req.params;
+      const summary = await storage.getSessionSummary(req.workspaceId, sessionId, req.telemetryFilters);
+      if (!summary) {
+        return res.status(404).json({ error: "Session not found" });
       }
+
+      const logs = await storage.getSessionTurns(req.workspaceId, sessionId, req.telemetryFilters);
+      res.json({ summary, logs });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
   // Telemetry ingestion endpoint (requires API key)
-  app.post("/api/telemetry/ingest", validateApiKey, async (req, res) => {
+  app.post("/api/telemetry/ingest", validateApiKey("ingest"), rateLimitIngestion, async (req, res) => {
     try {
       const workspaceId = (req as any).workspaceId;
-      const data = insertTelemetryLogSchema.parse({
+      const data = ingestTelemetryLogSchema.parse({
         ...req.body,
         workspaceId,
       });
 
-      const log = await storage.createTelemetryLog(data);
+      const resolveScope = createIngestScopeResolver((req as any).apiKey);
+      const resolveCost = createCostResolver(workspaceId);
+      const log = await storage.createTelemetryLog(await resolveCost(await resolveScope(data)));
+      broadcastLog(log);
 
-      // Broadcast to WebSocket clients subscribed to this workspace only
-      const message = JSON.stringify({
-        type: "new_log",
-        data: log,
+      res.status(201).json(log);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Batch telemetry ingestion endpoint (requires API key)
+  // Accepts a JSON array, a { logs: [...] } object, or NDJSON (one log per line)
+  app.post(
+    "/api/telemetry/ingest/batch",
+    express.text({ type: NDJSON_CONTENT_TYPES, limit: "5mb" }),
+    validateApiKey("ingest"),
+    async (req, res) => {
+      try {
+        const workspaceId = (req as any).workspaceId;
+
+        let records: unknown[];
+        if (typeof req.body === "string") {
+          const lines = req.body.split(/\r?\n/).filter((line: string) => line.trim());
+          records = lines.map((line: string) => {
+            try {
+              return JSON.parse(line);
+            } catch {
+              return undefined;
+            }
+          });
+        } else if (Array.isArray(req.body)) {
+          records = req.body;
+        } else if (Array.isArray(req.body?.logs)) {
+          records = req.body.logs;
+        } else {
+          return res.status(400).json({ error: "Expected an array of logs, { logs: [...] } or NDJSON" });
+        }
+
+        if (records.length === 0) {
+          return res.status(400).json({ error: "Batch contains no logs" });
+        }
+
+        if (records.length > MAX_BATCH_SIZE) {
+          return res.status(413).json({ error: `Batch exceeds maximum of ${MAX_BATCH_SIZE} logs` });
+        }
+
+        // Each log in the batch counts against the rate limit, as if sent on its own
+        if (!(await consumeIngestionRateLimit(req, res, records.length))) return;
+
+        // Validate each record, keeping track of its position in the batch
+        const results: { index: number; status: "accepted" | "rejected"; id?: string; error?: string; details?: unknown }[] = [];
+        const accepted: { index: number; id: string; data: InsertTelemetryLog }[] = [];
+        const resolveScope = createIngestScopeResolver((req as any).apiKey);
+        const resolveCost = createCostResolver(workspaceId);
+
+        for (let index = 0; index < records.length; index++) {
+          const record = records[index];
+          if (!record || typeof record !== "object" || Array.isArray(record)) {
+            results[index] = { index, status: "rejected", error: "Record is not a JSON object" };
+            continue;
+          }
+
+          const parsed = ingestTelemetryLogSchema.safeParse({
+            ...record,
+            workspaceId,
+          });
+
+          if (!parsed.success) {
+            results[index] = { index, status: "rejected", error: "Invalid telemetry record", details: parsed.error.errors };
+            continue;
+          }
+
+          try {
+            accepted.push({ index, id: randomUUID(), data: await resolveCost(await resolveScope(parsed.data)) });
+          } catch (error: any) {
+            results[index] = { index, status: "rejected", error: error.message };
+          }
+        }
+
+        // Insert all valid records in a single statement. Postgres does not guarantee that returned
+        // rows follow the input order, so ids are assigned here and results matched by id.
+        const logs = await storage.createTelemetryLogs(accepted.map(({ id, data }) => ({ ...data, id })));
+        const indexById = new Map(accepted.map(({ index, id }) => [id, index]));
+
+        logs.forEach((log) => {
+          const index = indexById.get(log.id)!;
+          results[index] = { index, status: "accepted", id: log.id };
+          broadcastLog(log);
+        });
+
+        res.status(logs.length > 0 ? 201 : 400).json({
+          accepted: logs.length,
+          rejected: records.length - logs.length,
+          results,
+        });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    }
+  );
+
+  // ==================== OpenTelemetry (OTLP/HTTP) ====================
+  // Accepts ExportTraceServiceRequest as JSON or protobuf. GenAI spans become telemetry logs;
+  // other spans are acknowledged but not stored.
+  app.post(
+    "/v1/traces",
+    express.raw({ type: OTLP_PROTOBUF_CONTENT_TYPE, limit: "5mb" }),
+    validateApiKey("ingest"),
+    async (req, res) => {
+      const isProtobuf = Buffer.isBuffer(req.body);
+
+      // Partial success is reported in the ExportTraceServiceResponse, in the request's encoding
+      const sendExportResponse = (rejectedSpans: number, errorMessage: string) => {
+        if (isProtobuf) {
+          res.status(200).type(OTLP_PROTOBUF_CONTENT_TYPE).send(encodeOtlpProtobufResponse(rejectedSpans, errorMessage));
+        } else {
+          res.status(200).json(rejectedSpans > 0 ? { partialSuccess: { rejectedSpans, errorMessage } } : {});
+        }
+      };
+
+      let spans: OtlpSpan[];
+      try {
+        spans = isProtobuf ? decodeOtlpProtobuf(req.body) : parseOtlpJson(req.body);
+      } catch (error: any) {
+        return res.status(400).json({ error: `Invalid OTLP payload: ${error.message}` });
+      }
+
+      try {
+        // Only GenAI spans become logs, and each one counts against the rate limit
+        const genAiSpans = spans.filter(isGenAiSpan);
+        if (!(await consumeIngestionRateLimit(req, res, genAiSpans.length))) return;
+
+        const workspaceId = (req as any).workspaceId;
+        const resolveScope = createIngestScopeResolver((req as any).apiKey);
+        const resolveCost = createCostResolver(workspaceId);
+
+        const accepted: InsertTelemetryLog[] = [];
+        const errors: string[] = [];
+
+        for (const span of genAiSpans) {
+          const parsed = ingestTelemetryLogSchema.safeParse(mapGenAiSpan(span, workspaceId));
+          if (!parsed.success) {
+            errors.push(`Span ${span.spanId}: ${parsed.error.errors[0]?.message || "invalid span"}`);
+            continue;
+          }
+
+          try {
+            accepted.push(await resolveCost(await resolveScope(parsed.data)));
+          } catch (error: any) {
+            errors.push(`Span ${span.spanId}: ${error.message}`);
+          }
+        }
+
+        const logs = await storage.createTelemetryLogs(accepted);
+        logs.forEach(broadcastLog);
+
+        sendExportResponse(errors.length, errors.slice(0, 10).join("; "));
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    }
+  );
+
+  // ==================== LLM Proxies ====================
+  // Forwards provider API calls upstream and records them as telemetry, so an app only has to
+  // change its base URL and add the platform API key header.
+  const proxyTo = (provider: ProxyProvider) => async (req: Request, res: Response) => {
+    const workspaceId = (req as any).workspaceId;
+
+    // Check the requested project/environment before calling the provider
+    let scope: { projectId?: string; environment?: string };
+    try {
+      scope = await createIngestScopeResolver((req as any).apiKey)({
+        projectId: req.header(PROXY_PROJECT_HEADER) || undefined,
+        environment: req.header(PROXY_ENVIRONMENT_HEADER) || undefined,
       });
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
 
-      wsClients.forEach((client) => {
-        if (client.workspaceId === log.workspaceId && client.socket.readyState === WebSocket.OPEN) {
-          client.socket.send(message);
+    // Calls made inside a trace get their own span ID unless the client assigned one
+    const traceId = req.header(PROXY_TRACE_ID_HEADER);
+    const trace = traceId
+      ? {
+          traceId,
+          spanId: req.header(PROXY_SPAN_ID_HEADER) || randomBytes(8).toString("hex"),
+          parentSpanId: req.header(PROXY_PARENT_SPAN_ID_HEADER) || undefined,
         }
+      : {};
+    const attribution = {
+      sessionId: req.header(PROXY_SESSION_ID_HEADER) || undefined,
+      endUserId: req.header(PROXY_END_USER_ID_HEADER) || undefined,
+      customerId: req.header(PROXY_CUSTOMER_ID_HEADER) || undefined,
+    };
+
+    await forwardProxyRequest(req, res, provider, req.params[0], async (call) => {
+      const data = ingestTelemetryLogSchema.parse({ ...call, ...scope, ...trace, ...attribution, kind: "llm", workspaceId });
+      const resolveCost = createCostResolver(workspaceId);
+      // Calls to models missing from the catalog are still recorded, at zero cost
+      const log = await storage.createTelemetryLog(
+        await resolveCost(data).catch(() => resolveCost({ ...data, cost: "0" }))
+      );
+      broadcastLog(log);
+    });
+  };
+
+  app.all(
+    "/proxy/openai/v1/*",
+    validateApiKey("ingest", PROXY_API_KEY_HEADER),
+    rateLimitIngestion,
+    proxyTo(openAIProxyProvider)
+  );
+
+  app.all(
+    "/proxy/anthropic/v1/*",
+    validateApiKey("ingest", PROXY_API_KEY_HEADER),
+    rateLimitIngestion,
+    proxyTo(anthropicProxyProvider)
+  );
+
+  // ==================== Model Prices ====================
+  // Price payload accepts numbers or numeric strings, stored as decimals (USD per 1M tokens)
+  const priceField = z.coerce.number().nonnegative().transform((value) => value.toString());
+  const modelPriceSchema = insertModelPriceSchema.extend({
+    inputPrice: priceField,
+    outputPrice: priceField,
+    cachedInputPrice: priceField.nullable().optional(),
+    cacheWriteInputPrice: priceField.nullable().optional(),
+    effectiveFrom: z.coerce.date().optional(),
+  });
+
+  // List the global catalog plus this workspace's overrides
+  app.get("/api/model-prices", isAuthenticated, requireWorkspaceMembership, async (req: any, res) => {
+    try {
+      const prices = await storage.getModelPrices(req.workspaceId);
+      res.json(prices);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Create a workspace price override (fine-tuned or negotiated-rate models)
+  app.post("/api/model-prices", isAuthenticated, requireWorkspaceMembership, async (req: any, res) => {
+    try {
+      if (req.workspaceMember.role !== "owner" && req.workspaceMember.role !== "admin") {
+        return res.status(403).json({ error: "Only owners and admins can manage model prices" });
+      }
+
+      const data = modelPriceSchema.parse(req.body);
+
+      // Always scope overrides to the verified workspace, never the global catalog
+      const price = await storage.createModelPrice({
+        ...data,
+        workspaceId: req.workspaceId,
       });
+      res.status(201).json(price);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-      res.status(201).json(log);
+  app.delete("/api/model-prices/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const price = await storage.getModelPrice(req.params.id);
+      if (!price || !price.workspaceId) {
+        return res.status(404).json({ error: "Model price override not found" });
+      }
+
+      // Verify requester is owner or admin of the override's workspace
+      const userId = req.user.id;
+      const member = await storage.getWorkspaceMember(price.workspaceId, userId);
+      if (!member || (member.role !== "owner" && member.role !== "admin")) {
+        return res.status(403).json({ error: "Only owners and admins can manage model prices" });
+      }
+
+      await storage.deleteModelPrice(req.params.id);
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // ==================== Budgets ====================
+  const budgetSchema = insertBudgetSchema.extend({
+    amount: z.coerce.number().positive().transform((value) => value.toFixed(2)),
+  });
+
+  // Ensure scope-specific fields are present and the project belongs to the workspace
+  const validateBudgetScope = async (
+    budget: { scope: string; projectId?: string | null; environment?: string | null },
+    workspaceId: string
+  ): Promise<string | null> => {
+    if (budget.scope === "project") {
+      if (!budget.projectId) return "projectId is required for project budgets";
+      const project = await storage.getProject(budget.projectId);
+      if (!project || project.workspaceId !== workspaceId) {
+        return "Project does not belong to this workspace";
+      }
+    }
+    if (budget.scope === "environment" && !budget.environment) {
+      return "environment is required for environment budgets";
+    }
+    return null;
+  };
+
+  // List budgets with their current-period burn
+  app.get("/api/budgets", isAuthenticated, requireWorkspaceMembership, async (req: any, res) => {
+    try {
+      const workspaceBudgets = await storage.getBudgets(req.workspaceId);
+      const statuses = await Promise.all(workspaceBudgets.map((budget) => getBudgetStatus(budget)));
+      res.json(statuses);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/budgets/alerts", isAuthenticated, requireWorkspaceMembership, async (req: any, res) => {
+    try {
+      const alerts = await storage.getBudgetAlerts(req.workspaceId);
+      res.json(alerts);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/budgets", isAuthenticated, requireWorkspaceMembership, async (req: any, res) => {
+    try {
+      if (req.workspaceMember.role !== "owner" && req.workspaceMember.role !== "admin") {
+        return res.status(403).json({ error: "Only owners and admins can manage budgets" });
+      }
+
+      const data = budgetSchema.parse(req.body);
+      const scopeError = await validateBudgetScope(data, req.workspaceId);
+      if (scopeError) {
+        return res.status(400).json({ error: scopeError });
+      }
+
+      // Always use verified workspaceId from middleware, never trust client input
+      const budget = await storage.createBudget({
+        ...data,
+        projectId: data.scope === "project" ? data.projectId : null,
+        environment: data.scope === "environment" ? data.environment : null,
+        workspaceId: req.workspaceId,
+      });
+      res.status(201).json(await getBudgetStatus(budget));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/budgets/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const budget = await storage.getBudget(req.params.id);
+      if (!budget) {
+        return res.status(404).json({ error: "Budget not found" });
+      }
+
+      // Verify requester is owner or admin
+      const member = await storage.getWorkspaceMember(budget.workspaceId, req.user.id);
+      if (!member || (member.role !== "owner" && member.role !== "admin")) {
+        return res.status(403).json({ error: "Only owners and admins can manage budgets" });
+      }
+
+      const data = budgetSchema.omit({ workspaceId: true }).partial().parse(req.body);
+      const merged = { ...budget, ...data };
+      const scopeError = await validateBudgetScope(merged, budget.workspaceId);
+      if (scopeError) {
+        return res.status(400).json({ error: scopeError });
+      }
+
+      const updated = await storage.updateBudget(budget.id, {
+        ...data,
+        projectId: merged.scope === "project" ? merged.projectId : null,
+        environment: merged.scope === "environment" ? merged.environment : null,
+      });
+      res.json(updated ? await getBudgetStatus(updated) : null);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/budgets/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const budget = await storage.getBudget(req.params.id);
+      if (!budget) {
+        return res.status(404).json({ error: "Budget not found" });
+      }
+
+      // Verify requester is owner or admin
+      const member = await storage.getWorkspaceMember(budget.workspaceId, req.user.id);
+      if (!member || (member.role !== "owner" && member.role !== "admin")) {
+        return res.status(403).json({ error: "Only owners and admins can manage budgets" });
+      }
+
+      await storage.deleteBudget(budget.id);
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // ==================== Retention ====================
+  const retentionPolicySchema = insertRetentionPolicySchema.omit({ workspaceId: true });
+
+  app.get("/api/retention/policies", isAuthenticated, requireWorkspaceMembership, async (req: any, res) => {
+    try {
+      const policies = await storage.getRetentionPolicies(req.workspaceId);
+      res.json(policies);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/retention/runs", isAuthenticated, requireWorkspaceMembership, async (req: any, res) => {
+    try {
+      const runs = await storage.getRetentionRuns(req.workspaceId);
+      res.json(runs);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Create or replace the policy for the workspace (projectId null) or one project
+  app.put("/api/retention/policies", isAuthenticated, requireWorkspaceMembership, async (req: any, res) => {
+    try {
+      if (req.workspaceMember.role !== "owner" && req.workspaceMember.role !== "admin") {
+        return res.status(403).json({ error: "Only owners and admins can manage retention policies" });
+      }
+
+      const data = retentionPolicySchema.parse(req.body);
+      if (data.projectId) {
+        const project = await storage.getProject(data.projectId);
+        if (!project || project.workspaceId !== req.workspaceId) {
+          return res.status(400).json({ error: "Project does not belong to this workspace" });
+        }
+      }
+
+      const policy = await storage.upsertRetentionPolicy({
+        ...data,
+        projectId: data.projectId || null,
+        workspaceId: req.workspaceId,
+      });
+      res.json(policy);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/retention/policies/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const policy = await storage.getRetentionPolicy(req.params.id);
+      if (!policy) {
+        return res.status(404).json({ error: "Retention policy not found" });
+      }
+
+      // Verify requester is owner or admin
+      const member = await storage.getWorkspaceMember(policy.workspaceId, req.user.id);
+      if (!member || (member.role !== "owner" && member.role !== "admin")) {
+        return res.status(403).json({ error: "Only owners and admins can manage retention policies" });
+      }
+
+      await storage.deleteRetentionPolicy(policy.id);
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Apply the workspace's policies now instead of waiting for the hourly job
+  app.post("/api/retention/run", isAuthenticated, requireWorkspaceMembership, async (req: any, res) => {
+    try {
+      if (req.workspaceMember.role !== "owner" && req.workspaceMember.role !== "admin") {
+        return res.status(403).json({ error: "Only owners and admins can manage retention policies" });
+      }
+
+      const runs = await applyWorkspaceRetention(req.workspaceId);
+      res.json(runs);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // ==================== Webhooks ====================
+  // Signing secrets are only returned when a webhook is created
+  const toWebhookSummary = ({ secret, ...webhook }: Webhook): WebhookSummary => webhook;
+
+  // Load a webhook and verify the requester can manage it
+  const getManagedWebhook = async (req: any, res: Response): Promise<Webhook | null> => {
+    const webhook = await storage.getWebhook(req.params.id);
+    if (!webhook) {
+      res.status(404).json({ error: "Webhook not found" });
+      return null;
+    }
+
+    const member = await storage.getWorkspaceMember(webhook.workspaceId, req.user.id);
+    if (!member || (member.role !== "owner" && member.role !== "admin")) {
+      res.status(403).json({ error: "Only owners and admins can manage webhooks" });
+      return null;
+    }
+
+    return webhook;
+  };
+
+  app.get("/api/webhooks", isAuthenticated, requireWorkspaceMembership, async (req: any, res) => {
+    try {
+      const workspaceWebhooks = await storage.getWebhooks(req.workspaceId);
+      res.json(workspaceWebhooks.map(toWebhookSummary));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/webhooks", isAuthenticated, requireWorkspaceMembership, async (req: any, res) => {
+    try {
+      if (req.workspaceMember.role !== "owner" && req.workspaceMember.role !== "admin") {
+        return res.status(403).json({ error: "Only owners and admins can manage webhooks" });
+      }
+
+      const data = insertWebhookSchema.parse(req.body);
+
+      // Always use verified workspaceId from middleware, never trust client input
+      const webhook = await storage.createWebhook({
+        ...data,
+        workspaceId: req.workspaceId,
+        secret: generateWebhookSecret(),
+      });
+      res.status(201).json(webhook);
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
+  app.patch("/api/webhooks/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const webhook = await getManagedWebhook(req, res);
+      if (!webhook) return;
+
+      const data = insertWebhookSchema.omit({ workspaceId: true }).partial().parse(req.body);
+      const updated = await storage.updateWebhook(webhook.id, data);
+      res.json(updated ? toWebhookSummary(updated) : null);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/webhooks/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const webhook = await getManagedWebhook(req, res);
+      if (!webhook) return;
+
+      await storage.deleteWebhook(webhook.id);
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/webhooks/:id/deliveries", isAuthenticated, async (req: any, res) => {
+    try {
+      const webhook = await getManagedWebhook(req, res);
+      if (!webhook) return;
+
+      const deliveries = await storage.getWebhookDeliveries(webhook.id);
+      res.json(deliveries);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Send a webhook.test event and report the outcome of the first attempt
+  app.post("/api/webhooks/:id/test", isAuthenticated, async (req: any, res) => {
+    try {
+      const webhook = await getManagedWebhook(req, res);
+      if (!webhook) return;
+
+      const delivery = await sendTestEvent(webhook);
+      res.json(delivery);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // ==================== Alerts ====================
+  const MAX_ALERT_INCIDENTS = 500;
+
+  const alertRuleSchema = insertAlertRuleSchema.extend({
+    threshold: z.coerce.number().nonnegative().transform((value) => value.toFixed(6)),
+  });
+
+  // Ensure the rule's project and channels belong to the workspace
+  const validateAlertRuleReferences = async (
+    rule: { projectId?: string | null; channelIds?: string[] },
+    workspaceId: string
+  ): Promise<string | null> => {
+    if (rule.projectId) {
+      const project = await storage.getProject(rule.projectId);
+      if (!project || project.workspaceId !== workspaceId) {
+        return "Project does not belong to this workspace";
+      }
+    }
+    if (rule.channelIds && rule.channelIds.length > 0) {
+      const channelIds = new Set((await storage.getAlertChannels(workspaceId)).map((channel) => channel.id));
+      if (rule.channelIds.some((id) => !channelIds.has(id))) {
+        return "Channel does not belong to this workspace";
+      }
+    }
+    return null;
+  };
+
+  // Verify the requester can manage alerts in the workspace that owns an entity
+  const canManageAlerts = async (workspaceId: string, req: any, res: Response): Promise<boolean> => {
+    const member = await storage.getWorkspaceMember(workspaceId, req.user.id);
+    if (!member || (member.role !== "owner" && member.role !== "admin")) {
+      res.status(403).json({ error: "Only owners and admins can manage alerts" });
+      return false;
+    }
+    return true;
+  };
+
+  const getManagedAlertRule = async (req: any, res: Response): Promise<AlertRule | null> => {
+    const rule = await storage.getAlertRule(req.params.id);
+    if (!rule) {
+      res.status(404).json({ error: "Alert rule not found" });
+      return null;
+    }
+    return (await canManageAlerts(rule.workspaceId, req, res)) ? rule : null;
+  };
+
+  const getManagedAlertSilence = async (req: any, res: Response): Promise<AlertSilence | null> => {
+    const silence = await storage.getAlertSilence(req.params.id);
+    if (!silence) {
+      res.status(404).json({ error: "Silence not found" });
+      return null;
+    }
+    return (await canManageAlerts(silence.workspaceId, req, res)) ? silence : null;
+  };
+
+  const getManagedAlertChannel = async (req: any, res: Response): Promise<AlertChannel | null> => {
+    const channel = await storage.getAlertChannel(req.params.id);
+    if (!channel) {
+      res.status(404).json({ error: "Alert channel not found" });
+      return null;
+    }
+    return (await canManageAlerts(channel.workspaceId, req, res)) ? channel : null;
+  };
+
+  app.get("/api/alerts/rules", isAuthenticated, requireWorkspaceMembership, async (req: any, res) => {
+    try {
+      const rules = await storage.getAlertRules(req.workspaceId);
+      res.json(rules);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/alerts/rules", isAuthenticated, requireWorkspaceMembership, async (req: any, res) => {
+    try {
+      if (req.workspaceMember.role !== "owner" && req.workspaceMember.role !== "admin") {
+        return res.status(403).json({ error: "Only owners and admins can manage alerts" });
+      }
+
+      const data = alertRuleSchema.parse(req.body);
+      const referenceError = await validateAlertRuleReferences(data, req.workspaceId);
+      if (referenceError) {
+        return res.status(400).json({ error: referenceError });
+      }
+
+      // Always use verified workspaceId from middleware, never trust client input
+      const rule = await storage.createAlertRule({ ...data, workspaceId: req.workspaceId });
+      res.status(201).json(rule);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/alerts/rules/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const rule = await getManagedAlertRule(req, res);
+      if (!rule) return;
+
+      const data = alertRuleSchema.omit({ workspaceId: true }).partial().parse(req.body);
+      const referenceError = await validateAlertRuleReferences(data, rule.workspaceId);
+      if (referenceError) {
+        return res.status(400).json({ error: referenceError });
+      }
+
+      // A changed condition or a disabled rule closes any open incident and starts over
+      const conditionChanged = ALERT_CONDITION_FIELDS.some(
+        (field) => data[field] !== undefined && data[field] !== rule[field]
+      );
+      if (conditionChanged) {
+        await resetAlertRule(rule);
+      }
+
+      const updated = await storage.updateAlertRule(rule.id, data);
+      res.json(updated);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/alerts/rules/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const rule = await getManagedAlertRule(req, res);
+      if (!rule) return;
+
+      // Incidents are kept as history; close the open one so it does not show as firing forever
+      await storage.resolveAlertIncidents(rule.id, new Date());
+      await storage.deleteAlertRule(rule.id);
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Alert history, newest first; ?status=open|resolved and ?ruleId narrow it down
+  app.get("/api/alerts/incidents", isAuthenticated, requireWorkspaceMembership, async (req: any, res) => {
+    try {
+      const status = z.enum(["all", "open", "resolved"]).safeParse(req.query.status || "all");
+      if (!status.success) {
+        return res.status(400).json({ error: "status must be one of: all, open, resolved" });
+      }
+
+      let limit = 100;
+      if (req.query.limit) {
+        limit = parseInt(req.query.limit as string, 10);
+        if (isNaN(limit) || limit < 1 || limit > MAX_ALERT_INCIDENTS) {
+          return res.status(400).json({ error: `limit must be between 1 and ${MAX_ALERT_INCIDENTS}` });
+        }
+      }
+
+      const incidents = await storage.getAlertIncidents(
+        req.workspaceId,
+        {
+          ruleId: (req.query.ruleId as string) || undefined,
+          open: status.data === "all" ? undefined : status.data === "open",
+        },
+        limit
+      );
+      res.json(incidents);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/alerts/silences", isAuthenticated, requireWorkspaceMembership, async (req: any, res) => {
+    try {
+      const silences = await storage.getAlertSilences(req.workspaceId);
+      res.json(silences);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/alerts/silences", isAuthenticated, requireWorkspaceMembership, async (req: any, res) => {
+    try {
+      if (req.workspaceMember.role !== "owner" && req.workspaceMember.role !== "admin") {
+        return res.status(403).json({ error: "Only owners and admins can manage alerts" });
+      }
+
+      const data = insertAlertSilenceSchema
+        .omit({ createdBy: true })
+        .extend({
+          startsAt: z.coerce.date().optional(),
+          endsAt: z.coerce.date(),
+        })
+        .parse(req.body);
+      const startsAt = data.startsAt ?? new Date();
+      if (data.endsAt <= startsAt) {
+        return res.status(400).json({ error: "endsAt must be after startsAt" });
+      }
+      if (data.ruleId) {
+        const rule = await storage.getAlertRule(data.ruleId);
+        if (!rule || rule.workspaceId !== req.workspaceId) {
+          return res.status(400).json({ error: "Alert rule does not belong to this workspace" });
+        }
+      }
+
+      const silence = await storage.createAlertSilence({
+        ...data,
+        startsAt,
+        workspaceId: req.workspaceId,
+        createdBy: req.user.id,
+      });
+      res.status(201).json(silence);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/alerts/silences/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const silence = await getManagedAlertSilence(req, res);
+      if (!silence) return;
+
+      await storage.deleteAlertSilence(silence.id);
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Channels are listed without their config, which can hold credentials
+  app.get("/api/alerts/channels", isAuthenticated, requireWorkspaceMembership, async (req: any, res) => {
+    try {
+      const channels = await storage.getAlertChannels(req.workspaceId);
+      res.json(channels.map(summarizeAlertChannel));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/alerts/channels", isAuthenticated, requireWorkspaceMembership, async (req: any, res) => {
+    try {
+      if (req.workspaceMember.role !== "owner" && req.workspaceMember.role !== "admin") {
+        return res.status(403).json({ error: "Only owners and admins can manage alerts" });
+      }
+
+      const data = insertAlertChannelSchema.parse(req.body);
+      const channel = await storage.createAlertChannel({
+        ...data,
+        config: parseAlertChannelConfig(data.type, data.config),
+        workspaceId: req.workspaceId,
+      });
+      res.status(201).json(summarizeAlertChannel(channel));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/alerts/channels/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const channel = await getManagedAlertChannel(req, res);
+      if (!channel) return;
+
+      // The type is fixed once created; a new config replaces the old one entirely
+      const data = insertAlertChannelSchema.omit({ workspaceId: true, type: true }).partial().parse(req.body);
+      const updated = await storage.updateAlertChannel(channel.id, {
+        ...data,
+        config: data.config ? parseAlertChannelConfig(channel.type as AlertChannelType, data.config) : undefined,
+      });
+      res.json(updated ? summarizeAlertChannel(updated) : null);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/alerts/channels/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const channel = await getManagedAlertChannel(req, res);
+      if (!channel) return;
+
+      await storage.deleteAlertChannel(channel.id);
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Send a test notification through the channel and report whether it was delivered
+  app.post("/api/alerts/channels/:id/test", isAuthenticated, async (req: any, res) => {
+    try {
+      const channel = await getManagedAlertChannel(req, res);
+      if (!channel) return;
+
+      try {
+        await sendTestAlertNotification(channel);
+        res.json({ success: true, error: null });
+      } catch (error: any) {
+        res.json({ success: false, error: error.message });
+      }
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // ==================== Stripe Subscription Routes ====================
   
   // Create Stripe checkout session
@@ -992,6 +2409,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           client = {
             socket: ws,
             workspaceId: validation.workspaceId,
+            projectId: validation.projectId,
+            environment: validation.environment,
           };
           wsClients.add(client);
 
@@ -0,0 +1,64 @@
+// Backfill telemetry_hourly_rollups from the raw logs for hours ingested before rollups existed
+// (or copied in by partition-telemetry-logs.ts).
+//
+//   npm run db:backfill-rollups [-- --from 2025-01-01 --to 2025-06-01]
+//
+// Each hour in the range is recomputed from the logs still present and replaces its rollup rows, so
+// re-running is safe. Hours whose logs were already trimmed by retention keep only what is left,
+// so limit --from to data that is still complete. The default range is everything up to the start
+// of the current hour, which ingestion is already maintaining. Re-run it once on databases that
+// rolled up tool, retrieval or chain spans as requests before rollup requests and latency were
+// limited to LLM calls.
+import { sql } from "drizzle-orm";
+import { db, pool } from "../db";
+import { storage } from "../storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function hourStart(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / (60 * 60 * 1000)) * 60 * 60 * 1000);
+}
+
+function parseDateArg(name: string): Date | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index === -1) return undefined;
+
+  const value = process.argv[index + 1];
+  const date = value ? new Date(value) : new Date(NaN);
+  if (isNaN(date.getTime())) {
+    throw new Error(`--${name} must be followed by a date, e.g. --${name} 2025-01-01`);
+  }
+  return date;
+}
+
+async function main() {
+  let from = parseDateArg("from");
+  const to = hourStart(parseDateArg("to") ?? new Date());
+
+  if (!from) {
+    const { rows: [range] } = await db.execute<{ min: string | null }>(
+      sql`select min(timestamp)::text as min from telemetry_logs`
+    );
+    if (!range?.min) {
+      console.log("No telemetry logs to backfill");
+      return;
+    }
+    from = new Date(`${range.min}Z`);
+  }
+  from = hourStart(from);
+
+  // A day at a time keeps each statement's scan and lock footprint small
+  let rows = 0;
+  for (let start = from; start < to; start = new Date(start.getTime() + DAY_MS)) {
+    const end = new Date(Math.min(start.getTime() + DAY_MS, to.getTime()));
+    rows += await storage.rebuildTelemetryRollups(start, end);
+    console.log(`Rolled up ${start.toISOString()} to ${end.toISOString()} (${rows.toLocaleString()} rollup rows so far)`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("Rollup backfill failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,62 @@
+// One-time migration of api_keys from plaintext keys to hashed keys. Run it before db:push on any
+// database created before keys were hashed, or the push cannot add the NOT NULL key_hash and
+// key_prefix columns to a non-empty table.
+//
+//   npm run db:hash-api-keys
+//
+// In one transaction: add key_hash and key_prefix as nullable columns, fill them from the plaintext
+// key (the same SHA-256 hex digest and visible prefix the server computes), make them NOT NULL,
+// and drop the plaintext key. Existing keys keep working. Re-running after success does nothing.
+import { sql } from "drizzle-orm";
+import { db, pool } from "../db";
+import { VISIBLE_PREFIX_LENGTH } from "../api-keys";
+
+async function columnExists(table: string, column: string): Promise<boolean> {
+  const result = await db.execute<{ exists: boolean }>(sql`
+    select exists (
+      select 1 from information_schema.columns
+      where table_schema = current_schema() and table_name = ${table} and column_name = ${column}
+    ) as exists
+  `);
+  return !!result.rows[0]?.exists;
+}
+
+async function main() {
+  if (!(await columnExists("api_keys", "key"))) {
+    console.log("api_keys has no plaintext key column; nothing to migrate");
+    return;
+  }
+
+  const migrated = await db.transaction(async (tx) => {
+    await tx.execute(sql.raw(`
+      alter table api_keys
+        add column if not exists key_hash text,
+        add column if not exists key_prefix text
+    `));
+    // convert_to hashes the UTF-8 bytes of the key, exactly as hashApiKey does in Node
+    const result = await tx.execute(sql`
+      update api_keys
+      set key_hash = encode(sha256(convert_to(key, 'UTF8')), 'hex'),
+          key_prefix = left(key, ${VISIBLE_PREFIX_LENGTH})
+      where key_hash is null
+    `);
+    await tx.execute(sql.raw(`
+      alter table api_keys
+        alter column key_hash set not null,
+        alter column key_prefix set not null,
+        add constraint api_keys_key_hash_unique unique (key_hash)
+    `));
+    // Also drops the unique constraint and index that were defined on the plaintext key
+    await tx.execute(sql.raw(`alter table api_keys drop column key`));
+    return result.rowCount ?? 0;
+  });
+
+  console.log(`Hashed ${migrated} API keys and dropped the plaintext key column`);
+}
+
+main()
+  .catch((error) => {
+    console.error("API key migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
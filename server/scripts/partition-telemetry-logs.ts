@@ -0,0 +1,189 @@
+// One-time conversion of telemetry_logs into a table range-partitioned by month.
+//
+//   npm run db:partition-telemetry [-- --drop-legacy]
+//
+// 1. An empty partitioned telemetry_logs_partitioned is created with the same columns, keys and
+//    indexes as telemetry_logs, plus monthly partitions covering its data.
+// 2. Existing rows are copied into it a day at a time, oldest first, while telemetry_logs keeps
+//    serving reads and ingestion. Copies skip rows that already exist, so the script can be re-run
+//    after an interruption.
+// 3. In one transaction telemetry_logs is locked against writes, the rows ingested since the copy
+//    started are copied over, and the tables swap names: the old table becomes telemetry_logs_legacy
+//    and the partitioned one becomes telemetry_logs. Queries never see a partially filled table.
+// 4. With --drop-legacy, the legacy table is dropped once every row is confirmed copied.
+import { sql } from "drizzle-orm";
+import { db, pool } from "../db";
+import { DEFAULT_PARTITION, ensureTelemetryPartitions, isTelemetryPartitioned } from "../partitions";
+
+const STAGING_TABLE = "telemetry_logs_partitioned";
+const LEGACY_TABLE = "telemetry_logs_legacy";
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Rows are timestamped when their insert transaction starts, so the final catch-up also re-checks
+// this much before the copy started to pick up inserts that were still in flight
+const CATCH_UP_MARGIN_MS = 10 * 60 * 1000;
+
+async function tableExists(name: string): Promise<boolean> {
+  const result = await db.execute<{ exists: boolean }>(sql`select to_regclass(${name}) is not null as exists`);
+  return !!result.rows[0]?.exists;
+}
+
+// Staging tables and indexes are named like the live ones with telemetry_logs_partitioned in place of
+// telemetry_logs, and are renamed to the live names in the swap
+function stagingName(name: string): string {
+  return name.replace(/^telemetry_logs/, STAGING_TABLE);
+}
+
+async function createStagingTable(): Promise<void> {
+  const { rows: [range] } = await db.execute<{ min: string | null }>(
+    sql`select min(timestamp)::text as min from telemetry_logs`
+  );
+
+  const created = await db.transaction(async (tx) => {
+    const { rows: indexes } = await tx.execute<{ name: string; definition: string; constraint: boolean }>(sql`
+      select i.relname as name, pg_get_indexdef(i.oid) as definition,
+        exists (select 1 from pg_constraint c where c.conindid = i.oid) as constraint
+      from pg_index x
+      join pg_class i on i.oid = x.indexrelid
+      where x.indrelid = to_regclass('telemetry_logs')
+    `);
+
+    await tx.execute(sql.raw(`
+      create table ${STAGING_TABLE} (like telemetry_logs including defaults)
+      partition by range ("timestamp")
+    `));
+    await tx.execute(sql.raw(`alter table ${STAGING_TABLE} add constraint ${stagingName("telemetry_logs_pkey")} primary key (id, timestamp)`));
+    // Foreign key names only need to be unique per table, so these already have their final names
+    await tx.execute(sql.raw(`
+      alter table ${STAGING_TABLE}
+        add constraint telemetry_logs_workspace_id_workspaces_id_fk
+          foreign key (workspace_id) references workspaces(id) on delete cascade,
+        add constraint telemetry_logs_project_id_projects_id_fk
+          foreign key (project_id) references projects(id) on delete set null
+    `));
+    for (const index of indexes.filter((index) => !index.constraint)) {
+      await tx.execute(sql.raw(index.definition
+        .replace(`INDEX ${index.name} ON`, `INDEX ${stagingName(index.name)} ON`)
+        .replace(/ ON (ONLY )?(\S+\.)?telemetry_logs /, ` ON $2${STAGING_TABLE} `)));
+    }
+
+    // Partitions from the oldest month through the months ahead, so no copied row lands nowhere
+    return await ensureTelemetryPartitions(new Date(), range?.min ? new Date(`${range.min}Z`) : undefined, tx, STAGING_TABLE);
+  });
+
+  console.log(`Created ${STAGING_TABLE} with ${created.length} monthly partitions and ${DEFAULT_PARTITION}`);
+}
+
+// Copy every row stored before the copy started; returns that start time for the catch-up
+async function copyRows(): Promise<Date> {
+  // now()::timestamp is what new rows are stamped with
+  const { rows: [range] } = await db.execute<{ min: string | null; now: string }>(
+    sql`select min(timestamp)::text as min, now()::timestamp::text as now from telemetry_logs`
+  );
+  const startedAt = new Date(`${range.now}Z`);
+  if (!range.min) {
+    console.log("telemetry_logs is empty; nothing to copy");
+    return startedAt;
+  }
+
+  let start = new Date(`${range.min}Z`);
+  let copied = 0;
+
+  while (start < startedAt) {
+    const end = new Date(Math.min(start.getTime() + DAY_MS, startedAt.getTime()));
+    const result = await db.execute(sql`
+      insert into ${sql.raw(STAGING_TABLE)}
+      select * from telemetry_logs
+      where timestamp >= ${start.toISOString()}::timestamp and timestamp < ${end.toISOString()}::timestamp
+      on conflict do nothing
+    `);
+    copied += result.rowCount ?? 0;
+    console.log(`Copied ${start.toISOString().slice(0, 10)} (${copied.toLocaleString()} rows so far)`);
+    start = end;
+  }
+
+  return startedAt;
+}
+
+async function swapTables(copyStartedAt: Date): Promise<void> {
+  const caughtUp = await db.transaction(async (tx) => {
+    // Reads continue while the lock is held; writes wait until the swap commits
+    await tx.execute(sql`lock table telemetry_logs in exclusive mode`);
+    const since = new Date(copyStartedAt.getTime() - CATCH_UP_MARGIN_MS);
+    const result = await tx.execute(sql`
+      insert into ${sql.raw(STAGING_TABLE)}
+      select * from telemetry_logs
+      where timestamp >= ${since.toISOString()}::timestamp
+      on conflict do nothing
+    `);
+
+    const { rows: liveIndexes } = await tx.execute<{ name: string }>(sql`
+      select i.relname as name from pg_index x join pg_class i on i.oid = x.indexrelid
+      where x.indrelid = to_regclass('telemetry_logs')
+    `);
+    const { rows: stagingIndexes } = await tx.execute<{ name: string }>(sql`
+      select i.relname as name from pg_index x join pg_class i on i.oid = x.indexrelid
+      where x.indrelid = to_regclass(${STAGING_TABLE})
+    `);
+
+    await tx.execute(sql.raw(`alter table telemetry_logs rename to ${LEGACY_TABLE}`));
+    for (const index of liveIndexes) {
+      await tx.execute(sql.raw(`alter index "${index.name}" rename to "${index.name}_legacy"`));
+    }
+    await tx.execute(sql.raw(`alter table ${STAGING_TABLE} rename to telemetry_logs`));
+    for (const index of stagingIndexes) {
+      await tx.execute(sql.raw(`alter index "${index.name}" rename to "${index.name.replace(STAGING_TABLE, "telemetry_logs")}"`));
+    }
+
+    // The copy may have run into a new month
+    await ensureTelemetryPartitions(new Date(), undefined, tx);
+    return result.rowCount ?? 0;
+  });
+
+  console.log(`Caught up ${caughtUp.toLocaleString()} rows and swapped in the partitioned telemetry_logs`);
+}
+
+async function dropLegacyTable(): Promise<void> {
+  const { rows: [missing] } = await db.execute<{ count: number }>(sql.raw(`
+    select count(*)::int as count from ${LEGACY_TABLE} l
+    where not exists (select 1 from telemetry_logs t where t.id = l.id and t.timestamp = l.timestamp)
+  `));
+  if ((missing?.count ?? 0) > 0) {
+    throw new Error(`${missing.count} legacy rows are missing from telemetry_logs; check them before dropping ${LEGACY_TABLE}`);
+  }
+
+  await db.execute(sql.raw(`drop table ${LEGACY_TABLE}`));
+  console.log(`Dropped ${LEGACY_TABLE}`);
+}
+
+async function main() {
+  const dropLegacy = process.argv.includes("--drop-legacy");
+
+  if (!(await isTelemetryPartitioned())) {
+    if (await tableExists(LEGACY_TABLE)) {
+      throw new Error(`${LEGACY_TABLE} already exists but telemetry_logs is not partitioned; resolve manually`);
+    }
+    if (await tableExists(STAGING_TABLE)) {
+      console.log(`Resuming the copy into ${STAGING_TABLE}`);
+    } else {
+      await createStagingTable();
+    }
+    await swapTables(await copyRows());
+  } else {
+    console.log("telemetry_logs is already partitioned");
+  }
+
+  if (await tableExists(LEGACY_TABLE)) {
+    if (dropLegacy) {
+      await dropLegacyTable();
+    } else {
+      console.log(`Re-run with --drop-legacy to remove ${LEGACY_TABLE}`);
+    }
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("Partition migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,400 @@
+// Log search query language, compiled to SQL conditions on telemetry_logs.
+//
+//   query    := or
+//   or       := and ("OR" and)*
+//   and      := unary ("AND"? unary)*        adjacent terms are ANDed
+//   unary    := "NOT" unary | primary
+//   primary  := "(" or ")" | field ":" "="? value | value
+//   value    := word | "quoted phrase"
+//
+// Text fields match case-insensitive substrings (`model:gpt-4`) or exact values with `=`
+// (`model:=gpt-4o`, `errorType:="Rate limit"`). Numeric and date fields accept >, >=, <, <= and =
+// (`latencyMs:>2000`). `metadata.a.b:value` matches a JSONB path. Bare words and quoted phrases
+// use full-text search over prompt and response (stemmed, ranked and GIN-indexed); use `prompt:`
+// for substrings.
+import { and, not, or, sql, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import { telemetryLogs, telemetrySearchDocument } from "@shared/schema";
+
+export const MAX_SEARCH_QUERY_LENGTH = 1000;
+const MAX_NESTING_DEPTH = 32;
+
+export class SearchQueryError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+    this.name = "SearchQueryError";
+  }
+}
+
+export type SearchOperator = ":" | "=" | ">" | ">=" | "<" | "<=";
+
+export type SearchNode =
+  | { type: "and"; children: SearchNode[] }
+  | { type: "or"; children: SearchNode[] }
+  | { type: "not"; child: SearchNode }
+  | { type: "field"; field: string; operator: SearchOperator; value: string; position: number }
+  | { type: "text"; value: string; position: number };
+
+// ==================== Tokenizer ====================
+
+type Token =
+  | { type: "lparen" | "rparen" | "and" | "or" | "not"; position: number }
+  | { type: "field"; name: string; position: number }
+  | { type: "word"; value: string; position: number }
+  // `exact` marks a phrase written as field:="..."
+  | { type: "phrase"; value: string; exact?: boolean; position: number };
+
+const FIELD_NAME = /^[A-Za-z_][\w.]*$/;
+const KEYWORDS: Record<string, "and" | "or" | "not"> = { and: "and", or: "or", not: "not" };
+
+function isBoundary(char: string): boolean {
+  return /\s/.test(char) || char === "(" || char === ")" || char === '"';
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  // After a field token the value runs to the next space or paren, so it may contain ":"
+  let expectValue = false;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      if (expectValue) {
+        const field = tokens[tokens.length - 1] as Extract<Token, { type: "field" }>;
+        throw new SearchQueryError(`Missing value for field "${field.name}"`, field.position);
+      }
+      i++;
+      continue;
+    }
+
+    // An exact match on a quoted value: field:="..."
+    const exact = expectValue && input.startsWith('="', i);
+    if (char === '"' || exact) {
+      const start = i;
+      i += exact ? 2 : 1;
+      let value = "";
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === "\\" && i + 1 < input.length) i++;
+        value += input[i++];
+      }
+      if (i >= input.length) {
+        throw new SearchQueryError("Unterminated quoted phrase", start);
+      }
+      i++;
+      tokens.push({ type: "phrase", value, ...(exact && { exact }), position: start });
+      expectValue = false;
+      continue;
+    }
+
+    if (char === "(" || char === ")") {
+      if (expectValue) {
+        const field = tokens[tokens.length - 1] as Extract<Token, { type: "field" }>;
+        throw new SearchQueryError(`Missing value for field "${field.name}"`, field.position);
+      }
+      tokens.push({ type: char === "(" ? "lparen" : "rparen", position: i++ });
+      continue;
+    }
+
+    const start = i;
+    if (expectValue) {
+      while (i < input.length && !/\s/.test(input[i]) && input[i] !== "(" && input[i] !== ")") i++;
+      tokens.push({ type: "word", value: input.slice(start, i), position: start });
+      expectValue = false;
+      continue;
+    }
+
+    while (i < input.length && !isBoundary(input[i]) && input[i] !== ":") i++;
+    const word = input.slice(start, i);
+
+    if (input[i] === ":" && FIELD_NAME.test(word)) {
+      tokens.push({ type: "field", name: word, position: start });
+      i++;
+      if (i >= input.length) {
+        throw new SearchQueryError(`Missing value for field "${word}"`, start);
+      }
+      expectValue = true;
+      continue;
+    }
+
+    // A colon that does not follow a field name is part of a plain search word
+    while (i < input.length && !isBoundary(input[i])) i++;
+    const value = input.slice(start, i);
+    const keyword = KEYWORDS[value.toLowerCase()];
+    tokens.push(keyword ? { type: keyword, position: start } : { type: "word", value, position: start });
+  }
+
+  return tokens;
+}
+
+// ==================== Parser ====================
+
+const OPERATOR_PREFIX = /^(>=|<=|>|<|=)/;
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private tokens: Token[], private length: number) {}
+
+  parse(): SearchNode {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next) {
+      throw new SearchQueryError(next.type === "rparen" ? 'Unexpected ")"' : "Unexpected token", next.position);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private parseOr(): SearchNode {
+    const children = [this.parseAnd()];
+    while (this.peek()?.type === "or") {
+      this.index++;
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  }
+
+  private parseAnd(): SearchNode {
+    const children = [this.parseUnary()];
+    while (true) {
+      const next = this.peek();
+      if (!next || next.type === "or" || next.type === "rparen") break;
+      if (next.type === "and") this.index++;
+      children.push(this.parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  }
+
+  private parseUnary(): SearchNode {
+    if (this.peek()?.type === "not") {
+      this.index++;
+      return { type: "not", child: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): SearchNode {
+    const token = this.peek();
+    if (!token) {
+      throw new SearchQueryError("Unexpected end of query", this.length);
+    }
+    this.index++;
+
+    switch (token.type) {
+      case "lparen": {
+        if (++this.depth > MAX_NESTING_DEPTH) {
+          throw new SearchQueryError(`Parentheses nested deeper than ${MAX_NESTING_DEPTH} levels`, token.position);
+        }
+        const node = this.parseOr();
+        if (this.peek()?.type !== "rparen") {
+          throw new SearchQueryError('Missing ")" for "(" opened here', token.position);
+        }
+        this.index++;
+        this.depth--;
+        return node;
+      }
+      case "field": {
+        const value = this.tokens[this.index++] as Extract<Token, { type: "word" | "phrase" }>;
+        // Operators only apply to unquoted values so a quoted ">" can still be searched for;
+        // a quoted value only takes the `=` written before its opening quote
+        const match = value.type === "word" ? value.value.match(OPERATOR_PREFIX) : null;
+        const exact = value.type === "phrase" && value.exact;
+        const operator = (exact ? "=" : match?.[1] ?? ":") as SearchOperator;
+        const operand = match ? value.value.slice(match[1].length) : value.value;
+        if (value.type === "word" && !operand) {
+          throw new SearchQueryError(`Missing value for field "${token.name}"`, value.position);
+        }
+        return { type: "field", field: token.name, operator, value: operand, position: token.position };
+      }
+      case "word":
+      case "phrase":
+        return { type: "text", value: token.value, position: token.position };
+      case "rparen":
+        throw new SearchQueryError('Unexpected ")"', token.position);
+      default:
+        throw new SearchQueryError(`Unexpected "${token.type.toUpperCase()}"; expected a search term`, token.position);
+    }
+  }
+}
+
+export function parseSearchQuery(query: string): SearchNode | null {
+  if (query.length > MAX_SEARCH_QUERY_LENGTH) {
+    throw new SearchQueryError(`Query exceeds ${MAX_SEARCH_QUERY_LENGTH} characters`, MAX_SEARCH_QUERY_LENGTH);
+  }
+  const tokens = tokenize(query);
+  if (tokens.length === 0) return null;
+  return new Parser(tokens, query.length).parse();
+}
+
+// ==================== SQL compilation ====================
+
+type FieldKind = "text" | "number" | "date";
+
+const SEARCH_FIELDS: Record<string, { column: AnyPgColumn; kind: FieldKind }> = {
+  model: { column: telemetryLogs.model, kind: "text" },
+  provider: { column: telemetryLogs.provider, kind: "text" },
+  prompt: { column: telemetryLogs.prompt, kind: "text" },
+  response: { column: telemetryLogs.response, kind: "text" },
+  status: { column: telemetryLogs.status, kind: "text" },
+  errorType: { column: telemetryLogs.errorType, kind: "text" },
+  errorMessage: { column: telemetryLogs.errorMessage, kind: "text" },
+  environment: { column: telemetryLogs.environment, kind: "text" },
+  projectId: { column: telemetryLogs.projectId, kind: "text" },
+  kind: { column: telemetryLogs.kind, kind: "text" },
+  name: { column: telemetryLogs.name, kind: "text" },
+  traceId: { column: telemetryLogs.traceId, kind: "text" },
+  spanId: { column: telemetryLogs.spanId, kind: "text" },
+  sessionId: { column: telemetryLogs.sessionId, kind: "text" },
+  endUserId: { column: telemetryLogs.endUserId, kind: "text" },
+  customerId: { column: telemetryLogs.customerId, kind: "text" },
+  errorHttpStatus: { column: telemetryLogs.errorHttpStatus, kind: "number" },
+  latencyMs: { column: telemetryLogs.latencyMs, kind: "number" },
+  promptTokens: { column: telemetryLogs.promptTokens, kind: "number" },
+  completionTokens: { column: telemetryLogs.completionTokens, kind: "number" },
+  totalTokens: { column: telemetryLogs.totalTokens, kind: "number" },
+  cachedTokens: { column: telemetryLogs.cachedTokens, kind: "number" },
+  cacheWriteTokens: { column: telemetryLogs.cacheWriteTokens, kind: "number" },
+  cost: { column: telemetryLogs.cost, kind: "number" },
+  timestamp: { column: telemetryLogs.timestamp, kind: "date" },
+  startedAt: { column: telemetryLogs.startedAt, kind: "date" },
+};
+
+// Field names are matched case-insensitively (latencyms, LatencyMs, ...)
+const FIELDS_BY_LOWER_NAME = new Map(Object.keys(SEARCH_FIELDS).map((name) => [name.toLowerCase(), name]));
+
+const COMPARISON_SQL: Record<Exclude<SearchOperator, ":">, SQL> = {
+  "=": sql.raw("="),
+  ">": sql.raw(">"),
+  ">=": sql.raw(">="),
+  "<": sql.raw("<"),
+  "<=": sql.raw("<="),
+};
+
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+function containsPattern(value: string): string {
+  return `%${value.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+}
+
+function parseNumber(node: Extract<SearchNode, { type: "field" }>): number {
+  if (!NUMBER_PATTERN.test(node.value)) {
+    throw new SearchQueryError(`Invalid number "${node.value}" for field "${node.field}"`, node.position);
+  }
+  return Number(node.value);
+}
+
+function compileMetadata(node: Extract<SearchNode, { type: "field" }>): SQL {
+  const path = node.field.split(".").slice(1);
+  if (path.some((segment) => !segment)) {
+    throw new SearchQueryError(`Invalid metadata path "${node.field}"`, node.position);
+  }
+  const pathLiteral = `{${path.join(",")}}`;
+  const text = sql`(${telemetryLogs.metadata} #>> ${pathLiteral}::text[])`;
+
+  if (node.operator === ":") {
+    return sql`${text} ilike ${containsPattern(node.value)}`;
+  }
+  if (node.operator === "=" && !NUMBER_PATTERN.test(node.value)) {
+    return sql`${text} = ${node.value}`;
+  }
+  // Compare only JSON numbers so string values never fail the numeric cast
+  const number = sql`(case when jsonb_typeof(${telemetryLogs.metadata} #> ${pathLiteral}::text[]) = 'number' then ${text}::numeric end)`;
+  return sql`${number} ${COMPARISON_SQL[node.operator]} ${parseNumber(node)}`;
+}
+
+function compileField(node: Extract<SearchNode, { type: "field" }>): SQL {
+  if (/^metadata\./i.test(node.field)) {
+    return compileMetadata(node);
+  }
+
+  const name = FIELDS_BY_LOWER_NAME.get(node.field.toLowerCase());
+  if (!name) {
+    throw new SearchQueryError(
+      `Unknown field "${node.field}". Known fields: ${Object.keys(SEARCH_FIELDS).join(", ")}, metadata.<path>`,
+      node.position
+    );
+  }
+  const { column, kind } = SEARCH_FIELDS[name];
+
+  if (kind === "text") {
+    if (node.operator === ":") return sql`${column} ilike ${containsPattern(node.value)}`;
+    if (node.operator === "=") return sql`${column} = ${node.value}`;
+    throw new SearchQueryError(`Operator "${node.operator}" is not supported for text field "${name}"`, node.position);
+  }
+
+  if (kind === "number") {
+    const operator = node.operator === ":" ? "=" : node.operator;
+    return sql`${column} ${COMPARISON_SQL[operator]} ${parseNumber(node)}`;
+  }
+
+  const date = new Date(node.value);
+  if (isNaN(date.getTime())) {
+    throw new SearchQueryError(`Invalid date "${node.value}" for field "${name}"`, node.position);
+  }
+  const operator = node.operator === ":" ? "=" : node.operator;
+  return sql`${column} ${COMPARISON_SQL[operator]} ${date.toISOString()}::timestamp`;
+}
+
+const searchDocument = telemetrySearchDocument(telemetryLogs);
+
+export interface CompiledSearch {
+  condition: SQL;
+  // ts_rank over the full-text terms that are not negated; absent when there are none
+  rank?: SQL;
+  // Positive words, phrases and prompt/response values for highlighting matches
+  highlightTerms: string[];
+}
+
+interface CompileContext {
+  rankQueries: SQL[];
+  highlightTerms: string[];
+}
+
+function compileText(value: string, context: CompileContext, negated: boolean): SQL {
+  // phraseto_tsquery keeps word order, so "order 1234" and ORD-1234 match as written
+  const query = sql`phraseto_tsquery('english', ${value})`;
+  if (!negated) {
+    context.rankQueries.push(query);
+    context.highlightTerms.push(value);
+  }
+  return sql`${searchDocument} @@ ${query}`;
+}
+
+function compileNode(node: SearchNode, context: CompileContext, negated: boolean): SQL {
+  switch (node.type) {
+    case "and":
+      return and(...node.children.map((child) => compileNode(child, context, negated)))!;
+    case "or":
+      return or(...node.children.map((child) => compileNode(child, context, negated)))!;
+    case "not":
+      // Rows where the condition is NULL (e.g. a missing metadata key) count as not matching it
+      return not(sql`coalesce(${compileNode(node.child, context, !negated)}, false)`);
+    case "field":
+      if (!negated && node.operator === ":" && /^(prompt|response)$/i.test(node.field)) {
+        context.highlightTerms.push(node.value);
+      }
+      return compileField(node);
+    case "text":
+      return compileText(node.value, context, negated);
+  }
+}
+
+// Parses and compiles a query; returns undefined for blank queries
+export function compileSearchQuery(query: string): CompiledSearch | undefined {
+  const node = parseSearchQuery(query);
+  if (!node) return undefined;
+
+  const context: CompileContext = { rankQueries: [], highlightTerms: [] };
+  const condition = compileNode(node, context, false);
+  const rank = context.rankQueries.length > 0
+    ? sql`ts_rank(${searchDocument}, ${sql.join(context.rankQueries, sql` || `)})`
+    : undefined;
+
+  return { condition, rank, highlightTerms: Array.from(new Set(context.highlightTerms)) };
+}
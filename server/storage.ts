@@ -6,6 +6,21 @@ import {
   telemetryLogs,
   users,
   workspaceMembers,
+  modelPrices,
+  budgets,
+  budgetAlerts,
+  webhooks,
+  webhookDeliveries,
+  rateLimitDrops,
+  retentionPolicies,
+  retentionRuns,
+  telemetryHourlyRollups,
+  alertRules,
+  alertIncidents,
+  alertSilences,
+  alertChannels,
+  telemetryTimeBuckets,
+  TELEMETRY_LATENCY_HISTOGRAM_BOUNDS,
   type Workspace,
   type InsertWorkspace,
   type Project,
@@ -18,9 +33,495 @@ import {
   type UpsertUser,
   type WorkspaceMember,
   type InsertWorkspaceMember,
+  type ModelPrice,
+  type InsertModelPrice,
+  type Budget,
+  type InsertBudget,
+  type BudgetAlert,
+  type InsertBudgetAlert,
+  type Webhook,
+  type InsertWebhook,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
+  type RateLimitDrop,
+  type RetentionPolicy,
+  type InsertRetentionPolicy,
+  type RetentionRun,
+  type InsertRetentionRun,
+  type AlertRule,
+  type InsertAlertRule,
+  type AlertIncident,
+  type InsertAlertIncident,
+  type AlertSilence,
+  type InsertAlertSilence,
+  type AlertChannel,
+  type InsertAlertChannel,
+  type TelemetryGroupBy,
+  type TelemetryTimeBucket,
+  type TelemetrySummary,
+  type TelemetryBreakdownRow,
+  type TelemetryTimeSeriesPoint,
+  type TelemetryUserGroupBy,
+  type TelemetryLogSort,
+  type TelemetryUserStatsRow,
+  type LatencyDistributionBucket,
+  type LatencyPercentileRow,
+  type LatencyPercentilePoint,
+  type LatencyPercentiles,
+  type ErrorRateGroupBy,
+  type ErrorRatePoint,
+  type ErrorGroup,
+  type TraceSummary,
+  type SessionSummary,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, gte, lte, sql } from "drizzle-orm";
+import type { CompiledSearch } from "./search-query";
+import { eq, desc, asc, and, or, gt, gte, lt, lte, isNull, inArray, notInArray, sql, getTableColumns, getTableName, type SQL, type AnyColumn } from "drizzle-orm";
+
+export interface TelemetryLogFilters {
+  projectId?: string;
+  environment?: string;
+  model?: string;
+  sessionId?: string;
+  endUserId?: string;
+  customerId?: string;
+  startDate?: Date;
+  endDate?: Date;
+  search?: CompiledSearch; // Compiled from the ?q= search query language
+}
+
+// Keyset pagination position: the (timestamp, id) of the last row on the previous page, plus its
+// search rank when sorting by relevance. Values are kept as Postgres text so they survive the round trip.
+export interface TelemetryCursor {
+  timestamp: string;
+  id: string;
+  rank?: string;
+}
+
+// Everything an alert rule can be evaluated against, computed in one pass over its window
+export interface AlertMetrics {
+  requests: number;
+  errors: number;
+  cost: number;
+  p95LatencyMs: number | null; // Null when there were no requests
+}
+
+export type AlertRuleEvaluation = Pick<AlertRule, "state" | "pendingSince" | "lastValue" | "lastEvaluatedAt">;
+
+export interface AlertIncidentFilters {
+  ruleId?: string;
+  open?: boolean; // True for unresolved incidents only, false for resolved only
+}
+
+export interface TelemetryLogPage {
+  logs: TelemetryLog[];
+  nextCursor: TelemetryCursor | null;
+}
+
+// Logs a retention policy applies to: one project, or the rest of the workspace
+// (logs without a project or in projects that have no policy of their own)
+export type RetentionScope = { projectId: string } | { excludeProjectIds: string[] };
+
+export const DEFAULT_TELEMETRY_PAGE_SIZE = 100;
+export const MAX_TELEMETRY_PAGE_SIZE = 1000;
+
+export function encodeTelemetryCursor(cursor: TelemetryCursor): string {
+  const values = cursor.rank === undefined ? [cursor.timestamp, cursor.id] : [cursor.timestamp, cursor.id, cursor.rank];
+  return Buffer.from(JSON.stringify(values)).toString("base64url");
+}
+
+export function decodeTelemetryCursor(value: string): TelemetryCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(value, "base64url").toString());
+    if (!Array.isArray(decoded) || typeof decoded[0] !== "string" || typeof decoded[1] !== "string") {
+      return null;
+    }
+    if (isNaN(Date.parse(decoded[0]))) {
+      return null;
+    }
+    if (decoded.length > 2) {
+      if (typeof decoded[2] !== "string" || isNaN(Number(decoded[2]))) {
+        return null;
+      }
+      return { timestamp: decoded[0], id: decoded[1], rank: decoded[2] };
+    }
+    return { timestamp: decoded[0], id: decoded[1] };
+  } catch (error) {
+    return null;
+  }
+}
+
+// Shared WHERE conditions for telemetry list and aggregation queries
+function buildTelemetryConditions(workspaceId: string, filters?: TelemetryLogFilters): SQL[] {
+  const conditions: SQL[] = [eq(telemetryLogs.workspaceId, workspaceId)];
+
+  if (filters?.projectId) {
+    conditions.push(eq(telemetryLogs.projectId, filters.projectId));
+  }
+
+  if (filters?.environment) {
+    conditions.push(eq(telemetryLogs.environment, filters.environment));
+  }
+
+  if (filters?.model) {
+    conditions.push(eq(telemetryLogs.model, filters.model));
+  }
+
+  if (filters?.sessionId) {
+    conditions.push(eq(telemetryLogs.sessionId, filters.sessionId));
+  }
+
+  if (filters?.endUserId) {
+    conditions.push(eq(telemetryLogs.endUserId, filters.endUserId));
+  }
+
+  if (filters?.customerId) {
+    conditions.push(eq(telemetryLogs.customerId, filters.customerId));
+  }
+
+  if (filters?.startDate) {
+    conditions.push(gte(telemetryLogs.timestamp, filters.startDate));
+  }
+
+  if (filters?.endDate) {
+    conditions.push(lte(telemetryLogs.timestamp, filters.endDate));
+  }
+
+  if (filters?.search) {
+    conditions.push(filters.search.condition);
+  }
+
+  return conditions;
+}
+
+// Only LLM calls count as requests and toward latency and error rates: tool, retrieval and chain
+// spans would inflate request counts and skew latency (a chain span covers all of its children).
+// Their cost and tokens still count toward spend, as they do in trace and session totals.
+const isLlmCall = sql`${telemetryLogs.kind} = 'llm'`;
+
+// Conditions for stats that mix spend with request counts: LLM calls, plus other spans that
+// carry cost or tokens (the rest would only add empty groups)
+function buildStatsConditions(workspaceId: string, filters?: TelemetryLogFilters): SQL[] {
+  return [
+    ...buildTelemetryConditions(workspaceId, filters),
+    or(isLlmCall, gt(telemetryLogs.cost, "0"), gt(telemetryLogs.totalTokens, 0))!,
+  ];
+}
+
+// Conditions for latency and error stats, which only cover LLM calls
+function buildLlmStatsConditions(workspaceId: string, filters?: TelemetryLogFilters): SQL[] {
+  return [...buildTelemetryConditions(workspaceId, filters), isLlmCall];
+}
+
+function retentionConditions(workspaceId: string, scope: RetentionScope): SQL[] {
+  const conditions: SQL[] = [eq(telemetryLogs.workspaceId, workspaceId)];
+
+  if ("projectId" in scope) {
+    conditions.push(eq(telemetryLogs.projectId, scope.projectId));
+  } else if (scope.excludeProjectIds.length > 0) {
+    conditions.push(or(isNull(telemetryLogs.projectId), notInArray(telemetryLogs.projectId, scope.excludeProjectIds))!);
+  }
+
+  return conditions;
+}
+
+// Aggregate columns shared by breakdown and time series queries
+const telemetryAggregates = {
+  requests: sql<number>`count(*) filter (where ${isLlmCall})`.mapWith(Number),
+  cost: sql<number>`coalesce(sum(${telemetryLogs.cost}), 0)`.mapWith(Number),
+  tokens: sql<number>`coalesce(sum(${telemetryLogs.totalTokens}), 0)`.mapWith(Number),
+  avgLatencyMs: sql<number>`coalesce(avg(${telemetryLogs.latencyMs}) filter (where ${isLlmCall}), 0)`.mapWith(Number),
+};
+
+const telemetryErrorCount = sql<number>`count(*) filter (where ${telemetryLogs.status} = 'error' and ${isLlmCall})`.mapWith(Number);
+
+// Continuous latency percentiles (interpolated), shared by percentile breakdowns and series
+const latencyPercentiles = {
+  p50: sql<number>`coalesce(percentile_cont(0.5) within group (order by ${telemetryLogs.latencyMs}), 0)`.mapWith(Number),
+  p90: sql<number>`coalesce(percentile_cont(0.9) within group (order by ${telemetryLogs.latencyMs}), 0)`.mapWith(Number),
+  p95: sql<number>`coalesce(percentile_cont(0.95) within group (order by ${telemetryLogs.latencyMs}), 0)`.mapWith(Number),
+  p99: sql<number>`coalesce(percentile_cont(0.99) within group (order by ${telemetryLogs.latencyMs}), 0)`.mapWith(Number),
+};
+
+// date_trunc expression for a validated bucket unit. The unit is inlined so SELECT,
+// GROUP BY and ORDER BY compare as an identical expression.
+function timeBucketExpr(bucket: TelemetryTimeBucket, column: AnyColumn = telemetryLogs.timestamp): SQL {
+  if (!telemetryTimeBuckets.includes(bucket)) {
+    throw new Error(`Invalid time bucket: ${bucket}`);
+  }
+  return sql`date_trunc(${sql.raw(`'${bucket}'`)}, ${column})`;
+}
+
+// A span's start is its reported startedAt, or else derived from when it was recorded and its latency
+const spanStartExpr = sql`coalesce(${telemetryLogs.startedAt}, ${telemetryLogs.timestamp} - ${telemetryLogs.latencyMs} * interval '1 millisecond')`;
+const spanEndExpr = sql`(${spanStartExpr} + ${telemetryLogs.latencyMs} * interval '1 millisecond')`;
+
+// Per-trace rollup columns. The root is the earliest span without a parent (or the earliest span).
+const traceSummaryFields = {
+  traceId: sql<string>`${telemetryLogs.traceId}`,
+  rootName: sql<string>`(array_agg(coalesce(${telemetryLogs.name}, ${telemetryLogs.model}) order by ${telemetryLogs.parentSpanId} is not null, ${spanStartExpr}))[1]`,
+  spanCount: sql<number>`count(*)`.mapWith(Number),
+  llmCalls: sql<number>`count(*) filter (where ${telemetryLogs.kind} = 'llm')`.mapWith(Number),
+  errorCount: sql<number>`count(*) filter (where ${telemetryLogs.status} = 'error')`.mapWith(Number),
+  totalCost: telemetryAggregates.cost,
+  totalTokens: telemetryAggregates.tokens,
+  startedAt: sql<Date>`min(${spanStartExpr})`.mapWith(telemetryLogs.timestamp),
+  endedAt: sql<Date>`max(${spanEndExpr})`.mapWith(telemetryLogs.timestamp),
+  durationMs: sql<number>`round(extract(epoch from max(${spanEndExpr}) - min(${spanStartExpr})) * 1000)`.mapWith(Number),
+};
+
+function toTraceSummary(row: Omit<TraceSummary, "startedAt" | "endedAt"> & { startedAt: Date; endedAt: Date }): TraceSummary {
+  return {
+    ...row,
+    startedAt: row.startedAt.toISOString(),
+    endedAt: row.endedAt.toISOString(),
+  };
+}
+
+// Upper bound on spans returned for a single trace
+export const MAX_TRACE_SPANS = 1000;
+
+// Per-session rollup columns. The session's user is the most recent one reported.
+const sessionSummaryFields = {
+  sessionId: sql<string>`${telemetryLogs.sessionId}`,
+  endUserId: sql<string | null>`(array_agg(${telemetryLogs.endUserId} order by ${telemetryLogs.timestamp} desc) filter (where ${telemetryLogs.endUserId} is not null))[1]`,
+  turnCount: sql<number>`count(*) filter (where ${telemetryLogs.kind} = 'llm')`.mapWith(Number),
+  totalCost: telemetryAggregates.cost,
+  totalTokens: telemetryAggregates.tokens,
+  startedAt: sql<Date>`min(${spanStartExpr})`.mapWith(telemetryLogs.timestamp),
+  endedAt: sql<Date>`max(${spanEndExpr})`.mapWith(telemetryLogs.timestamp),
+  durationMs: sql<number>`round(extract(epoch from max(${spanEndExpr}) - min(${spanStartExpr})) * 1000)`.mapWith(Number),
+};
+
+function toSessionSummary(row: Omit<SessionSummary, "startedAt" | "endedAt"> & { startedAt: Date; endedAt: Date }): SessionSummary {
+  return {
+    ...row,
+    startedAt: row.startedAt.toISOString(),
+    endedAt: row.endedAt.toISOString(),
+  };
+}
+
+// Upper bound on turns returned for a single session transcript
+export const MAX_SESSION_TURNS = 1000;
+
+function formatTimeBucket(bucketExpr: SQL) {
+  return sql<string>`to_char(${bucketExpr}, 'YYYY-MM-DD"T"HH24:MI:SS')`;
+}
+
+// Failures are grouped by error type, provider status and message, with UUIDs, long ids and numbers
+// masked so one failure mode doesn't split per request. Errors logged without a message fall back
+// to their response text.
+const errorMessageExpr = sql<string>`coalesce(nullif(${telemetryLogs.errorMessage}, ''), left(${telemetryLogs.response}, 1000))`;
+const errorMaskedMessageExpr = sql<string>`left(regexp_replace(regexp_replace(regexp_replace(
+  ${errorMessageExpr},
+  '[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}', '<id>', 'gi'),
+  '\\m[A-Za-z0-9_-]*[0-9][A-Za-z0-9_-]{11,}', '<id>', 'g'),
+  '[0-9]+', '<n>', 'g'), 500)`;
+
+// Upper bound on error groups returned at once
+export const MAX_ERROR_GROUPS = 200;
+
+// Stats over bounded ranges at least this long are read from telemetry_hourly_rollups
+export const ROLLUP_MIN_RANGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Filters the rollup dimensions can answer; anything else (search, sessions, end users) needs raw logs
+const rollupFilterKeys = new Set<keyof TelemetryLogFilters>(["projectId", "environment", "startDate", "endDate"]);
+
+function useRollups(filters?: TelemetryLogFilters): boolean {
+  const applied = Object.entries(filters ?? {}).filter(([, value]) => value !== undefined && value !== "");
+  if (applied.some(([key]) => !rollupFilterKeys.has(key as keyof TelemetryLogFilters))) {
+    return false;
+  }
+  // Unbounded ("all time") ranges are read from the raw logs, which retention already bounds
+  if (!filters?.startDate) {
+    return false;
+  }
+  const end = filters.endDate ?? new Date();
+  return end.getTime() - filters.startDate.getTime() >= ROLLUP_MIN_RANGE_MS;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Rollup rows for a stats query, as a CTE named after the rollup table so queries keep selecting its
+// columns (inside the CTE the name still refers to the table). Rollups are hourly, so only the whole
+// hours inside the range are read from them; the partial hours at either end are rolled up from the
+// raw logs on the fly, keeping the exact bounds.
+function rollupSource(workspaceId: string, filters?: TelemetryLogFilters) {
+  const rollupConditions: SQL[] = [eq(telemetryHourlyRollups.workspaceId, workspaceId)];
+  const edges: SQL[] = [];
+
+  if (filters?.projectId) {
+    rollupConditions.push(eq(telemetryHourlyRollups.projectId, filters.projectId));
+  }
+
+  if (filters?.environment) {
+    rollupConditions.push(eq(telemetryHourlyRollups.environment, filters.environment));
+  }
+
+  if (filters?.startDate) {
+    const firstHour = new Date(Math.ceil(filters.startDate.getTime() / HOUR_MS) * HOUR_MS);
+    rollupConditions.push(gte(telemetryHourlyRollups.hour, firstHour));
+    if (firstHour > filters.startDate) {
+      edges.push(and(gte(telemetryLogs.timestamp, filters.startDate), lt(telemetryLogs.timestamp, firstHour))!);
+    }
+  }
+
+  if (filters?.endDate) {
+    const lastHour = new Date(Math.floor(filters.endDate.getTime() / HOUR_MS) * HOUR_MS);
+    rollupConditions.push(lt(telemetryHourlyRollups.hour, lastHour));
+    edges.push(and(gte(telemetryLogs.timestamp, lastHour), lte(telemetryLogs.timestamp, filters.endDate))!);
+  }
+
+  const rollupRows = sql`
+    select ${telemetryHourlyRollups.workspaceId}, ${telemetryHourlyRollups.projectId}, ${telemetryHourlyRollups.environment},
+      ${telemetryHourlyRollups.model}, ${telemetryHourlyRollups.hour}, ${telemetryHourlyRollups.requests},
+      ${telemetryHourlyRollups.errors}, ${telemetryHourlyRollups.promptTokens}, ${telemetryHourlyRollups.completionTokens},
+      ${telemetryHourlyRollups.totalTokens}, ${telemetryHourlyRollups.cost}, ${telemetryHourlyRollups.latencySumMs},
+      ${telemetryHourlyRollups.latencyMaxMs}, ${telemetryHourlyRollups.latencyHistogram}, ${telemetryHourlyRollups.updatedAt}
+    from ${telemetryHourlyRollups}
+    where ${and(...rollupConditions)}
+  `;
+  const logConditions = buildTelemetryConditions(workspaceId, { projectId: filters?.projectId, environment: filters?.environment });
+  const rows = edges.length > 0
+    ? sql`(${rollupRows}) union all (${rollupSourceSelect(and(...logConditions, or(...edges)))})`
+    : rollupRows;
+  return db.$with(getTableName(telemetryHourlyRollups), getTableColumns(telemetryHourlyRollups)).as(rows);
+}
+
+// Rollup equivalents of telemetryAggregates
+const rollupAggregates = {
+  requests: sql<number>`coalesce(sum(${telemetryHourlyRollups.requests}), 0)`.mapWith(Number),
+  cost: sql<number>`coalesce(sum(${telemetryHourlyRollups.cost}), 0)`.mapWith(Number),
+  tokens: sql<number>`coalesce(sum(${telemetryHourlyRollups.totalTokens}), 0)`.mapWith(Number),
+  avgLatencyMs: sql<number>`coalesce(sum(${telemetryHourlyRollups.latencySumMs})::float / nullif(sum(${telemetryHourlyRollups.requests}), 0), 0)`.mapWith(Number),
+};
+
+// Rows that only carry the spend of other spans have no requests, so no latency or error rate
+const rollupHasRequests = sql`sum(${telemetryHourlyRollups.requests}) > 0`;
+
+// Histogram buckets: one per TELEMETRY_LATENCY_HISTOGRAM_BOUNDS entry plus the overflow bucket
+const LATENCY_HISTOGRAM_SIZE = TELEMETRY_LATENCY_HISTOGRAM_BOUNDS.length + 1;
+
+// Element-wise sum of the latency histograms in a group, plus the slowest request for the last bucket
+const rollupLatencyHistogram = {
+  histogram: sql<number[]>`array[${sql.join(
+    Array.from({ length: LATENCY_HISTOGRAM_SIZE }, (_, i) =>
+      sql`coalesce(sum(${telemetryHourlyRollups.latencyHistogram}[${sql.raw(String(i + 1))}]), 0)`
+    ),
+    sql`, `
+  )}]`.mapWith((value: string[]) => value.map(Number)),
+  maxMs: sql<number>`coalesce(max(${telemetryHourlyRollups.latencyMaxMs}), 0)`.mapWith(Number),
+};
+
+// Percentile estimated from a latency histogram by interpolating linearly within its bucket
+function histogramPercentile(histogram: number[], maxMs: number, percentile: number): number {
+  const total = histogram.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return 0;
+
+  const rank = percentile * total;
+  let seen = 0;
+  for (let i = 0; i < histogram.length; i++) {
+    const count = histogram[i];
+    if (count > 0 && seen + count >= rank) {
+      const lower = i === 0 ? 0 : TELEMETRY_LATENCY_HISTOGRAM_BOUNDS[i - 1];
+      const upper = Math.max(lower, Math.min(TELEMETRY_LATENCY_HISTOGRAM_BOUNDS[i] ?? Infinity, maxMs));
+      return lower + (upper - lower) * ((rank - seen) / count);
+    }
+    seen += count;
+  }
+  return maxMs;
+}
+
+function histogramPercentiles(histogram: number[], maxMs: number): LatencyPercentiles {
+  return {
+    p50: histogramPercentile(histogram, maxMs, 0.5),
+    p90: histogramPercentile(histogram, maxMs, 0.9),
+    p95: histogramPercentile(histogram, maxMs, 0.95),
+    p99: histogramPercentile(histogram, maxMs, 0.99),
+  };
+}
+
+// Ranges of the latency distribution chart, by exclusive upper bound
+const latencyDistributionRanges = [
+  { range: "0-100ms", below: 100 },
+  { range: "100-500ms", below: 500 },
+  { range: "500ms-1s", below: 1000 },
+  { range: "1s-2s", below: 2000 },
+  { range: "2s+", below: Infinity },
+];
+
+// Column values of a rollup row computed from the telemetry_logs rows matching `condition`. Like the
+// raw stats, requests, errors and latency only count LLM calls while cost and tokens cover every span.
+function rollupSourceSelect(condition: SQL | undefined): SQL {
+  const latency = telemetryLogs.latencyMs;
+  const buckets = Array.from({ length: LATENCY_HISTOGRAM_SIZE }, (_, i) => {
+    const lower = i > 0 ? sql`${latency} >= ${sql.raw(String(TELEMETRY_LATENCY_HISTOGRAM_BOUNDS[i - 1]))}` : undefined;
+    const upper = i < TELEMETRY_LATENCY_HISTOGRAM_BOUNDS.length
+      ? sql`${latency} < ${sql.raw(String(TELEMETRY_LATENCY_HISTOGRAM_BOUNDS[i]))}`
+      : undefined;
+    return sql`count(*) filter (where ${and(isLlmCall, lower, upper)})`;
+  });
+
+  return sql`
+    select ${telemetryLogs.workspaceId}, ${telemetryLogs.projectId}, ${telemetryLogs.environment}, ${telemetryLogs.model},
+      date_trunc('hour', ${telemetryLogs.timestamp}),
+      count(*) filter (where ${isLlmCall}), ${telemetryErrorCount},
+      sum(${telemetryLogs.promptTokens}), sum(${telemetryLogs.completionTokens}), sum(${telemetryLogs.totalTokens}),
+      sum(${telemetryLogs.cost}),
+      coalesce(sum(${latency}) filter (where ${isLlmCall}), 0), coalesce(max(${latency}) filter (where ${isLlmCall}), 0),
+      array[${sql.join(buckets, sql`, `)}]::integer[], now()
+    from ${telemetryLogs}
+    where ${and(condition, or(isLlmCall, gt(telemetryLogs.cost, "0"), gt(telemetryLogs.totalTokens, 0)))}
+    group by 1, 2, 3, 4, 5
+    order by 1, 2, 3, 4, 5
+  `;
+}
+
+// Upsert rollup rows from `source`, either adding to existing rows or replacing them
+function upsertRollups(source: SQL, mode: "add" | "replace"): SQL {
+  const merge = (column: string) =>
+    mode === "add" ? `${column} = telemetry_hourly_rollups.${column} + excluded.${column}` : `${column} = excluded.${column}`;
+  const latencyMax = mode === "add"
+    ? "latency_max_ms = greatest(telemetry_hourly_rollups.latency_max_ms, excluded.latency_max_ms)"
+    : "latency_max_ms = excluded.latency_max_ms";
+  const histogram = mode === "add"
+    ? `latency_histogram = array(
+        select a + b from unnest(telemetry_hourly_rollups.latency_histogram, excluded.latency_histogram)
+          with ordinality as t(a, b, i) order by i
+      )`
+    : "latency_histogram = excluded.latency_histogram";
+
+  return sql`
+    insert into ${telemetryHourlyRollups} (
+      workspace_id, project_id, environment, model, hour, requests, errors, prompt_tokens, completion_tokens,
+      total_tokens, cost, latency_sum_ms, latency_max_ms, latency_histogram, updated_at
+    )
+    ${source}
+    on conflict (workspace_id, project_id, environment, model, hour) do update set
+      ${sql.raw([
+        ...["requests", "errors", "prompt_tokens", "completion_tokens", "total_tokens", "cost", "latency_sum_ms"].map(merge),
+        latencyMax,
+        histogram,
+        "updated_at = excluded.updated_at",
+      ].join(",\n      "))}
+  `;
+}
+
+// `db` or a transaction
+type SqlExecutor = Pick<typeof db, "execute">;
+
+// Add freshly inserted logs to their hourly rollups
+async function addLogsToRollups(executor: SqlExecutor, logs: TelemetryLog[]): Promise<void> {
+  if (logs.length === 0) return;
+
+  const timestamps = logs.map((log) => log.timestamp.getTime());
+  await executor.execute(upsertRollups(rollupSourceSelect(and(
+    inArray(telemetryLogs.id, logs.map((log) => log.id)),
+    // Lets Postgres prune to the partitions the batch landed in
+    gte(telemetryLogs.timestamp, new Date(Math.min(...timestamps))),
+    lte(telemetryLogs.timestamp, new Date(Math.max(...timestamps)))
+  )), "add"));
+}
 
 export interface IStorage {
   // Users
@@ -54,20 +555,113 @@ export interface IStorage {
   // API Keys
   getApiKeys(workspaceId: string): Promise<ApiKey[]>;
   getApiKey(id: string): Promise<ApiKey | undefined>;
-  getApiKeyByKey(key: string): Promise<ApiKey | undefined>;
-  createApiKey(apiKey: InsertApiKey): Promise<ApiKey>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  createApiKey(apiKey: InsertApiKey & { keyHash: string; keyPrefix: string }): Promise<ApiKey>;
   updateApiKeyLastUsed(id: string): Promise<void>;
-  deleteApiKey(id: string): Promise<void>;
+  rotateApiKey(id: string, successor: InsertApiKey & { keyHash: string; keyPrefix: string }, graceEndsAt: Date): Promise<ApiKey>;
+  revokeApiKey(id: string, revokedBy: string): Promise<ApiKey | undefined>;
 
   // Telemetry Logs
-  getTelemetryLogs(workspaceId: string, filters?: {
-    projectId?: string;
-    environment?: string;
-    startDate?: Date;
-    endDate?: Date;
-  }): Promise<TelemetryLog[]>;
+  getTelemetryLogs(
+    workspaceId: string,
+    filters?: TelemetryLogFilters,
+    page?: { cursor?: TelemetryCursor | null; limit?: number; sort?: TelemetryLogSort }
+  ): Promise<TelemetryLogPage>;
   getTelemetryLog(id: string): Promise<TelemetryLog | undefined>;
+  getTelemetrySummary(workspaceId: string, filters?: TelemetryLogFilters): Promise<TelemetrySummary>;
+  getTelemetryErrorCounts(workspaceId: string, filters?: TelemetryLogFilters): Promise<{ requests: number; errors: number }>;
+  getTelemetryBreakdown(workspaceId: string, groupBy: TelemetryGroupBy, filters?: TelemetryLogFilters): Promise<TelemetryBreakdownRow[]>;
+  getTelemetryTimeSeries(workspaceId: string, bucket: TelemetryTimeBucket, filters?: TelemetryLogFilters): Promise<TelemetryTimeSeriesPoint[]>;
+  getTelemetryByUser(workspaceId: string, groupBy: TelemetryUserGroupBy, filters?: TelemetryLogFilters, limit?: number): Promise<TelemetryUserStatsRow[]>;
+  getLatencyDistribution(workspaceId: string, filters?: TelemetryLogFilters): Promise<LatencyDistributionBucket[]>;
+  getLatencyPercentiles(workspaceId: string, groupBy: TelemetryGroupBy, filters?: TelemetryLogFilters): Promise<LatencyPercentileRow[]>;
+  getLatencyPercentileSeries(workspaceId: string, bucket: TelemetryTimeBucket, filters?: TelemetryLogFilters): Promise<LatencyPercentilePoint[]>;
+  getErrorRateSeries(workspaceId: string, bucket: TelemetryTimeBucket, groupBy: ErrorRateGroupBy, filters?: TelemetryLogFilters): Promise<ErrorRatePoint[]>;
+  getErrorGroups(workspaceId: string, filters?: TelemetryLogFilters, limit?: number): Promise<ErrorGroup[]>;
+  getAlertMetrics(workspaceId: string, filters?: TelemetryLogFilters): Promise<AlertMetrics>;
   createTelemetryLog(log: InsertTelemetryLog): Promise<TelemetryLog>;
+  // Ids may be assigned up front so callers can match the returned rows to their input
+  createTelemetryLogs(logs: Array<InsertTelemetryLog & { id?: string }>): Promise<TelemetryLog[]>;
+  rebuildTelemetryRollups(from: Date, to: Date): Promise<number>;
+
+  // Traces
+  getTraceSummaries(workspaceId: string, filters?: TelemetryLogFilters, limit?: number): Promise<TraceSummary[]>;
+  getTraceSummary(workspaceId: string, traceId: string, filters?: TelemetryLogFilters): Promise<TraceSummary | undefined>;
+  getTraceSpans(workspaceId: string, traceId: string, filters?: TelemetryLogFilters): Promise<TelemetryLog[]>;
+
+  // Sessions
+  getSessionSummaries(workspaceId: string, filters?: TelemetryLogFilters, limit?: number): Promise<SessionSummary[]>;
+  getSessionSummary(workspaceId: string, sessionId: string, filters?: TelemetryLogFilters): Promise<SessionSummary | undefined>;
+  getSessionTurns(workspaceId: string, sessionId: string, filters?: TelemetryLogFilters): Promise<TelemetryLog[]>;
+
+  // Model Prices
+  getGlobalModelPrices(): Promise<ModelPrice[]>;
+  getModelPrices(workspaceId: string): Promise<ModelPrice[]>;
+  getModelPrice(id: string): Promise<ModelPrice | undefined>;
+  findModelPrice(workspaceId: string, model: string, at: Date): Promise<ModelPrice | undefined>;
+  createModelPrice(price: InsertModelPrice): Promise<ModelPrice>;
+  createModelPrices(prices: InsertModelPrice[]): Promise<ModelPrice[]>;
+  deleteModelPrice(id: string): Promise<void>;
+
+  // Budgets
+  getAllBudgets(): Promise<Budget[]>;
+  getBudgets(workspaceId: string): Promise<Budget[]>;
+  getBudget(id: string): Promise<Budget | undefined>;
+  createBudget(budget: InsertBudget): Promise<Budget>;
+  updateBudget(id: string, data: Partial<InsertBudget>): Promise<Budget | undefined>;
+  deleteBudget(id: string): Promise<void>;
+  getBudgetAlerts(workspaceId: string, limit?: number): Promise<BudgetAlert[]>;
+  createBudgetAlert(alert: InsertBudgetAlert): Promise<BudgetAlert | undefined>;
+
+  // Webhooks
+  getWebhooks(workspaceId: string): Promise<Webhook[]>;
+  getWebhook(id: string): Promise<Webhook | undefined>;
+  getSubscribedWebhooks(workspaceId: string, event: string): Promise<Webhook[]>;
+  getWorkspaceIdsSubscribedTo(event: string): Promise<string[]>;
+  createWebhook(webhook: InsertWebhook & { secret: string }): Promise<Webhook>;
+  updateWebhook(id: string, data: Partial<InsertWebhook>): Promise<Webhook | undefined>;
+  deleteWebhook(id: string): Promise<void>;
+  getWebhookDeliveries(webhookId: string, limit?: number): Promise<WebhookDelivery[]>;
+  getDueWebhookDeliveries(now: Date, limit?: number): Promise<WebhookDelivery[]>;
+  createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  updateWebhookDelivery(id: string, data: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined>;
+
+  // Rate Limiting
+  recordRateLimitDrops(workspaceId: string, day: Date, count: number, lastDroppedAt: Date): Promise<void>;
+  getRateLimitDrops(workspaceId: string, since: Date): Promise<RateLimitDrop[]>;
+
+  // Retention
+  getAllRetentionPolicies(): Promise<RetentionPolicy[]>;
+  getRetentionPolicies(workspaceId: string): Promise<RetentionPolicy[]>;
+  getRetentionPolicy(id: string): Promise<RetentionPolicy | undefined>;
+  upsertRetentionPolicy(policy: InsertRetentionPolicy): Promise<RetentionPolicy>;
+  deleteRetentionPolicy(id: string): Promise<void>;
+  deleteTelemetryLogsBefore(workspaceId: string, scope: RetentionScope, before: Date, limit: number): Promise<number>;
+  purgeTelemetryContentBefore(workspaceId: string, scope: RetentionScope, before: Date, limit: number): Promise<number>;
+  createRetentionRun(run: InsertRetentionRun): Promise<RetentionRun>;
+  getRetentionRuns(workspaceId: string, limit?: number): Promise<RetentionRun[]>;
+
+  // Alerts
+  getEnabledAlertRules(): Promise<AlertRule[]>;
+  getAlertRules(workspaceId: string): Promise<AlertRule[]>;
+  getAlertRule(id: string): Promise<AlertRule | undefined>;
+  createAlertRule(rule: InsertAlertRule): Promise<AlertRule>;
+  updateAlertRule(id: string, data: Partial<InsertAlertRule> & Partial<AlertRuleEvaluation>): Promise<AlertRule | undefined>;
+  deleteAlertRule(id: string): Promise<void>;
+  getAlertIncidents(workspaceId: string, filters?: AlertIncidentFilters, limit?: number): Promise<AlertIncident[]>;
+  getOpenAlertIncident(ruleId: string): Promise<AlertIncident | undefined>;
+  createAlertIncident(incident: InsertAlertIncident): Promise<AlertIncident>;
+  resolveAlertIncidents(ruleId: string, resolvedAt: Date, resolvedValue?: string | null): Promise<AlertIncident[]>;
+  getAlertSilences(workspaceId: string): Promise<AlertSilence[]>;
+  getAlertSilence(id: string): Promise<AlertSilence | undefined>;
+  getActiveAlertSilence(workspaceId: string, ruleId: string, at: Date): Promise<AlertSilence | undefined>;
+  createAlertSilence(silence: InsertAlertSilence): Promise<AlertSilence>;
+  deleteAlertSilence(id: string): Promise<void>;
+  getAlertChannels(workspaceId: string): Promise<AlertChannel[]>;
+  getAlertChannel(id: string): Promise<AlertChannel | undefined>;
+  createAlertChannel(channel: InsertAlertChannel): Promise<AlertChannel>;
+  updateAlertChannel(id: string, data: Partial<InsertAlertChannel>): Promise<AlertChannel | undefined>;
+  deleteAlertChannel(id: string): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -221,7 +815,20 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteProject(id: string): Promise<void> {
-    await db.delete(projects).where(eq(projects.id, id));
+    await db.transaction(async (tx) => {
+      // The project's logs become unassigned, so its rollups are merged into the unassigned rows
+      // before the delete cascades to them
+      await tx.execute(upsertRollups(sql`
+        select ${telemetryHourlyRollups.workspaceId}, null, ${telemetryHourlyRollups.environment},
+          ${telemetryHourlyRollups.model}, ${telemetryHourlyRollups.hour}, ${telemetryHourlyRollups.requests},
+          ${telemetryHourlyRollups.errors}, ${telemetryHourlyRollups.promptTokens}, ${telemetryHourlyRollups.completionTokens},
+          ${telemetryHourlyRollups.totalTokens}, ${telemetryHourlyRollups.cost}, ${telemetryHourlyRollups.latencySumMs},
+          ${telemetryHourlyRollups.latencyMaxMs}, ${telemetryHourlyRollups.latencyHistogram}, now()
+        from ${telemetryHourlyRollups}
+        where ${eq(telemetryHourlyRollups.projectId, id)}
+      `, "add"));
+      await tx.delete(projects).where(eq(projects.id, id));
+    });
   }
 
   // API Keys
@@ -238,12 +845,12 @@ export class DatabaseStorage implements IStorage {
     return apiKey || undefined;
   }
 
-  async getApiKeyByKey(key: string): Promise<ApiKey | undefined> {
-    const [apiKey] = await db.select().from(apiKeys).where(eq(apiKeys.key, key));
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const [apiKey] = await db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash));
     return apiKey || undefined;
   }
 
-  async createApiKey(insertApiKey: InsertApiKey): Promise<ApiKey> {
+  async createApiKey(insertApiKey: InsertApiKey & { keyHash: string; keyPrefix: string }): Promise<ApiKey> {
     const [apiKey] = await db
       .insert(apiKeys)
       .values(insertApiKey)
@@ -258,57 +865,1126 @@ export class DatabaseStorage implements IStorage {
       .where(eq(apiKeys.id, id));
   }
 
-  async deleteApiKey(id: string): Promise<void> {
-    await db.delete(apiKeys).where(eq(apiKeys.id, id));
+  async rotateApiKey(
+    id: string,
+    successor: InsertApiKey & { keyHash: string; keyPrefix: string },
+    graceEndsAt: Date
+  ): Promise<ApiKey> {
+    return await db.transaction(async (tx) => {
+      const [newKey] = await tx.insert(apiKeys).values(successor).returning();
+
+      // Keep an earlier expiry if the old key was already due to expire within the grace window
+      await tx
+        .update(apiKeys)
+        .set({
+          replacedById: newKey.id,
+          expiresAt: sql`least(coalesce(${apiKeys.expiresAt}, ${graceEndsAt}), ${graceEndsAt})`,
+        })
+        .where(eq(apiKeys.id, id));
+
+      return newKey;
+    });
+  }
+
+  async revokeApiKey(id: string, revokedBy: string): Promise<ApiKey | undefined> {
+    const [apiKey] = await db
+      .update(apiKeys)
+      .set({ revokedAt: new Date(), revokedBy })
+      .where(and(eq(apiKeys.id, id), isNull(apiKeys.revokedAt)))
+      .returning();
+    return apiKey || undefined;
   }
 
   // Telemetry Logs
   async getTelemetryLogs(
     workspaceId: string,
-    filters?: {
-      projectId?: string;
-      environment?: string;
-      startDate?: Date;
-      endDate?: Date;
+    filters?: TelemetryLogFilters,
+    page?: { cursor?: TelemetryCursor | null; limit?: number; sort?: TelemetryLogSort }
+  ): Promise<TelemetryLogPage> {
+    const conditions = buildTelemetryConditions(workspaceId, filters);
+    // Relevance ordering needs full-text terms to rank by; otherwise fall back to newest first
+    const rank = page?.sort === "relevance" ? filters?.search?.rank : undefined;
+
+    // Keyset pagination: continue strictly after the last row of the previous page
+    if (page?.cursor) {
+      if (rank) {
+        conditions.push(
+          sql`(${rank}, ${telemetryLogs.timestamp}, ${telemetryLogs.id}) < (${page.cursor.rank}::real, ${page.cursor.timestamp}::timestamp, ${page.cursor.id})`
+        );
+      } else {
+        conditions.push(
+          sql`(${telemetryLogs.timestamp}, ${telemetryLogs.id}) < (${page.cursor.timestamp}::timestamp, ${page.cursor.id})`
+        );
+      }
+    }
+
+    const limit = Math.min(Math.max(page?.limit || DEFAULT_TELEMETRY_PAGE_SIZE, 1), MAX_TELEMETRY_PAGE_SIZE);
+
+    // Fetch one extra row to know whether another page exists
+    const rows = await db
+      .select({
+        log: telemetryLogs,
+        cursorTimestamp: sql<string>`${telemetryLogs.timestamp}::text`,
+        cursorRank: rank ? sql<string>`${rank}::text` : sql<null>`null`,
+      })
+      .from(telemetryLogs)
+      .where(and(...conditions))
+      .orderBy(...(rank ? [desc(rank)] : []), desc(telemetryLogs.timestamp), desc(telemetryLogs.id))
+      .limit(limit + 1);
+
+    const hasMore = rows.length > limit;
+    const pageRows = hasMore ? rows.slice(0, limit) : rows;
+    const last = pageRows[pageRows.length - 1];
+
+    return {
+      logs: pageRows.map((row) => row.log),
+      nextCursor: hasMore && last
+        ? { timestamp: last.cursorTimestamp, id: last.log.id, ...(last.cursorRank !== null && { rank: last.cursorRank }) }
+        : null,
+    };
+  }
+
+  async getTelemetryLog(id: string): Promise<TelemetryLog | undefined> {
+    const [log] = await db.select().from(telemetryLogs).where(eq(telemetryLogs.id, id));
+    return log || undefined;
+  }
+
+  async getTelemetrySummary(workspaceId: string, filters?: TelemetryLogFilters): Promise<TelemetrySummary> {
+    if (useRollups(filters)) {
+      const source = rollupSource(workspaceId, filters);
+      const [summary] = await db.with(source)
+        .select({
+          totalRequests: rollupAggregates.requests,
+          totalCost: rollupAggregates.cost,
+          totalTokens: rollupAggregates.tokens,
+          avgLatencyMs: rollupAggregates.avgLatencyMs,
+          avgTokens: sql<number>`coalesce(sum(${telemetryHourlyRollups.totalTokens})::float / nullif(sum(${telemetryHourlyRollups.requests}), 0), 0)`.mapWith(Number),
+        })
+        .from(source);
+      return summary;
+    }
+
+    const [summary] = await db
+      .select({
+        totalRequests: telemetryAggregates.requests,
+        totalCost: telemetryAggregates.cost,
+        totalTokens: telemetryAggregates.tokens,
+        avgLatencyMs: telemetryAggregates.avgLatencyMs,
+        avgTokens: sql<number>`coalesce(sum(${telemetryLogs.totalTokens})::float / nullif(${telemetryAggregates.requests}, 0), 0)`.mapWith(Number),
+      })
+      .from(telemetryLogs)
+      .where(and(...buildStatsConditions(workspaceId, filters)));
+    return summary;
+  }
+
+  async getTelemetryErrorCounts(
+    workspaceId: string,
+    filters?: TelemetryLogFilters
+  ): Promise<{ requests: number; errors: number }> {
+    if (useRollups(filters)) {
+      const source = rollupSource(workspaceId, filters);
+      const [counts] = await db.with(source)
+        .select({
+          requests: rollupAggregates.requests,
+          errors: sql<number>`coalesce(sum(${telemetryHourlyRollups.errors}), 0)`.mapWith(Number),
+        })
+        .from(source);
+      return counts;
+    }
+
+    const [counts] = await db
+      .select({
+        requests: telemetryAggregates.requests,
+        errors: telemetryErrorCount,
+      })
+      .from(telemetryLogs)
+      .where(and(...buildLlmStatsConditions(workspaceId, filters)));
+    return counts;
+  }
+
+  async getTelemetryBreakdown(
+    workspaceId: string,
+    groupBy: TelemetryGroupBy,
+    filters?: TelemetryLogFilters
+  ): Promise<TelemetryBreakdownRow[]> {
+    if (useRollups(filters)) {
+      return this.getRollupBreakdown(workspaceId, groupBy, filters);
+    }
+
+    const conditions = and(...buildStatsConditions(workspaceId, filters));
+
+    if (groupBy === "project") {
+      const rows = await db
+        .select({
+          key: telemetryLogs.projectId,
+          projectName: projects.name,
+          ...telemetryAggregates,
+        })
+        .from(telemetryLogs)
+        .leftJoin(projects, eq(telemetryLogs.projectId, projects.id))
+        .where(conditions)
+        .groupBy(telemetryLogs.projectId, projects.name)
+        .orderBy(desc(telemetryAggregates.cost));
+
+      return rows.map(({ projectName, ...row }) => ({
+        ...row,
+        label: projectName || "Unassigned",
+      }));
+    }
+
+    const column = groupBy === "model" ? telemetryLogs.model : telemetryLogs.environment;
+    const rows = await db
+      .select({
+        key: column,
+        ...telemetryAggregates,
+      })
+      .from(telemetryLogs)
+      .where(conditions)
+      .groupBy(column)
+      .orderBy(desc(telemetryAggregates.cost));
+
+    return rows.map((row) => ({ ...row, label: row.key }));
+  }
+
+  async getTelemetryByUser(
+    workspaceId: string,
+    groupBy: TelemetryUserGroupBy,
+    filters?: TelemetryLogFilters,
+    limit: number = 20
+  ): Promise<TelemetryUserStatsRow[]> {
+    const column = groupBy === "customer" ? telemetryLogs.customerId : telemetryLogs.endUserId;
+
+    const rows = await db
+      .select({
+        key: sql<string>`${column}`,
+        customerId: sql<string | null>`(array_agg(${telemetryLogs.customerId} order by ${telemetryLogs.timestamp} desc) filter (where ${telemetryLogs.customerId} is not null))[1]`,
+        endUsers: sql<number>`count(distinct ${telemetryLogs.endUserId})`.mapWith(Number),
+        errors: telemetryErrorCount,
+        lastSeenAt: sql<Date>`max(${telemetryLogs.timestamp})`.mapWith(telemetryLogs.timestamp),
+        ...telemetryAggregates,
+      })
+      .from(telemetryLogs)
+      .where(and(...buildStatsConditions(workspaceId, filters), sql`${column} is not null`))
+      .groupBy(column)
+      .orderBy(desc(telemetryAggregates.cost))
+      .limit(limit);
+
+    return rows.map((row) => ({ ...row, lastSeenAt: row.lastSeenAt.toISOString() }));
+  }
+
+  async getTelemetryTimeSeries(
+    workspaceId: string,
+    bucket: TelemetryTimeBucket,
+    filters?: TelemetryLogFilters
+  ): Promise<TelemetryTimeSeriesPoint[]> {
+    if (useRollups(filters)) {
+      const bucketExpr = timeBucketExpr(bucket, telemetryHourlyRollups.hour);
+      const source = rollupSource(workspaceId, filters);
+      return await db.with(source)
+        .select({
+          bucket: formatTimeBucket(bucketExpr),
+          ...rollupAggregates,
+        })
+        .from(source)
+        .groupBy(bucketExpr)
+        .orderBy(bucketExpr);
     }
-  ): Promise<TelemetryLog[]> {
-    const conditions = [eq(telemetryLogs.workspaceId, workspaceId)];
 
-    if (filters?.projectId) {
-      conditions.push(eq(telemetryLogs.projectId, filters.projectId));
+    const bucketExpr = timeBucketExpr(bucket);
+
+    return await db
+      .select({
+        bucket: formatTimeBucket(bucketExpr),
+        ...telemetryAggregates,
+      })
+      .from(telemetryLogs)
+      .where(and(...buildStatsConditions(workspaceId, filters)))
+      .groupBy(bucketExpr)
+      .orderBy(bucketExpr);
+  }
+
+  async getLatencyDistribution(workspaceId: string, filters?: TelemetryLogFilters): Promise<LatencyDistributionBucket[]> {
+    if (useRollups(filters)) {
+      const source = rollupSource(workspaceId, filters);
+      const [{ histogram }] = await db.with(source)
+        .select(rollupLatencyHistogram)
+        .from(source);
+
+      // Histogram bounds include every chart edge, so each bucket falls entirely within one range
+      const counts = latencyDistributionRanges.map(({ range }) => ({ range, count: 0 }));
+      histogram.forEach((count, i) => {
+        const upper = TELEMETRY_LATENCY_HISTOGRAM_BOUNDS[i] ?? Infinity;
+        counts[latencyDistributionRanges.findIndex(({ below }) => upper <= below)].count += count;
+      });
+      return counts;
     }
 
-    if (filters?.environment) {
-      conditions.push(eq(telemetryLogs.environment, filters.environment));
+    const latency = telemetryLogs.latencyMs;
+    const [counts] = await db
+      .select({
+        under100: sql<number>`count(*) filter (where ${latency} < 100)`.mapWith(Number),
+        under500: sql<number>`count(*) filter (where ${latency} >= 100 and ${latency} < 500)`.mapWith(Number),
+        under1000: sql<number>`count(*) filter (where ${latency} >= 500 and ${latency} < 1000)`.mapWith(Number),
+        under2000: sql<number>`count(*) filter (where ${latency} >= 1000 and ${latency} < 2000)`.mapWith(Number),
+        over2000: sql<number>`count(*) filter (where ${latency} >= 2000)`.mapWith(Number),
+      })
+      .from(telemetryLogs)
+      .where(and(...buildLlmStatsConditions(workspaceId, filters)));
+
+    return [
+      { range: "0-100ms", count: counts.under100 },
+      { range: "100-500ms", count: counts.under500 },
+      { range: "500ms-1s", count: counts.under1000 },
+      { range: "1s-2s", count: counts.under2000 },
+      { range: "2s+", count: counts.over2000 },
+    ];
+  }
+
+  async getLatencyPercentiles(
+    workspaceId: string,
+    groupBy: TelemetryGroupBy,
+    filters?: TelemetryLogFilters
+  ): Promise<LatencyPercentileRow[]> {
+    if (useRollups(filters)) {
+      return this.getRollupLatencyPercentiles(workspaceId, groupBy, filters);
     }
 
-    if (filters?.startDate) {
-      conditions.push(gte(telemetryLogs.timestamp, filters.startDate));
+    const conditions = and(...buildLlmStatsConditions(workspaceId, filters));
+
+    if (groupBy === "project") {
+      const rows = await db
+        .select({
+          key: telemetryLogs.projectId,
+          projectName: projects.name,
+          requests: telemetryAggregates.requests,
+          ...latencyPercentiles,
+        })
+        .from(telemetryLogs)
+        .leftJoin(projects, eq(telemetryLogs.projectId, projects.id))
+        .where(conditions)
+        .groupBy(telemetryLogs.projectId, projects.name)
+        .orderBy(desc(latencyPercentiles.p95));
+
+      return rows.map(({ projectName, ...row }) => ({
+        ...row,
+        label: projectName || "Unassigned",
+      }));
     }
 
-    if (filters?.endDate) {
-      conditions.push(lte(telemetryLogs.timestamp, filters.endDate));
+    const column = groupBy === "model" ? telemetryLogs.model : telemetryLogs.environment;
+    const rows = await db
+      .select({
+        key: column,
+        requests: telemetryAggregates.requests,
+        ...latencyPercentiles,
+      })
+      .from(telemetryLogs)
+      .where(conditions)
+      .groupBy(column)
+      .orderBy(desc(latencyPercentiles.p95));
+
+    return rows.map((row) => ({ ...row, label: row.key }));
+  }
+
+  async getLatencyPercentileSeries(
+    workspaceId: string,
+    bucket: TelemetryTimeBucket,
+    filters?: TelemetryLogFilters
+  ): Promise<LatencyPercentilePoint[]> {
+    if (useRollups(filters)) {
+      const bucketExpr = timeBucketExpr(bucket, telemetryHourlyRollups.hour);
+      const source = rollupSource(workspaceId, filters);
+      const rows = await db.with(source)
+        .select({
+          bucket: formatTimeBucket(bucketExpr),
+          ...rollupLatencyHistogram,
+        })
+        .from(source)
+        .groupBy(bucketExpr)
+        .having(rollupHasRequests)
+        .orderBy(bucketExpr);
+
+      return rows.map(({ bucket, histogram, maxMs }) => ({ bucket, ...histogramPercentiles(histogram, maxMs) }));
     }
 
+    const bucketExpr = timeBucketExpr(bucket);
+
+    return await db
+      .select({
+        bucket: formatTimeBucket(bucketExpr),
+        ...latencyPercentiles,
+      })
+      .from(telemetryLogs)
+      .where(and(...buildLlmStatsConditions(workspaceId, filters)))
+      .groupBy(bucketExpr)
+      .orderBy(bucketExpr);
+  }
+
+  async getErrorRateSeries(
+    workspaceId: string,
+    bucket: TelemetryTimeBucket,
+    groupBy: ErrorRateGroupBy,
+    filters?: TelemetryLogFilters
+  ): Promise<ErrorRatePoint[]> {
+    // Rollups carry error counts per model but not per provider
+    if (groupBy === "model" && useRollups(filters)) {
+      const bucketExpr = timeBucketExpr(bucket, telemetryHourlyRollups.hour);
+      const source = rollupSource(workspaceId, filters);
+      const rows = await db.with(source)
+        .select({
+          bucket: formatTimeBucket(bucketExpr),
+          key: sql<string | null>`${telemetryHourlyRollups.model}`,
+          requests: rollupAggregates.requests,
+          errors: sql<number>`coalesce(sum(${telemetryHourlyRollups.errors}), 0)`.mapWith(Number),
+        })
+        .from(source)
+        .groupBy(bucketExpr, telemetryHourlyRollups.model)
+        .having(rollupHasRequests)
+        .orderBy(bucketExpr, telemetryHourlyRollups.model);
+
+      return rows.map((row) => ({ ...row, errorRate: row.requests > 0 ? row.errors / row.requests : 0 }));
+    }
+
+    const bucketExpr = timeBucketExpr(bucket);
+    const column = groupBy === "model" ? telemetryLogs.model : telemetryLogs.provider;
+    const rows = await db
+      .select({
+        bucket: formatTimeBucket(bucketExpr),
+        key: sql<string | null>`${column}`,
+        requests: telemetryAggregates.requests,
+        errors: telemetryErrorCount,
+      })
+      .from(telemetryLogs)
+      .where(and(...buildLlmStatsConditions(workspaceId, filters)))
+      .groupBy(bucketExpr, column)
+      .orderBy(bucketExpr, column);
+
+    return rows.map((row) => ({ ...row, errorRate: row.requests > 0 ? row.errors / row.requests : 0 }));
+  }
+
+  async getErrorGroups(workspaceId: string, filters?: TelemetryLogFilters, limit: number = 50): Promise<ErrorGroup[]> {
+    const rows = await db
+      .select({
+        signature: sql<string>`md5(concat_ws('|', ${telemetryLogs.errorType}, ${telemetryLogs.errorHttpStatus}, ${errorMaskedMessageExpr}))`,
+        errorType: telemetryLogs.errorType,
+        httpStatus: telemetryLogs.errorHttpStatus,
+        message: errorMaskedMessageExpr,
+        sampleMessage: sql<string>`(array_agg(${errorMessageExpr} order by ${telemetryLogs.timestamp} desc))[1]`,
+        count: telemetryAggregates.requests,
+        models: sql<string[]>`array_agg(distinct ${telemetryLogs.model})`,
+        providers: sql<string[]>`coalesce(array_agg(distinct ${telemetryLogs.provider}) filter (where ${telemetryLogs.provider} is not null), '{}')`,
+        firstSeenAt: sql<Date>`min(${telemetryLogs.timestamp})`.mapWith(telemetryLogs.timestamp),
+        lastSeenAt: sql<Date>`max(${telemetryLogs.timestamp})`.mapWith(telemetryLogs.timestamp),
+        lastLogId: sql<string>`(array_agg(${telemetryLogs.id} order by ${telemetryLogs.timestamp} desc))[1]`,
+      })
+      .from(telemetryLogs)
+      .where(and(...buildLlmStatsConditions(workspaceId, filters), eq(telemetryLogs.status, "error")))
+      .groupBy(telemetryLogs.errorType, telemetryLogs.errorHttpStatus, errorMaskedMessageExpr)
+      .orderBy(desc(telemetryAggregates.requests), desc(sql`max(${telemetryLogs.timestamp})`))
+      .limit(limit);
+
+    return rows.map((row) => ({
+      ...row,
+      firstSeenAt: row.firstSeenAt.toISOString(),
+      lastSeenAt: row.lastSeenAt.toISOString(),
+    }));
+  }
+
+  async getAlertMetrics(workspaceId: string, filters?: TelemetryLogFilters): Promise<AlertMetrics> {
+    const [metrics] = await db
+      .select({
+        requests: telemetryAggregates.requests,
+        errors: telemetryErrorCount,
+        cost: telemetryAggregates.cost,
+        p95LatencyMs: sql<number | null>`percentile_cont(0.95) within group (order by ${telemetryLogs.latencyMs}) filter (where ${isLlmCall})`,
+      })
+      .from(telemetryLogs)
+      .where(and(...buildStatsConditions(workspaceId, filters)));
+
+    return {
+      ...metrics,
+      p95LatencyMs: metrics.p95LatencyMs === null ? null : Number(metrics.p95LatencyMs),
+    };
+  }
+
+  async createTelemetryLog(insertLog: InsertTelemetryLog): Promise<TelemetryLog> {
+    const [log] = await this.createTelemetryLogs([insertLog]);
+    return log;
+  }
+
+  // Logs and their rollups are written together so long-range stats never drift from the raw data
+  async createTelemetryLogs(insertLogs: Array<InsertTelemetryLog & { id?: string }>): Promise<TelemetryLog[]> {
+    if (insertLogs.length === 0) return [];
+
+    return await db.transaction(async (tx) => {
+      const logs = await tx
+        .insert(telemetryLogs)
+        .values(insertLogs)
+        .returning();
+      await addLogsToRollups(tx, logs);
+      return logs;
+    });
+  }
+
+  // Recompute rollups for every hour in [from, to) from the raw logs; used to backfill history
+  async rebuildTelemetryRollups(from: Date, to: Date): Promise<number> {
+    return await db.transaction(async (tx) => {
+      // Clear the rows of each project, environment and hour that still has logs first, so rows
+      // with nothing left to replace them (e.g. tool spans without cost, counted as requests before
+      // requests were limited to LLM calls) do not linger. Hours whose logs retention already removed are kept.
+      await tx.execute(sql`
+        delete from ${telemetryHourlyRollups} r
+        where r.hour >= ${from.toISOString()}::timestamp and r.hour < ${to.toISOString()}::timestamp
+          and exists (
+            select 1 from ${telemetryLogs} l
+            where l.workspace_id = r.workspace_id
+              and l.project_id is not distinct from r.project_id
+              and l.environment = r.environment
+              and l.timestamp >= r.hour and l.timestamp < r.hour + interval '1 hour'
+          )
+      `);
+      const result = await tx.execute(upsertRollups(rollupSourceSelect(and(
+        gte(telemetryLogs.timestamp, from),
+        lt(telemetryLogs.timestamp, to)
+      )), "replace"));
+      return result.rowCount ?? 0;
+    });
+  }
+
+  private async getRollupBreakdown(
+    workspaceId: string,
+    groupBy: TelemetryGroupBy,
+    filters?: TelemetryLogFilters
+  ): Promise<TelemetryBreakdownRow[]> {
+    const source = rollupSource(workspaceId, filters);
+
+    if (groupBy === "project") {
+      const rows = await db.with(source)
+        .select({
+          key: telemetryHourlyRollups.projectId,
+          projectName: projects.name,
+          ...rollupAggregates,
+        })
+        .from(source)
+        .leftJoin(projects, eq(telemetryHourlyRollups.projectId, projects.id))
+        .groupBy(telemetryHourlyRollups.projectId, projects.name)
+        .orderBy(desc(rollupAggregates.cost));
+
+      return rows.map(({ projectName, ...row }) => ({
+        ...row,
+        label: projectName || "Unassigned",
+      }));
+    }
+
+    const column = groupBy === "model" ? telemetryHourlyRollups.model : telemetryHourlyRollups.environment;
+    const rows = await db.with(source)
+      .select({
+        key: column,
+        ...rollupAggregates,
+      })
+      .from(source)
+      .groupBy(column)
+      .orderBy(desc(rollupAggregates.cost));
+
+    return rows.map((row) => ({ ...row, label: row.key }));
+  }
+
+  // Percentiles are estimated from the hourly histograms, so they are approximate within a bucket
+  private async getRollupLatencyPercentiles(
+    workspaceId: string,
+    groupBy: TelemetryGroupBy,
+    filters?: TelemetryLogFilters
+  ): Promise<LatencyPercentileRow[]> {
+    const source = rollupSource(workspaceId, filters);
+    let rows: { key: string | null; label: string; requests: number; histogram: number[]; maxMs: number }[];
+
+    if (groupBy === "project") {
+      const projectRows = await db.with(source)
+        .select({
+          key: telemetryHourlyRollups.projectId,
+          projectName: projects.name,
+          requests: rollupAggregates.requests,
+          ...rollupLatencyHistogram,
+        })
+        .from(source)
+        .leftJoin(projects, eq(telemetryHourlyRollups.projectId, projects.id))
+        .groupBy(telemetryHourlyRollups.projectId, projects.name)
+        .having(rollupHasRequests);
+
+      rows = projectRows.map(({ projectName, ...row }) => ({ ...row, label: projectName || "Unassigned" }));
+    } else {
+      const column = groupBy === "model" ? telemetryHourlyRollups.model : telemetryHourlyRollups.environment;
+      const columnRows = await db.with(source)
+        .select({
+          key: column,
+          requests: rollupAggregates.requests,
+          ...rollupLatencyHistogram,
+        })
+        .from(source)
+        .groupBy(column)
+        .having(rollupHasRequests);
+
+      rows = columnRows.map((row) => ({ ...row, label: row.key }));
+    }
+
+    return rows
+      .map(({ histogram, maxMs, ...row }) => ({ ...row, ...histogramPercentiles(histogram, maxMs) }))
+      .sort((a, b) => b.p95 - a.p95);
+  }
+
+  // Traces
+  async getTraceSummaries(workspaceId: string, filters?: TelemetryLogFilters, limit: number = 50): Promise<TraceSummary[]> {
+    const rows = await db
+      .select(traceSummaryFields)
+      .from(telemetryLogs)
+      .where(and(...buildTelemetryConditions(workspaceId, filters), sql`${telemetryLogs.traceId} is not null`))
+      .groupBy(telemetryLogs.traceId)
+      .orderBy(desc(sql`max(${telemetryLogs.timestamp})`))
+      .limit(limit);
+    return rows.map(toTraceSummary);
+  }
+
+  async getTraceSummary(workspaceId: string, traceId: string, filters?: TelemetryLogFilters): Promise<TraceSummary | undefined> {
+    const [row] = await db
+      .select(traceSummaryFields)
+      .from(telemetryLogs)
+      .where(and(...buildTelemetryConditions(workspaceId, filters), eq(telemetryLogs.traceId, traceId)))
+      .groupBy(telemetryLogs.traceId);
+    return row ? toTraceSummary(row) : undefined;
+  }
+
+  async getTraceSpans(workspaceId: string, traceId: string, filters?: TelemetryLogFilters): Promise<TelemetryLog[]> {
+    return await db
+      .select()
+      .from(telemetryLogs)
+      .where(and(...buildTelemetryConditions(workspaceId, filters), eq(telemetryLogs.traceId, traceId)))
+      .orderBy(asc(spanStartExpr), asc(telemetryLogs.id))
+      .limit(MAX_TRACE_SPANS);
+  }
+
+  // Sessions
+  async getSessionSummaries(workspaceId: string, filters?: TelemetryLogFilters, limit: number = 50): Promise<SessionSummary[]> {
+    const rows = await db
+      .select(sessionSummaryFields)
+      .from(telemetryLogs)
+      .where(and(...buildTelemetryConditions(workspaceId, filters), sql`${telemetryLogs.sessionId} is not null`))
+      .groupBy(telemetryLogs.sessionId)
+      .orderBy(desc(sql`max(${telemetryLogs.timestamp})`))
+      .limit(limit);
+    return rows.map(toSessionSummary);
+  }
+
+  async getSessionSummary(workspaceId: string, sessionId: string, filters?: TelemetryLogFilters): Promise<SessionSummary | undefined> {
+    const [row] = await db
+      .select(sessionSummaryFields)
+      .from(telemetryLogs)
+      .where(and(...buildTelemetryConditions(workspaceId, filters), eq(telemetryLogs.sessionId, sessionId)))
+      .groupBy(telemetryLogs.sessionId);
+    return row ? toSessionSummary(row) : undefined;
+  }
+
+  async getSessionTurns(workspaceId: string, sessionId: string, filters?: TelemetryLogFilters): Promise<TelemetryLog[]> {
     return await db
       .select()
       .from(telemetryLogs)
+      .where(and(
+        ...buildTelemetryConditions(workspaceId, filters),
+        eq(telemetryLogs.sessionId, sessionId),
+        eq(telemetryLogs.kind, "llm")
+      ))
+      .orderBy(asc(spanStartExpr), asc(telemetryLogs.id))
+      .limit(MAX_SESSION_TURNS);
+  }
+
+  // Model Prices
+  async getGlobalModelPrices(): Promise<ModelPrice[]> {
+    return await db
+      .select()
+      .from(modelPrices)
+      .where(isNull(modelPrices.workspaceId))
+      .orderBy(asc(modelPrices.model), desc(modelPrices.effectiveFrom));
+  }
+
+  async getModelPrices(workspaceId: string): Promise<ModelPrice[]> {
+    return await db
+      .select()
+      .from(modelPrices)
+      .where(or(isNull(modelPrices.workspaceId), eq(modelPrices.workspaceId, workspaceId)))
+      .orderBy(asc(modelPrices.model), desc(modelPrices.effectiveFrom));
+  }
+
+  async getModelPrice(id: string): Promise<ModelPrice | undefined> {
+    const [price] = await db.select().from(modelPrices).where(eq(modelPrices.id, id));
+    return price || undefined;
+  }
+
+  async findModelPrice(workspaceId: string, model: string, at: Date): Promise<ModelPrice | undefined> {
+    // Workspace overrides win over the global catalog, then the most recent effective price
+    const [price] = await db
+      .select()
+      .from(modelPrices)
+      .where(
+        and(
+          eq(modelPrices.model, model),
+          lte(modelPrices.effectiveFrom, at),
+          or(isNull(modelPrices.workspaceId), eq(modelPrices.workspaceId, workspaceId))
+        )
+      )
+      .orderBy(sql`${modelPrices.workspaceId} is null`, desc(modelPrices.effectiveFrom))
+      .limit(1);
+    return price || undefined;
+  }
+
+  async createModelPrice(insertPrice: InsertModelPrice): Promise<ModelPrice> {
+    const [price] = await db
+      .insert(modelPrices)
+      .values(insertPrice)
+      .returning();
+    return price;
+  }
+
+  async createModelPrices(insertPrices: InsertModelPrice[]): Promise<ModelPrice[]> {
+    if (insertPrices.length === 0) return [];
+
+    return await db
+      .insert(modelPrices)
+      .values(insertPrices)
+      .returning();
+  }
+
+  async deleteModelPrice(id: string): Promise<void> {
+    await db.delete(modelPrices).where(eq(modelPrices.id, id));
+  }
+
+  // Budgets
+  async getAllBudgets(): Promise<Budget[]> {
+    return await db.select().from(budgets);
+  }
+
+  async getBudgets(workspaceId: string): Promise<Budget[]> {
+    return await db
+      .select()
+      .from(budgets)
+      .where(eq(budgets.workspaceId, workspaceId))
+      .orderBy(desc(budgets.createdAt));
+  }
+
+  async getBudget(id: string): Promise<Budget | undefined> {
+    const [budget] = await db.select().from(budgets).where(eq(budgets.id, id));
+    return budget || undefined;
+  }
+
+  async createBudget(insertBudget: InsertBudget): Promise<Budget> {
+    const [budget] = await db
+      .insert(budgets)
+      .values(insertBudget)
+      .returning();
+    return budget;
+  }
+
+  async updateBudget(id: string, data: Partial<InsertBudget>): Promise<Budget | undefined> {
+    const [budget] = await db
+      .update(budgets)
+      .set(data)
+      .where(eq(budgets.id, id))
+      .returning();
+    return budget || undefined;
+  }
+
+  async deleteBudget(id: string): Promise<void> {
+    await db.delete(budgets).where(eq(budgets.id, id));
+  }
+
+  async getBudgetAlerts(workspaceId: string, limit: number = 50): Promise<BudgetAlert[]> {
+    return await db
+      .select()
+      .from(budgetAlerts)
+      .where(eq(budgetAlerts.workspaceId, workspaceId))
+      .orderBy(desc(budgetAlerts.createdAt))
+      .limit(limit);
+  }
+
+  async createBudgetAlert(insertAlert: InsertBudgetAlert): Promise<BudgetAlert | undefined> {
+    // Alerts are unique per budget, threshold and period; an existing alert is left untouched
+    const [alert] = await db
+      .insert(budgetAlerts)
+      .values(insertAlert)
+      .onConflictDoNothing()
+      .returning();
+    return alert || undefined;
+  }
+
+  // Webhooks
+  async getWebhooks(workspaceId: string): Promise<Webhook[]> {
+    return await db
+      .select()
+      .from(webhooks)
+      .where(eq(webhooks.workspaceId, workspaceId))
+      .orderBy(desc(webhooks.createdAt));
+  }
+
+  async getWebhook(id: string): Promise<Webhook | undefined> {
+    const [webhook] = await db.select().from(webhooks).where(eq(webhooks.id, id));
+    return webhook || undefined;
+  }
+
+  async getSubscribedWebhooks(workspaceId: string, event: string): Promise<Webhook[]> {
+    return await db
+      .select()
+      .from(webhooks)
+      .where(
+        and(
+          eq(webhooks.workspaceId, workspaceId),
+          eq(webhooks.enabled, true),
+          sql`${webhooks.events} @> ${JSON.stringify([event])}::jsonb`
+        )
+      );
+  }
+
+  async getWorkspaceIdsSubscribedTo(event: string): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ workspaceId: webhooks.workspaceId })
+      .from(webhooks)
+      .where(and(eq(webhooks.enabled, true), sql`${webhooks.events} @> ${JSON.stringify([event])}::jsonb`));
+    return rows.map((row) => row.workspaceId);
+  }
+
+  async createWebhook(insertWebhook: InsertWebhook & { secret: string }): Promise<Webhook> {
+    const [webhook] = await db
+      .insert(webhooks)
+      .values(insertWebhook)
+      .returning();
+    return webhook;
+  }
+
+  async updateWebhook(id: string, data: Partial<InsertWebhook>): Promise<Webhook | undefined> {
+    const [webhook] = await db
+      .update(webhooks)
+      .set(data)
+      .where(eq(webhooks.id, id))
+      .returning();
+    return webhook || undefined;
+  }
+
+  async deleteWebhook(id: string): Promise<void> {
+    await db.delete(webhooks).where(eq(webhooks.id, id));
+  }
+
+  async getWebhookDeliveries(webhookId: string, limit: number = 50): Promise<WebhookDelivery[]> {
+    return await db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.webhookId, webhookId))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  async getDueWebhookDeliveries(now: Date, limit: number = 50): Promise<WebhookDelivery[]> {
+    return await db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, now)))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(limit);
+  }
+
+  async createWebhookDelivery(insertDelivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const [delivery] = await db
+      .insert(webhookDeliveries)
+      .values(insertDelivery)
+      .returning();
+    return delivery;
+  }
+
+  async updateWebhookDelivery(id: string, data: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await db
+      .update(webhookDeliveries)
+      .set(data)
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return delivery || undefined;
+  }
+
+  // Rate Limiting
+  async recordRateLimitDrops(workspaceId: string, day: Date, count: number, lastDroppedAt: Date): Promise<void> {
+    await db
+      .insert(rateLimitDrops)
+      .values({ workspaceId, day, count, lastDroppedAt })
+      .onConflictDoUpdate({
+        target: [rateLimitDrops.workspaceId, rateLimitDrops.day],
+        set: {
+          count: sql`${rateLimitDrops.count} + ${count}`,
+          lastDroppedAt: sql`greatest(${rateLimitDrops.lastDroppedAt}, ${lastDroppedAt})`,
+        },
+      });
+  }
+
+  async getRateLimitDrops(workspaceId: string, since: Date): Promise<RateLimitDrop[]> {
+    return await db
+      .select()
+      .from(rateLimitDrops)
+      .where(and(eq(rateLimitDrops.workspaceId, workspaceId), gte(rateLimitDrops.day, since)))
+      .orderBy(desc(rateLimitDrops.day));
+  }
+
+  // Retention
+  async getAllRetentionPolicies(): Promise<RetentionPolicy[]> {
+    return await db.select().from(retentionPolicies);
+  }
+
+  async getRetentionPolicies(workspaceId: string): Promise<RetentionPolicy[]> {
+    return await db
+      .select()
+      .from(retentionPolicies)
+      .where(eq(retentionPolicies.workspaceId, workspaceId))
+      .orderBy(asc(retentionPolicies.createdAt));
+  }
+
+  async getRetentionPolicy(id: string): Promise<RetentionPolicy | undefined> {
+    const [policy] = await db.select().from(retentionPolicies).where(eq(retentionPolicies.id, id));
+    return policy || undefined;
+  }
+
+  async upsertRetentionPolicy(insertPolicy: InsertRetentionPolicy): Promise<RetentionPolicy> {
+    // One policy per workspace and project (projectId null being the workspace default)
+    const [policy] = await db
+      .insert(retentionPolicies)
+      .values(insertPolicy)
+      .onConflictDoUpdate({
+        target: [retentionPolicies.workspaceId, retentionPolicies.projectId],
+        set: {
+          contentRetentionDays: insertPolicy.contentRetentionDays ?? null,
+          logRetentionDays: insertPolicy.logRetentionDays ?? null,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return policy;
+  }
+
+  async deleteRetentionPolicy(id: string): Promise<void> {
+    await db.delete(retentionPolicies).where(eq(retentionPolicies.id, id));
+  }
+
+  // Both purges touch at most `limit` rows so the caller can work through a backlog in batches
+  async deleteTelemetryLogsBefore(workspaceId: string, scope: RetentionScope, before: Date, limit: number): Promise<number> {
+    const batch = db
+      .select({ id: telemetryLogs.id })
+      .from(telemetryLogs)
+      .where(and(...retentionConditions(workspaceId, scope), lt(telemetryLogs.timestamp, before)))
+      .limit(limit);
+
+    const deleted = await db
+      .delete(telemetryLogs)
+      .where(sql`${telemetryLogs.id} in (${batch})`)
+      .returning({ id: telemetryLogs.id });
+    return deleted.length;
+  }
+
+  async purgeTelemetryContentBefore(workspaceId: string, scope: RetentionScope, before: Date, limit: number): Promise<number> {
+    const batch = db
+      .select({ id: telemetryLogs.id })
+      .from(telemetryLogs)
+      .where(and(
+        ...retentionConditions(workspaceId, scope),
+        lt(telemetryLogs.timestamp, before),
+        isNull(telemetryLogs.contentPurgedAt)
+      ))
+      .limit(limit);
+
+    const purged = await db
+      .update(telemetryLogs)
+      .set({ prompt: "", response: "", contentPurgedAt: new Date() })
+      .where(sql`${telemetryLogs.id} in (${batch})`)
+      .returning({ id: telemetryLogs.id });
+    return purged.length;
+  }
+
+  async createRetentionRun(insertRun: InsertRetentionRun): Promise<RetentionRun> {
+    const [run] = await db
+      .insert(retentionRuns)
+      .values(insertRun)
+      .returning();
+    return run;
+  }
+
+  async getRetentionRuns(workspaceId: string, limit: number = 50): Promise<RetentionRun[]> {
+    return await db
+      .select()
+      .from(retentionRuns)
+      .where(eq(retentionRuns.workspaceId, workspaceId))
+      .orderBy(desc(retentionRuns.finishedAt))
+      .limit(limit);
+  }
+
+  // Alerts
+  async getEnabledAlertRules(): Promise<AlertRule[]> {
+    return await db.select().from(alertRules).where(eq(alertRules.enabled, true));
+  }
+
+  async getAlertRules(workspaceId: string): Promise<AlertRule[]> {
+    return await db
+      .select()
+      .from(alertRules)
+      .where(eq(alertRules.workspaceId, workspaceId))
+      .orderBy(desc(alertRules.createdAt));
+  }
+
+  async getAlertRule(id: string): Promise<AlertRule | undefined> {
+    const [rule] = await db.select().from(alertRules).where(eq(alertRules.id, id));
+    return rule || undefined;
+  }
+
+  async createAlertRule(insertRule: InsertAlertRule): Promise<AlertRule> {
+    const [rule] = await db
+      .insert(alertRules)
+      .values(insertRule)
+      .returning();
+    return rule;
+  }
+
+  async updateAlertRule(
+    id: string,
+    data: Partial<InsertAlertRule> & Partial<AlertRuleEvaluation>
+  ): Promise<AlertRule | undefined> {
+    const [rule] = await db
+      .update(alertRules)
+      .set(data)
+      .where(eq(alertRules.id, id))
+      .returning();
+    return rule || undefined;
+  }
+
+  async deleteAlertRule(id: string): Promise<void> {
+    await db.delete(alertRules).where(eq(alertRules.id, id));
+  }
+
+  async getAlertIncidents(workspaceId: string, filters?: AlertIncidentFilters, limit: number = 100): Promise<AlertIncident[]> {
+    const conditions: SQL[] = [eq(alertIncidents.workspaceId, workspaceId)];
+    if (filters?.ruleId) {
+      conditions.push(eq(alertIncidents.ruleId, filters.ruleId));
+    }
+    if (filters?.open !== undefined) {
+      conditions.push(filters.open ? isNull(alertIncidents.resolvedAt) : sql`${alertIncidents.resolvedAt} is not null`);
+    }
+
+    return await db
+      .select()
+      .from(alertIncidents)
       .where(and(...conditions))
-      .orderBy(desc(telemetryLogs.timestamp))
-      .limit(1000); // Limit to most recent 1000 logs
+      .orderBy(desc(alertIncidents.firedAt))
+      .limit(limit);
   }
 
-  async getTelemetryLog(id: string): Promise<TelemetryLog | undefined> {
-    const [log] = await db.select().from(telemetryLogs).where(eq(telemetryLogs.id, id));
-    return log || undefined;
+  async getOpenAlertIncident(ruleId: string): Promise<AlertIncident | undefined> {
+    const [incident] = await db
+      .select()
+      .from(alertIncidents)
+      .where(and(eq(alertIncidents.ruleId, ruleId), isNull(alertIncidents.resolvedAt)))
+      .orderBy(desc(alertIncidents.firedAt))
+      .limit(1);
+    return incident || undefined;
   }
 
-  async createTelemetryLog(insertLog: InsertTelemetryLog): Promise<TelemetryLog> {
-    const [log] = await db
-      .insert(telemetryLogs)
-      .values(insertLog)
+  async createAlertIncident(insertIncident: InsertAlertIncident): Promise<AlertIncident> {
+    const [incident] = await db
+      .insert(alertIncidents)
+      .values(insertIncident)
       .returning();
-    return log;
+    return incident;
+  }
+
+  async resolveAlertIncidents(ruleId: string, resolvedAt: Date, resolvedValue: string | null = null): Promise<AlertIncident[]> {
+    return await db
+      .update(alertIncidents)
+      .set({ resolvedAt, resolvedValue })
+      .where(and(eq(alertIncidents.ruleId, ruleId), isNull(alertIncidents.resolvedAt)))
+      .returning();
+  }
+
+  async getAlertSilences(workspaceId: string): Promise<AlertSilence[]> {
+    return await db
+      .select()
+      .from(alertSilences)
+      .where(eq(alertSilences.workspaceId, workspaceId))
+      .orderBy(desc(alertSilences.endsAt));
+  }
+
+  async getAlertSilence(id: string): Promise<AlertSilence | undefined> {
+    const [silence] = await db.select().from(alertSilences).where(eq(alertSilences.id, id));
+    return silence || undefined;
+  }
+
+  async getActiveAlertSilence(workspaceId: string, ruleId: string, at: Date): Promise<AlertSilence | undefined> {
+    // A silence without a rule covers every rule in the workspace
+    const [silence] = await db
+      .select()
+      .from(alertSilences)
+      .where(
+        and(
+          eq(alertSilences.workspaceId, workspaceId),
+          or(isNull(alertSilences.ruleId), eq(alertSilences.ruleId, ruleId)),
+          lte(alertSilences.startsAt, at),
+          gt(alertSilences.endsAt, at)
+        )
+      )
+      .orderBy(desc(alertSilences.endsAt))
+      .limit(1);
+    return silence || undefined;
+  }
+
+  async createAlertSilence(insertSilence: InsertAlertSilence): Promise<AlertSilence> {
+    const [silence] = await db
+      .insert(alertSilences)
+      .values(insertSilence)
+      .returning();
+    return silence;
+  }
+
+  async deleteAlertSilence(id: string): Promise<void> {
+    await db.delete(alertSilences).where(eq(alertSilences.id, id));
+  }
+
+  async getAlertChannels(workspaceId: string): Promise<AlertChannel[]> {
+    return await db
+      .select()
+      .from(alertChannels)
+      .where(eq(alertChannels.workspaceId, workspaceId))
+      .orderBy(desc(alertChannels.createdAt));
+  }
+
+  async getAlertChannel(id: string): Promise<AlertChannel | undefined> {
+    const [channel] = await db.select().from(alertChannels).where(eq(alertChannels.id, id));
+    return channel || undefined;
+  }
+
+  async createAlertChannel(insertChannel: InsertAlertChannel): Promise<AlertChannel> {
+    const [channel] = await db
+      .insert(alertChannels)
+      .values(insertChannel)
+      .returning();
+    return channel;
+  }
+
+  async updateAlertChannel(id: string, data: Partial<InsertAlertChannel>): Promise<AlertChannel | undefined> {
+    const [channel] = await db
+      .update(alertChannels)
+      .set(data)
+      .where(eq(alertChannels.id, id))
+      .returning();
+    return channel || undefined;
+  }
+
+  async deleteAlertChannel(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [channel] = await tx.delete(alertChannels).where(eq(alertChannels.id, id)).returning();
+      if (!channel) return;
+      // Rules keep channel ids in a JSON array, so drop the deleted one rather than leave it dangling
+      await tx
+        .update(alertRules)
+        .set({ channelIds: sql`${alertRules.channelIds} - ${id}::text` })
+        .where(and(eq(alertRules.workspaceId, channel.workspaceId), sql`${alertRules.channelIds} ? ${id}`));
+    });
   }
 }
 
@@ -0,0 +1,217 @@
+import { createHmac, randomBytes } from "crypto";
+import { storage } from "./storage";
+import type { Webhook, WebhookDelivery, WebhookEvent } from "@shared/schema";
+
+// Failed deliveries are retried with exponential backoff: 30s, 1m, 2m, 4m, 8m
+const MAX_DELIVERY_ATTEMPTS = 6;
+const RETRY_BASE_DELAY = 30 * 1000;
+const DELIVERY_TIMEOUT = 10 * 1000;
+const RETRY_POLL_INTERVAL = 30 * 1000;
+
+// Error-rate spike detection: compare the recent window against the preceding day
+const ERROR_RATE_CHECK_INTERVAL = 5 * 60 * 1000; // 5 minutes
+const ERROR_RATE_WINDOW = 15 * 60 * 1000;
+const ERROR_RATE_BASELINE = 24 * 60 * 60 * 1000;
+const ERROR_RATE_MIN_REQUESTS = 20;
+const ERROR_RATE_MIN_RATE = 0.1;
+const ERROR_RATE_SPIKE_FACTOR = 2;
+const ERROR_RATE_COOLDOWN = 60 * 60 * 1000;
+
+let retryTimer: NodeJS.Timeout | null = null;
+let errorRateTimer: NodeJS.Timeout | null = null;
+const lastErrorRateSpike = new Map<string, number>();
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+// Receivers verify with HMAC-SHA256(secret, `${timestamp}.${body}`) from the signature header
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+}
+
+function getRetryDelay(attempts: number): number {
+  return RETRY_BASE_DELAY * Math.pow(2, attempts - 1);
+}
+
+// Send one attempt and record the outcome on the delivery
+export async function attemptDelivery(delivery: WebhookDelivery, webhook: Webhook): Promise<WebhookDelivery> {
+  const attempts = delivery.attempts + 1;
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "AI-Observability-Webhooks/1.0",
+        "X-Webhook-Id": webhook.id,
+        "X-Webhook-Delivery": delivery.id,
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": `sha256=${signWebhookPayload(webhook.secret, timestamp, body)}`,
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT),
+    });
+    responseStatus = response.status;
+    if (!response.ok) {
+      error = `Receiver responded with HTTP ${response.status}`;
+    }
+  } catch (err: any) {
+    error = err.name === "TimeoutError" ? `Timed out after ${DELIVERY_TIMEOUT / 1000}s` : err.message;
+  }
+
+  if (!error) {
+    return (await storage.updateWebhookDelivery(delivery.id, {
+      status: "success",
+      attempts,
+      responseStatus,
+      error: null,
+      nextAttemptAt: null,
+      deliveredAt: new Date(),
+    }))!;
+  }
+
+  const exhausted = attempts >= MAX_DELIVERY_ATTEMPTS;
+  return (await storage.updateWebhookDelivery(delivery.id, {
+    status: exhausted ? "failed" : "pending",
+    attempts,
+    responseStatus,
+    error,
+    nextAttemptAt: exhausted ? null : new Date(Date.now() + getRetryDelay(attempts)),
+  }))!;
+}
+
+async function createDelivery(webhook: Webhook, event: WebhookEvent, data: unknown): Promise<WebhookDelivery> {
+  return await storage.createWebhookDelivery({
+    webhookId: webhook.id,
+    workspaceId: webhook.workspaceId,
+    event,
+    payload: {
+      event,
+      workspaceId: webhook.workspaceId,
+      createdAt: new Date().toISOString(),
+      data,
+    },
+    status: "pending",
+    // Picked up by the retry worker if the first attempt never completes
+    nextAttemptAt: new Date(Date.now() + RETRY_BASE_DELAY),
+  });
+}
+
+// Queue an event for every enabled webhook subscribed to it and attempt delivery right away.
+// Never rejects, so callers can fire and forget without delaying their response.
+export async function emitWebhookEvent(workspaceId: string, event: WebhookEvent, data: unknown): Promise<void> {
+  try {
+    const subscribed = await storage.getSubscribedWebhooks(workspaceId, event);
+    await Promise.all(
+      subscribed.map(async (webhook) => {
+        const delivery = await createDelivery(webhook, event, data);
+        await attemptDelivery(delivery, webhook);
+      })
+    );
+  } catch (error) {
+    console.error(`Failed to emit webhook event ${event}:`, error);
+  }
+}
+
+// Deliver a sample event to one webhook regardless of its subscriptions and wait for the result
+export async function sendTestEvent(webhook: Webhook): Promise<WebhookDelivery> {
+  const delivery = await createDelivery(webhook, "webhook.test", {
+    message: "This is a test event.",
+  });
+  return await attemptDelivery(delivery, webhook);
+}
+
+export async function retryDueDeliveries(now: Date = new Date()): Promise<void> {
+  const due = await storage.getDueWebhookDeliveries(now);
+
+  for (const delivery of due) {
+    try {
+      const webhook = await storage.getWebhook(delivery.webhookId);
+      if (!webhook || !webhook.enabled) {
+        await storage.updateWebhookDelivery(delivery.id, {
+          status: "failed",
+          error: "Webhook was disabled before delivery succeeded",
+          nextAttemptAt: null,
+        });
+        continue;
+      }
+      await attemptDelivery(delivery, webhook);
+    } catch (error) {
+      console.error(`Failed to retry webhook delivery ${delivery.id}:`, error);
+    }
+  }
+}
+
+// Emit telemetry.error_rate_spike for workspaces whose recent error rate is well above their baseline
+export async function checkErrorRateSpikes(now: Date = new Date()): Promise<void> {
+  const workspaceIds = await storage.getWorkspaceIdsSubscribedTo("telemetry.error_rate_spike");
+  const windowStart = new Date(now.getTime() - ERROR_RATE_WINDOW);
+  const baselineStart = new Date(windowStart.getTime() - ERROR_RATE_BASELINE);
+
+  for (const workspaceId of workspaceIds) {
+    try {
+      const lastSpike = lastErrorRateSpike.get(workspaceId);
+      if (lastSpike && now.getTime() - lastSpike < ERROR_RATE_COOLDOWN) continue;
+
+      const recent = await storage.getTelemetryErrorCounts(workspaceId, { startDate: windowStart, endDate: now });
+      if (recent.requests < ERROR_RATE_MIN_REQUESTS) continue;
+
+      const errorRate = recent.errors / recent.requests;
+      if (errorRate < ERROR_RATE_MIN_RATE) continue;
+
+      const baseline = await storage.getTelemetryErrorCounts(workspaceId, { startDate: baselineStart, endDate: windowStart });
+      const baselineErrorRate = baseline.requests > 0 ? baseline.errors / baseline.requests : 0;
+      if (errorRate < baselineErrorRate * ERROR_RATE_SPIKE_FACTOR) continue;
+
+      lastErrorRateSpike.set(workspaceId, now.getTime());
+      await emitWebhookEvent(workspaceId, "telemetry.error_rate_spike", {
+        windowStart: windowStart.toISOString(),
+        windowEnd: now.toISOString(),
+        requests: recent.requests,
+        errors: recent.errors,
+        errorRate,
+        baselineErrorRate,
+      });
+    } catch (error) {
+      console.error(`Failed to check error rate for workspace ${workspaceId}:`, error);
+    }
+  }
+}
+
+export function startWebhookWorker() {
+  if (retryTimer) return;
+
+  retryTimer = setInterval(() => {
+    retryDueDeliveries().catch((error) => {
+      console.error("Webhook retry failed:", error);
+    });
+  }, RETRY_POLL_INTERVAL);
+  retryTimer.unref();
+
+  errorRateTimer = setInterval(() => {
+    checkErrorRateSpikes().catch((error) => {
+      console.error("Error rate check failed:", error);
+    });
+  }, ERROR_RATE_CHECK_INTERVAL);
+  errorRateTimer.unref();
+}
+
+export function stopWebhookWorker() {
+  if (retryTimer) {
+    clearInterval(retryTimer);
+    retryTimer = null;
+  }
+  if (errorRateTimer) {
+    clearInterval(errorRateTimer);
+    errorRateTimer = null;
+  }
+}
@@ -1,5 +1,5 @@
-import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, jsonb, decimal, index, unique } from "drizzle-orm/pg-core";
+import { sql, type SQL } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, integer, bigint, jsonb, decimal, boolean, index, unique, primaryKey, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -56,6 +56,11 @@ export const workspacesRelations = relations(workspaces, ({ one, many }) => ({
   apiKeys: many(apiKeys),
   telemetryLogs: many(telemetryLogs),
   members: many(workspaceMembers),
+  modelPrices: many(modelPrices),
+  budgets: many(budgets),
+  webhooks: many(webhooks),
+  retentionPolicies: many(retentionPolicies),
+  alertRules: many(alertRules),
 }));
 
 // Workspace Members - Team management with RBAC
@@ -106,12 +111,21 @@ export const apiKeys = pgTable("api_keys", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
   workspaceId: varchar("workspace_id", { length: 36 }).notNull().references(() => workspaces.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
-  key: text("key").notNull().unique(),
+  keyHash: text("key_hash").notNull().unique(), // SHA-256 of the full key; the key itself is never stored
+  keyPrefix: text("key_prefix").notNull(), // Leading characters shown in the UI to identify the key
+  projectId: varchar("project_id", { length: 36 }).references(() => projects.id, { onDelete: "cascade" }), // Restricts the key to one project
+  environment: text("environment"), // Restricts the key to one environment
+  scopes: jsonb("scopes").$type<string[]>().notNull().default(["ingest", "read", "stream"]), // ingest, read, stream, admin
   lastUsedAt: timestamp("last_used_at"),
+  expiresAt: timestamp("expires_at"),
+  // Set on the old key when it is rotated; it stays valid until expiresAt (the grace window)
+  replacedById: varchar("replaced_by_id", { length: 36 }).references((): AnyPgColumn => apiKeys.id, { onDelete: "set null" }),
+  // Revoked keys are kept for auditing instead of being deleted
+  revokedAt: timestamp("revoked_at"),
+  revokedBy: varchar("revoked_by").references(() => users.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => ({
   workspaceIdIdx: index("api_keys_workspace_id_idx").on(table.workspaceId),
-  keyIdx: index("api_keys_key_idx").on(table.key),
 }));
 
 export const apiKeysRelations = relations(apiKeys, ({ one }) => ({
@@ -119,31 +133,74 @@ export const apiKeysRelations = relations(apiKeys, ({ one }) => ({
     fields: [apiKeys.workspaceId],
     references: [workspaces.id],
   }),
+  project: one(projects, {
+    fields: [apiKeys.projectId],
+    references: [projects.id],
+  }),
 }));
 
-// Telemetry Logs - Core observability data
+// Full-text search document over prompt and response. Queries must use this exact expression
+// to hit the GIN index; each field is capped so huge payloads stay under the tsvector size limit.
+export function telemetrySearchDocument(table: { prompt: AnyPgColumn; response: AnyPgColumn }): SQL {
+  return sql`to_tsvector('english', left(${table.prompt}, 100000) || ' ' || left(${table.response}, 100000))`;
+}
+
+// Telemetry Logs - Core observability data. In production the table is range-partitioned by month
+// on timestamp (see server/partitions.ts), so the primary key has to include timestamp.
 export const telemetryLogs = pgTable("telemetry_logs", {
-  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  id: varchar("id", { length: 36 }).notNull().default(sql`gen_random_uuid()`),
   workspaceId: varchar("workspace_id", { length: 36 }).notNull().references(() => workspaces.id, { onDelete: "cascade" }),
   projectId: varchar("project_id", { length: 36 }).references(() => projects.id, { onDelete: "set null" }),
   environment: text("environment").notNull().default("production"),
   model: text("model").notNull(),
+  provider: text("provider"), // Model provider (openai, anthropic, ...) when known
   prompt: text("prompt").notNull(),
   response: text("response").notNull(),
   latencyMs: integer("latency_ms").notNull(),
   promptTokens: integer("prompt_tokens").notNull(),
   completionTokens: integer("completion_tokens").notNull(),
   totalTokens: integer("total_tokens").notNull(),
+  cachedTokens: integer("cached_tokens").notNull().default(0), // Subset of promptTokens served from cache
+  cacheWriteTokens: integer("cache_write_tokens").notNull().default(0), // Subset of promptTokens written to the cache
   cost: decimal("cost", { precision: 10, scale: 6 }).notNull(),
+  catalogCost: decimal("catalog_cost", { precision: 10, scale: 6 }), // Cost computed from the pricing catalog
+  costMismatch: boolean("cost_mismatch").notNull().default(false), // Client-sent cost differs from catalogCost
   status: text("status").notNull().default("success"),
+  // Structured failure details, set when status is error
+  errorType: text("error_type"), // Provider or SDK error class (rate_limit_error, timeout, ...)
+  errorHttpStatus: integer("error_http_status"), // HTTP status the provider responded with
+  errorMessage: text("error_message"),
   metadata: jsonb("metadata"),
+  // Span fields linking multi-step workflows into a trace
+  traceId: varchar("trace_id", { length: 64 }),
+  spanId: varchar("span_id", { length: 64 }),
+  parentSpanId: varchar("parent_span_id", { length: 64 }),
+  kind: text("kind").notNull().default("llm"), // llm, tool, retrieval or chain
+  name: text("name"), // Step name shown in trace views (e.g. the tool called)
+  startedAt: timestamp("started_at"), // When the call started; timestamp is when it was recorded
+  // Conversation grouping supplied by the SDK
+  sessionId: varchar("session_id", { length: 128 }),
+  // Cost attribution to the app's own end users and customers (not platform users)
+  endUserId: varchar("end_user_id", { length: 255 }),
+  customerId: varchar("customer_id", { length: 255 }),
+  contentPurgedAt: timestamp("content_purged_at"), // Prompt and response were cleared by a retention policy
   timestamp: timestamp("timestamp").notNull().defaultNow(),
 }, (table) => ({
+  pk: primaryKey({ name: "telemetry_logs_pkey", columns: [table.id, table.timestamp] }),
   workspaceIdIdx: index("telemetry_logs_workspace_id_idx").on(table.workspaceId),
   projectIdIdx: index("telemetry_logs_project_id_idx").on(table.projectId),
   timestampIdx: index("telemetry_logs_timestamp_idx").on(table.timestamp),
   environmentIdx: index("telemetry_logs_environment_idx").on(table.environment),
   modelIdx: index("telemetry_logs_model_idx").on(table.model),
+  workspaceTimestampIdIdx: index("telemetry_logs_workspace_timestamp_id_idx").on(table.workspaceId, table.timestamp, table.id),
+  workspaceTraceIdx: index("telemetry_logs_workspace_trace_idx").on(table.workspaceId, table.traceId),
+  workspaceSessionIdx: index("telemetry_logs_workspace_session_idx").on(table.workspaceId, table.sessionId),
+  workspaceEndUserIdx: index("telemetry_logs_workspace_end_user_idx").on(table.workspaceId, table.endUserId, table.timestamp),
+  workspaceCustomerIdx: index("telemetry_logs_workspace_customer_idx").on(table.workspaceId, table.customerId, table.timestamp),
+  searchIdx: index("telemetry_logs_search_idx").using("gin", telemetrySearchDocument(table)),
+  workspaceErrorsIdx: index("telemetry_logs_workspace_errors_idx")
+    .on(table.workspaceId, table.timestamp)
+    .where(sql`${table.status} = 'error'`),
 }));
 
 export const telemetryLogsRelations = relations(telemetryLogs, ({ one }) => ({
@@ -157,6 +214,306 @@ export const telemetryLogsRelations = relations(telemetryLogs, ({ one }) => ({
   }),
 }));
 
+// Model Prices - Per-model token pricing catalog (USD per 1M tokens)
+// Rows without a workspaceId form the global catalog; workspace rows override them
+export const modelPrices = pgTable("model_prices", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id", { length: 36 }).references(() => workspaces.id, { onDelete: "cascade" }),
+  model: text("model").notNull(),
+  inputPrice: decimal("input_price", { precision: 12, scale: 6 }).notNull(),
+  outputPrice: decimal("output_price", { precision: 12, scale: 6 }).notNull(),
+  cachedInputPrice: decimal("cached_input_price", { precision: 12, scale: 6 }),
+  cacheWriteInputPrice: decimal("cache_write_input_price", { precision: 12, scale: 6 }),
+  effectiveFrom: timestamp("effective_from").notNull().defaultNow(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  workspaceIdIdx: index("model_prices_workspace_id_idx").on(table.workspaceId),
+  modelEffectiveIdx: index("model_prices_model_effective_idx").on(table.model, table.effectiveFrom),
+}));
+
+export const modelPricesRelations = relations(modelPrices, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [modelPrices.workspaceId],
+    references: [workspaces.id],
+  }),
+}));
+
+// Budgets - Spend limits per workspace, project or environment
+export const budgets = pgTable("budgets", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id", { length: 36 }).notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  scope: text("scope").notNull().default("workspace"), // workspace, project, environment
+  projectId: varchar("project_id", { length: 36 }).references(() => projects.id, { onDelete: "cascade" }),
+  environment: text("environment"),
+  period: text("period").notNull().default("monthly"), // daily, weekly, monthly
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  thresholds: jsonb("thresholds").$type<number[]>().notNull().default([50, 80, 100]), // Percent of amount
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  workspaceIdIdx: index("budgets_workspace_id_idx").on(table.workspaceId),
+}));
+
+export const budgetsRelations = relations(budgets, ({ one, many }) => ({
+  workspace: one(workspaces, {
+    fields: [budgets.workspaceId],
+    references: [workspaces.id],
+  }),
+  project: one(projects, {
+    fields: [budgets.projectId],
+    references: [projects.id],
+  }),
+  alerts: many(budgetAlerts),
+}));
+
+// Budget Alerts - One event per budget, threshold and period
+export const budgetAlerts = pgTable("budget_alerts", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  budgetId: varchar("budget_id", { length: 36 }).notNull().references(() => budgets.id, { onDelete: "cascade" }),
+  workspaceId: varchar("workspace_id", { length: 36 }).notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  threshold: integer("threshold").notNull(),
+  periodStart: timestamp("period_start").notNull(),
+  spend: decimal("spend", { precision: 12, scale: 6 }).notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  workspaceIdIdx: index("budget_alerts_workspace_id_idx").on(table.workspaceId),
+  uniqueAlert: unique("budget_alerts_unique_alert").on(table.budgetId, table.threshold, table.periodStart),
+}));
+
+export const budgetAlertsRelations = relations(budgetAlerts, ({ one }) => ({
+  budget: one(budgets, {
+    fields: [budgetAlerts.budgetId],
+    references: [budgets.id],
+  }),
+}));
+
+// Webhooks - Outbound event notifications signed with a per-endpoint secret
+export const webhooks = pgTable("webhooks", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id", { length: 36 }).notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  url: text("url").notNull(),
+  description: text("description"),
+  secret: text("secret").notNull(),
+  events: jsonb("events").$type<string[]>().notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  workspaceIdIdx: index("webhooks_workspace_id_idx").on(table.workspaceId),
+}));
+
+export const webhooksRelations = relations(webhooks, ({ one, many }) => ({
+  workspace: one(workspaces, {
+    fields: [webhooks.workspaceId],
+    references: [workspaces.id],
+  }),
+  deliveries: many(webhookDeliveries),
+}));
+
+// Webhook Deliveries - One row per event sent to an endpoint, including retries
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  webhookId: varchar("webhook_id", { length: 36 }).notNull().references(() => webhooks.id, { onDelete: "cascade" }),
+  workspaceId: varchar("workspace_id", { length: 36 }).notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  event: text("event").notNull(),
+  payload: jsonb("payload").notNull(),
+  status: text("status").notNull().default("pending"), // pending, success, failed
+  attempts: integer("attempts").notNull().default(0),
+  responseStatus: integer("response_status"),
+  error: text("error"),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  webhookIdIdx: index("webhook_deliveries_webhook_id_idx").on(table.webhookId),
+  statusNextAttemptIdx: index("webhook_deliveries_status_next_attempt_idx").on(table.status, table.nextAttemptAt),
+}));
+
+export const webhookDeliveriesRelations = relations(webhookDeliveries, ({ one }) => ({
+  webhook: one(webhooks, {
+    fields: [webhookDeliveries.webhookId],
+    references: [webhooks.id],
+  }),
+}));
+
+// Retention Policies - How long telemetry is kept, per workspace (projectId null) or per project.
+// Null days keep data forever; on a project policy they inherit the workspace value.
+export const retentionPolicies = pgTable("retention_policies", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id", { length: 36 }).notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  projectId: varchar("project_id", { length: 36 }).references(() => projects.id, { onDelete: "cascade" }),
+  contentRetentionDays: integer("content_retention_days"), // Prompt and response text
+  logRetentionDays: integer("log_retention_days"), // Whole rows, including metrics
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  uniqueScope: unique("retention_policies_unique_scope").on(table.workspaceId, table.projectId).nullsNotDistinct(),
+}));
+
+export const retentionPoliciesRelations = relations(retentionPolicies, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [retentionPolicies.workspaceId],
+    references: [workspaces.id],
+  }),
+  project: one(projects, {
+    fields: [retentionPolicies.projectId],
+    references: [projects.id],
+  }),
+}));
+
+// Retention Runs - What each purge removed for a policy; only runs that changed data or failed are kept
+export const retentionRuns = pgTable("retention_runs", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id", { length: 36 }).notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  policyId: varchar("policy_id", { length: 36 }).references(() => retentionPolicies.id, { onDelete: "set null" }),
+  projectId: varchar("project_id", { length: 36 }).references(() => projects.id, { onDelete: "set null" }),
+  logsDeleted: integer("logs_deleted").notNull().default(0),
+  contentsPurged: integer("contents_purged").notNull().default(0),
+  logCutoff: timestamp("log_cutoff"),
+  contentCutoff: timestamp("content_cutoff"),
+  complete: boolean("complete").notNull().default(true), // False when the batch limit was hit and work remains
+  error: text("error"),
+  startedAt: timestamp("started_at").notNull(),
+  finishedAt: timestamp("finished_at").notNull().defaultNow(),
+}, (table) => ({
+  workspaceFinishedIdx: index("retention_runs_workspace_finished_idx").on(table.workspaceId, table.finishedAt),
+}));
+
+// Rate Limit Drops - Ingestion requests rejected by the rate limiter, counted per workspace per UTC day
+export const rateLimitDrops = pgTable("rate_limit_drops", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id", { length: 36 }).notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  day: timestamp("day").notNull(),
+  count: integer("count").notNull().default(0),
+  lastDroppedAt: timestamp("last_dropped_at").notNull(),
+}, (table) => ({
+  uniqueDay: unique("rate_limit_drops_unique_day").on(table.workspaceId, table.day),
+}));
+
+// Upper bounds (exclusive, in ms) of the rollup latency histogram buckets; a last bucket holds
+// everything slower. Includes the edges of the latency distribution chart so it can be read exactly.
+export const TELEMETRY_LATENCY_HISTOGRAM_BOUNDS = [50, 100, 250, 500, 1000, 2000, 5000, 10000, 30000, 60000] as const;
+
+// Telemetry Hourly Rollups - Per-hour aggregates of telemetry_logs, updated as logs are ingested, that
+// long-range stats read instead of scanning raw logs. Rows outlive the logs they summarize.
+export const telemetryHourlyRollups = pgTable("telemetry_hourly_rollups", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id", { length: 36 }).notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  // Folded into the unassigned row before a project is deleted (see storage.deleteProject)
+  projectId: varchar("project_id", { length: 36 }).references(() => projects.id, { onDelete: "cascade" }),
+  environment: text("environment").notNull(),
+  model: text("model").notNull(),
+  hour: timestamp("hour").notNull(), // Start of the UTC hour
+  requests: integer("requests").notNull().default(0),
+  errors: integer("errors").notNull().default(0),
+  promptTokens: bigint("prompt_tokens", { mode: "number" }).notNull().default(0),
+  completionTokens: bigint("completion_tokens", { mode: "number" }).notNull().default(0),
+  totalTokens: bigint("total_tokens", { mode: "number" }).notNull().default(0),
+  cost: decimal("cost", { precision: 16, scale: 6 }).notNull().default("0"),
+  latencySumMs: bigint("latency_sum_ms", { mode: "number" }).notNull().default(0),
+  latencyMaxMs: integer("latency_max_ms").notNull().default(0),
+  // Request counts per TELEMETRY_LATENCY_HISTOGRAM_BOUNDS bucket, plus the overflow bucket
+  latencyHistogram: integer("latency_histogram").array().notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  uniqueKey: unique("telemetry_hourly_rollups_unique_key")
+    .on(table.workspaceId, table.projectId, table.environment, table.model, table.hour)
+    .nullsNotDistinct(),
+  workspaceHourIdx: index("telemetry_hourly_rollups_workspace_hour_idx").on(table.workspaceId, table.hour),
+}));
+
+// Alert Channels - Notification targets that alert rules send firing and resolved notices to
+export const alertChannels = pgTable("alert_channels", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id", { length: 36 }).notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  type: text("type").notNull(), // webhooks, slack (see server/alert-channels.ts)
+  config: jsonb("config").$type<Record<string, string>>().notNull().default({}),
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  workspaceIdIdx: index("alert_channels_workspace_id_idx").on(table.workspaceId),
+}));
+
+// Alert Rules - A metric condition evaluated on a schedule over a trailing window of telemetry
+export const alertRules = pgTable("alert_rules", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id", { length: 36 }).notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  metric: text("metric").notNull(), // p95_latency (ms), error_rate (%), cost (USD over the window)
+  operator: text("operator").notNull().default("gt"), // gt, lt
+  threshold: decimal("threshold", { precision: 16, scale: 6 }).notNull(),
+  windowMinutes: integer("window_minutes").notNull().default(5),
+  forMinutes: integer("for_minutes").notNull().default(0), // How long the condition must hold before firing
+  // Optional filters narrowing the telemetry the metric is computed over
+  projectId: varchar("project_id", { length: 36 }).references(() => projects.id, { onDelete: "cascade" }),
+  environment: text("environment"),
+  model: text("model"),
+  channelIds: jsonb("channel_ids").$type<string[]>().notNull().default([]),
+  enabled: boolean("enabled").notNull().default(true),
+  // Evaluation state, maintained by server/alerts.ts
+  state: text("state").notNull().default("ok"), // ok, pending, firing
+  pendingSince: timestamp("pending_since"),
+  lastValue: decimal("last_value", { precision: 16, scale: 6 }),
+  lastEvaluatedAt: timestamp("last_evaluated_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  workspaceIdIdx: index("alert_rules_workspace_id_idx").on(table.workspaceId),
+}));
+
+export const alertRulesRelations = relations(alertRules, ({ one, many }) => ({
+  workspace: one(workspaces, {
+    fields: [alertRules.workspaceId],
+    references: [workspaces.id],
+  }),
+  project: one(projects, {
+    fields: [alertRules.projectId],
+    references: [projects.id],
+  }),
+  incidents: many(alertIncidents),
+}));
+
+// Alert Incidents - One row per firing of a rule, closed when it resolves. The rule's name and
+// condition are copied so history stays readable after the rule is edited or deleted.
+export const alertIncidents = pgTable("alert_incidents", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id", { length: 36 }).notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  ruleId: varchar("rule_id", { length: 36 }).references(() => alertRules.id, { onDelete: "set null" }),
+  ruleName: text("rule_name").notNull(),
+  metric: text("metric").notNull(),
+  operator: text("operator").notNull(),
+  threshold: decimal("threshold", { precision: 16, scale: 6 }).notNull(),
+  value: decimal("value", { precision: 16, scale: 6 }).notNull(), // When it fired
+  resolvedValue: decimal("resolved_value", { precision: 16, scale: 6 }),
+  silenced: boolean("silenced").notNull().default(false), // A silence was active when it fired, so no one was notified
+  firedAt: timestamp("fired_at").notNull().defaultNow(),
+  resolvedAt: timestamp("resolved_at"),
+}, (table) => ({
+  workspaceFiredIdx: index("alert_incidents_workspace_fired_idx").on(table.workspaceId, table.firedAt),
+  ruleIdIdx: index("alert_incidents_rule_id_idx").on(table.ruleId),
+}));
+
+export const alertIncidentsRelations = relations(alertIncidents, ({ one }) => ({
+  rule: one(alertRules, {
+    fields: [alertIncidents.ruleId],
+    references: [alertRules.id],
+  }),
+}));
+
+// Alert Silences - Suppress notifications for one rule (or every rule when ruleId is null) for a time range
+export const alertSilences = pgTable("alert_silences", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id", { length: 36 }).notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  ruleId: varchar("rule_id", { length: 36 }).references(() => alertRules.id, { onDelete: "cascade" }),
+  reason: text("reason"),
+  startsAt: timestamp("starts_at").notNull().defaultNow(),
+  endsAt: timestamp("ends_at").notNull(),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  workspaceEndsIdx: index("alert_silences_workspace_ends_idx").on(table.workspaceId, table.endsAt),
+}));
+
 // Insert schemas
 export const insertWorkspaceSchema = createInsertSchema(workspaces).omit({
   id: true,
@@ -172,10 +529,22 @@ export const insertProjectSchema = createInsertSchema(projects).omit({
   createdAt: true,
 });
 
-export const insertApiKeySchema = createInsertSchema(apiKeys).omit({
+// "admin" grants every other scope
+export const apiKeyScopes = ["ingest", "read", "stream", "admin"] as const;
+
+// Key material is generated server-side, so clients only send a name, binding and scopes
+export const insertApiKeySchema = createInsertSchema(apiKeys, {
+  scopes: z.array(z.enum(apiKeyScopes)).min(1),
+  expiresAt: z.coerce.date().refine((date) => date > new Date(), "Expiry must be in the future").nullable().optional(),
+}).omit({
   id: true,
+  keyHash: true,
+  keyPrefix: true,
   createdAt: true,
   lastUsedAt: true,
+  replacedById: true,
+  revokedAt: true,
+  revokedBy: true,
 });
 
 export const insertTelemetryLogSchema = createInsertSchema(telemetryLogs).omit({
@@ -183,6 +552,168 @@ export const insertTelemetryLogSchema = createInsertSchema(telemetryLogs).omit({
   timestamp: true,
 });
 
+export const telemetrySpanKinds = ["llm", "tool", "retrieval", "chain"] as const;
+
+// Fields only LLM spans must send; other span kinds default them to empty values
+const llmSpanFields = ["model", "prompt", "response", "promptTokens", "completionTokens", "totalTokens"] as const;
+
+// Ingest payload: cost is optional (computed from the catalog); catalog and retention fields are server-owned
+export const ingestTelemetryLogSchema = insertTelemetryLogSchema
+  .omit({
+    catalogCost: true,
+    costMismatch: true,
+    contentPurgedAt: true,
+  })
+  .extend({
+    kind: z.enum(telemetrySpanKinds).optional(),
+    startedAt: z.coerce.date().nullable().optional(),
+    provider: z.string().max(100).nullable().optional(),
+    errorType: z.string().max(255).nullable().optional(),
+    errorHttpStatus: z.number().int().min(100).max(599).nullable().optional(),
+    errorMessage: z.string().max(10000).nullable().optional(),
+    userId: z.string().max(255).optional(), // Accepted as an alias of endUserId
+  })
+  .partial({
+    cost: true,
+    model: true,
+    prompt: true,
+    response: true,
+    promptTokens: true,
+    completionTokens: true,
+    totalTokens: true,
+  })
+  .superRefine((data, ctx) => {
+    if ((data.spanId || data.parentSpanId) && !data.traceId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["traceId"], message: "traceId is required when spanId or parentSpanId is set" });
+    }
+    if (data.kind && data.kind !== "llm") return;
+    llmSpanFields.forEach((field) => {
+      if (data[field] === undefined) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: "Required" });
+      }
+    });
+  })
+  .transform(({ userId, ...data }) => ({
+    ...(userId !== undefined && { endUserId: userId }),
+    ...data,
+    // Error details imply a failed call unless the status says otherwise
+    ...(data.status === undefined && (data.errorType || data.errorHttpStatus || data.errorMessage) && { status: "error" }),
+    model: data.model ?? data.kind ?? "llm",
+    prompt: data.prompt ?? "",
+    response: data.response ?? "",
+    promptTokens: data.promptTokens ?? 0,
+    completionTokens: data.completionTokens ?? 0,
+    totalTokens: data.totalTokens ?? 0,
+  }));
+
+export const insertModelPriceSchema = createInsertSchema(modelPrices).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const budgetScopes = ["workspace", "project", "environment"] as const;
+export const budgetPeriods = ["daily", "weekly", "monthly"] as const;
+
+export const insertBudgetSchema = createInsertSchema(budgets, {
+  scope: z.enum(budgetScopes),
+  period: z.enum(budgetPeriods),
+  thresholds: z.array(z.number().int().min(1).max(1000)).min(1),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertBudgetAlertSchema = createInsertSchema(budgetAlerts).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Events a webhook can subscribe to; "webhook.test" is only sent on demand
+export const webhookEvents = [
+  "budget.threshold_crossed",
+  "telemetry.error_rate_spike",
+  "api_key.created",
+  "member.added",
+  "alert.firing",
+  "alert.resolved",
+] as const;
+
+export const insertWebhookSchema = createInsertSchema(webhooks, {
+  url: z.string().url().refine((value) => /^https?:\/\//.test(value), "URL must use http or https"),
+  events: z.array(z.enum(webhookEvents)).min(1),
+}).omit({
+  id: true,
+  secret: true,
+  createdAt: true,
+});
+
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const MAX_RETENTION_DAYS = 3650;
+
+const retentionDays = z.number().int().min(1).max(MAX_RETENTION_DAYS).nullable();
+
+export const insertRetentionPolicySchema = createInsertSchema(retentionPolicies, {
+  contentRetentionDays: retentionDays.optional(),
+  logRetentionDays: retentionDays.optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertRetentionRunSchema = createInsertSchema(retentionRuns).omit({
+  id: true,
+  finishedAt: true,
+});
+
+export const alertMetrics = ["p95_latency", "error_rate", "cost"] as const;
+export const alertOperators = ["gt", "lt"] as const;
+export const alertRuleStates = ["ok", "pending", "firing"] as const;
+export const alertChannelTypes = ["webhooks", "slack"] as const;
+
+// Windows are kept short enough to be computed from raw logs on every evaluation
+export const MAX_ALERT_WINDOW_MINUTES = 24 * 60;
+
+export const insertAlertRuleSchema = createInsertSchema(alertRules, {
+  name: z.string().min(1).max(100),
+  metric: z.enum(alertMetrics),
+  operator: z.enum(alertOperators),
+  windowMinutes: z.number().int().min(1).max(MAX_ALERT_WINDOW_MINUTES),
+  forMinutes: z.number().int().min(0).max(MAX_ALERT_WINDOW_MINUTES),
+  channelIds: z.array(z.string()).max(20),
+}).omit({
+  id: true,
+  state: true,
+  pendingSince: true,
+  lastValue: true,
+  lastEvaluatedAt: true,
+  createdAt: true,
+});
+
+export const insertAlertIncidentSchema = createInsertSchema(alertIncidents).omit({
+  id: true,
+});
+
+export const insertAlertSilenceSchema = createInsertSchema(alertSilences, {
+  reason: z.string().max(500).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAlertChannelSchema = createInsertSchema(alertChannels, {
+  name: z.string().min(1).max(100),
+  type: z.enum(alertChannelTypes),
+  config: z.record(z.string()),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertWorkspaceMemberSchema = createInsertSchema(workspaceMembers).omit({
   id: true,
   createdAt: true,
@@ -203,6 +734,232 @@ export type InsertProject = z.infer<typeof insertProjectSchema>;
 
 export type ApiKey = typeof apiKeys.$inferSelect;
 export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+export type ApiKeyScope = typeof apiKeyScopes[number];
+
+// API keys as returned by the API; the full key is only included in the create response
+export type ApiKeySummary = Omit<ApiKey, "keyHash">;
+export type CreatedApiKey = ApiKeySummary & { key: string };
 
 export type TelemetryLog = typeof telemetryLogs.$inferSelect;
 export type InsertTelemetryLog = z.infer<typeof insertTelemetryLogSchema>;
+export type IngestTelemetryLog = z.infer<typeof ingestTelemetryLogSchema>;
+
+// Paginated response from GET /api/telemetry
+export interface TelemetryLogsResponse {
+  logs: TelemetryLog[];
+  nextCursor: string | null;
+  // Words and phrases from the ?q= search to highlight in prompts and responses
+  highlightTerms?: string[];
+}
+
+export const telemetryLogSortValues = ["recent", "relevance"] as const;
+export type TelemetryLogSort = typeof telemetryLogSortValues[number];
+
+export type TelemetrySpanKind = typeof telemetrySpanKinds[number];
+
+// Per-trace rollup from GET /api/traces. Duration spans from the first start to the last end,
+// so concurrent spans are not double counted.
+export interface TraceSummary {
+  traceId: string;
+  rootName: string;
+  spanCount: number;
+  llmCalls: number;
+  errorCount: number;
+  totalCost: number;
+  totalTokens: number;
+  startedAt: string;
+  endedAt: string;
+  durationMs: number;
+}
+
+// GET /api/traces/:traceId: spans ordered by start time
+export interface TraceDetail {
+  summary: TraceSummary;
+  spans: TelemetryLog[];
+}
+
+// Per-session rollup from GET /api/sessions. Turns are LLM calls; cost and tokens include every span.
+export interface SessionSummary {
+  sessionId: string;
+  endUserId: string | null;
+  turnCount: number;
+  totalCost: number;
+  totalTokens: number;
+  startedAt: string;
+  endedAt: string;
+  durationMs: number;
+}
+
+// GET /api/sessions/:sessionId: LLM calls in the order they happened
+export interface SessionDetail {
+  summary: SessionSummary;
+  logs: TelemetryLog[];
+}
+
+// Aggregations from GET /api/telemetry/stats/*
+export const telemetryGroupByValues = ["model", "project", "environment"] as const;
+export const telemetryTimeBuckets = ["hour", "day", "week"] as const;
+export type TelemetryGroupBy = typeof telemetryGroupByValues[number];
+export type TelemetryTimeBucket = typeof telemetryTimeBuckets[number];
+
+export interface TelemetrySummary {
+  totalRequests: number;
+  totalCost: number;
+  totalTokens: number;
+  avgLatencyMs: number;
+  avgTokens: number;
+}
+
+export interface TelemetryBreakdownRow {
+  key: string | null;
+  label: string;
+  requests: number;
+  cost: number;
+  tokens: number;
+  avgLatencyMs: number;
+}
+
+// Cost attribution from GET /api/telemetry/stats/by-user, most expensive first
+export const telemetryUserGroupByValues = ["endUser", "customer"] as const;
+export type TelemetryUserGroupBy = typeof telemetryUserGroupByValues[number];
+
+export interface TelemetryUserStatsRow {
+  key: string; // endUserId or customerId
+  customerId: string | null; // Latest customer seen for the end user; the key itself when grouped by customer
+  endUsers: number;
+  requests: number;
+  errors: number;
+  cost: number;
+  tokens: number;
+  avgLatencyMs: number;
+  lastSeenAt: string;
+}
+
+export interface TelemetryTimeSeriesPoint {
+  bucket: string;
+  requests: number;
+  cost: number;
+  tokens: number;
+  avgLatencyMs: number;
+}
+
+export interface LatencyDistributionBucket {
+  range: string;
+  count: number;
+}
+
+export interface LatencyPercentiles {
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+}
+
+export interface LatencyPercentileRow extends LatencyPercentiles {
+  key: string | null;
+  label: string;
+  requests: number;
+}
+
+export interface LatencyPercentilePoint extends LatencyPercentiles {
+  bucket: string;
+}
+
+// Error analytics from GET /api/telemetry/stats/errors/*
+export const errorRateGroupByValues = ["model", "provider"] as const;
+export type ErrorRateGroupBy = typeof errorRateGroupByValues[number];
+
+export interface ErrorRatePoint {
+  bucket: string;
+  key: string | null; // Model or provider; null when the provider is unknown
+  requests: number;
+  errors: number;
+  errorRate: number; // errors / requests, 0-1
+}
+
+// Failures grouped by signature: error type, provider status and message with ids and numbers masked
+export interface ErrorGroup {
+  signature: string;
+  errorType: string | null;
+  httpStatus: number | null;
+  message: string; // Masked message shared by the group
+  sampleMessage: string; // Most recent unmasked message
+  count: number;
+  models: string[];
+  providers: string[];
+  firstSeenAt: string;
+  lastSeenAt: string;
+  lastLogId: string;
+}
+
+export type Budget = typeof budgets.$inferSelect;
+export type InsertBudget = z.infer<typeof insertBudgetSchema>;
+
+export type BudgetAlert = typeof budgetAlerts.$inferSelect;
+export type InsertBudgetAlert = z.infer<typeof insertBudgetAlertSchema>;
+
+// Budget with its spend in the current period, from GET /api/budgets
+export interface BudgetStatus extends Budget {
+  periodStart: string;
+  spend: number;
+  percentUsed: number;
+}
+
+export type ModelPrice = typeof modelPrices.$inferSelect;
+export type InsertModelPrice = z.infer<typeof insertModelPriceSchema>;
+
+export type Webhook = typeof webhooks.$inferSelect;
+export type InsertWebhook = z.infer<typeof insertWebhookSchema>;
+export type WebhookEvent = typeof webhookEvents[number] | "webhook.test";
+
+// Webhooks are listed without their signing secret, which is only returned on creation
+export type WebhookSummary = Omit<Webhook, "secret">;
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+
+export type RateLimitDrop = typeof rateLimitDrops.$inferSelect;
+
+export type RetentionPolicy = typeof retentionPolicies.$inferSelect;
+export type InsertRetentionPolicy = z.infer<typeof insertRetentionPolicySchema>;
+
+export type RetentionRun = typeof retentionRuns.$inferSelect;
+export type InsertRetentionRun = z.infer<typeof insertRetentionRunSchema>;
+
+export type TelemetryHourlyRollup = typeof telemetryHourlyRollups.$inferSelect;
+
+export type AlertMetric = typeof alertMetrics[number];
+export type AlertOperator = typeof alertOperators[number];
+export type AlertRuleState = typeof alertRuleStates[number];
+export type AlertChannelType = typeof alertChannelTypes[number];
+
+export type AlertRule = typeof alertRules.$inferSelect;
+export type InsertAlertRule = z.infer<typeof insertAlertRuleSchema>;
+
+export type AlertIncident = typeof alertIncidents.$inferSelect;
+export type InsertAlertIncident = z.infer<typeof insertAlertIncidentSchema>;
+
+export type AlertSilence = typeof alertSilences.$inferSelect;
+export type InsertAlertSilence = z.infer<typeof insertAlertSilenceSchema>;
+
+export type AlertChannel = typeof alertChannels.$inferSelect;
+export type InsertAlertChannel = z.infer<typeof insertAlertChannelSchema>;
+
+// Channels are listed with a masked description of their target instead of their config,
+// which can hold credentials such as a Slack webhook URL
+export type AlertChannelSummary = Omit<AlertChannel, "config"> & { target: string };
+
+export interface RateLimit {
+  capacity: number; // Burst size
+  refillPerSecond: number; // Sustained requests per second
+}
+
+// Ingestion limits and recent drops for a workspace, from GET /api/rate-limits
+export interface RateLimitStatus {
+  tier: string;
+  perKey: RateLimit;
+  perWorkspace: RateLimit;
+  droppedToday: number;
+  droppedLast7Days: number;
+  lastDroppedAt: string | null;
+}